@@ -4,24 +4,68 @@ import { Command } from 'commander';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
 import { format } from 'date-fns';
+import { existsSync, readFileSync } from 'fs';
+import { basename, extname } from 'path';
 
 import {
   createNote,
   listNotes,
   getNote,
+  updateNote,
+  deleteNote,
+  archiveNote,
+  moveNote,
   addActionPoint,
   getPendingActionPoints,
+  getPendingActionPointsWithNotes,
+  updateActionPoint,
+  rebuildNoteIndex,
+  extractActionPointsIntoNote,
+  acceptReviewItem,
+  rejectReviewItem,
+  ACTION_PRIORITIES,
+  ACTION_STATUSES,
 } from './services/notes.js';
-import { extractActionPoints } from './services/actionExtractor.js';
-import { createCalendarEvent } from './services/calendar.js';
-import { sendEmail, openEmailDraft, generateActionPointsEmail } from './services/email.js';
+import type { UnresolvedDueDate } from './services/notes.js';
+import { listReviewItems } from './services/reviewQueue.js';
+import type { ReviewItem } from './services/reviewQueue.js';
+import { searchNotes } from './services/search.js';
+import { startSeriesNote, getLatestSeriesNote, getNextSeriesDate } from './services/series.js';
+import { listTemplates, getExtractSections } from './services/templates.js';
+import { importTranscript, TRANSCRIPT_FORMATS } from './services/transcripts.js';
+import { createNoteFromEvent, findMeetings, formatMeetingLine, getMeetingRecipients } from './services/eventNotes.js';
+import { parseVariables } from './utils/placeholders.js';
+import { scheduleActionPoints, getWorkingHours } from './services/scheduler.js';
+import { saveActionEvent, closeActionEvent, syncCalendar } from './services/calendarSync.js';
+import { listCalendarProviders } from './services/calendar.js';
+import { formatInTimeZone, getDefaultTimeZone, isValidTimeZone, parseInTimeZone } from './utils/timezone.js';
+import {
+  sendEmail,
+  createEmailDraft,
+  generateActionPointsEmail,
+  generateAssigneeEmails,
+  generateDigestEmail,
+  generateMeetingSummaryEmail,
+} from './services/email.js';
+import { icsAttachment, noteAttachment, NOTE_EXPORT_FORMATS } from './services/attachments.js';
+import type { NoteExportFormat } from './services/attachments.js';
+import type { ActionPoint } from './types.js';
+import { buildActionDigest, formatDigestMarkdown } from './services/digest.js';
 import {
   loadConfig,
   saveConfig,
   addProject,
   listProjects,
   getProject,
+  addSeries,
+  listSeries,
+  addPerson,
+  removePerson,
+  listPeople,
+  setProjectEmailTemplate,
 } from './utils/config.js';
+import { listEmailTemplates, getEmailTemplate, EMAIL_TEMPLATE_PURPOSES } from './services/emailTemplates.js';
+import { filterByAssignee, findPerson, getAssigneesWithOpenActions, resolveRecipients } from './services/people.js';
 import {
   findRelatedNotes,
   linkNotes,
@@ -37,6 +81,29 @@ program
   .description('CLI for managing Highlight notes, action points, calendar, and email')
   .version('1.0.0');
 
+function printQueuedForReview(queued: ReviewItem[]): void {
+  if (queued.length > 0) {
+    console.log(chalk.yellow(`  ${queued.length} low-confidence action points queued for review (run action:review)`));
+  }
+}
+
+function printUnresolvedDates(unresolved: UnresolvedDueDate[]): void {
+  for (const item of unresolved) {
+    console.log(chalk.yellow(`  ⚠ Due date "${item.phrase}" left unset for "${item.description}": ${item.reason}`));
+  }
+}
+
+// A completed action's calendar event is marked done or removed
+async function reportClosedEvent(actionPoint: ActionPoint): Promise<void> {
+  try {
+    const outcome = await closeActionEvent(actionPoint);
+    if (outcome === 'marked') console.log(chalk.gray('  Calendar event marked done'));
+    if (outcome === 'removed') console.log(chalk.gray('  Calendar event removed'));
+  } catch (error) {
+    console.log(chalk.yellow(`  Calendar event not updated: ${error instanceof Error ? error.message : 'Unknown error'}`));
+  }
+}
+
 // ============ Project Commands ============
 
 program
@@ -82,6 +149,10 @@ program
   .option('-c, --content <content>', 'Note content')
   .option('-t, --tags <tags>', 'Comma-separated tags')
   .option('-e, --extract', 'Extract action points from content')
+  .option('-T, --template <name>', 'Render the note from a template')
+  .option('-a, --attendees <attendees>', 'Comma-separated attendees')
+  .option('-l, --lang <code>', 'Note language for extraction, e.g. nl or de (detected if omitted)')
+  .option('--var <key=value>', 'Template variable (repeatable)', (value: string, previous: string[]) => [...previous, value], [])
   .action(async (project, title, options) => {
     const proj = getProject(project);
     if (!proj) {
@@ -91,8 +162,8 @@ program
 
     let content = options.content || '';
 
-    // If no content, prompt for it
-    if (!content) {
+    // If no content and no template, prompt for it
+    if (!content && !options.template) {
       const answers = await inquirer.prompt([
         {
           type: 'editor',
@@ -104,20 +175,29 @@ program
     }
 
     const tags = options.tags ? options.tags.split(',').map((t: string) => t.trim()) : [];
-    const note = createNote(project, title, content, tags);
+
+    let note;
+    try {
+      note = await createNote(project, title, content, tags, {
+        template: options.template,
+        attendees: options.attendees ? options.attendees.split(',').map((a: string) => a.trim()) : [],
+        lang: options.lang,
+        variables: parseVariables(options.var),
+      });
+    } catch (error) {
+      console.log(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      return;
+    }
 
     if (options.extract) {
-      const extracted = extractActionPoints(content);
-      for (const action of extracted) {
-        addActionPoint(project, note.id, {
-          description: action.description,
-          assignee: action.assignee,
-          dueDate: action.dueDate,
-          priority: action.priority,
-          status: 'pending',
-        });
-      }
-      console.log(chalk.green(`✓ Note created with ${extracted.length} action points`));
+      const { added, queued, unresolvedDates } = await extractActionPointsIntoNote(project, note.id, note.content, {
+        sections: getExtractSections(note.template),
+        referenceDate: note.date,
+        language: note.lang,
+      });
+      console.log(chalk.green(`✓ Note created with ${added.length} action points`));
+      printUnresolvedDates(unresolvedDates);
+      printQueuedForReview(queued);
     } else {
       console.log(chalk.green(`✓ Note "${title}" created in ${project}`));
     }
@@ -126,12 +206,131 @@ program
     console.log(`  Date: ${note.date}`);
   });
 
+program
+  .command('note:import-transcript')
+  .description('Import a meeting transcript file as a note')
+  .argument('<project>', 'Project name')
+  .argument('<file>', 'Transcript file (.vtt, .srt, Zoom/Teams export or "Speaker: text" log)')
+  .option('-t, --title <title>', 'Note title (defaults to the file name)')
+  .option('-f, --format <format>', `Transcript format: ${TRANSCRIPT_FORMATS.join(', ')} (detected if omitted)`)
+  .option('-d, --date <date>', 'Meeting date (YYYY-MM-DD, defaults to today)')
+  .option('--tags <tags>', 'Comma-separated tags')
+  .option('-a, --attendees <attendees>', 'Comma-separated attendees besides the speakers')
+  .option('-l, --lang <code>', 'Transcript language for extraction, e.g. nl or de (detected if omitted)')
+  .option('-e, --extract', 'Extract action points, using the speaker as fallback assignee')
+  .action(async (project, file, options) => {
+    if (!existsSync(file)) {
+      console.log(chalk.red(`File not found: ${file}`));
+      return;
+    }
+
+    if (options.format && !TRANSCRIPT_FORMATS.includes(options.format)) {
+      console.log(chalk.red(`Unknown format "${options.format}". Use one of: ${TRANSCRIPT_FORMATS.join(', ')}`));
+      return;
+    }
+
+    try {
+      const { note, transcript } = await importTranscript(
+        project,
+        options.title || basename(file, extname(file)),
+        readFileSync(file, 'utf-8'),
+        {
+          format: options.format,
+          filename: file,
+          date: options.date,
+          tags: options.tags ? options.tags.split(',').map((t: string) => t.trim()) : [],
+          attendees: options.attendees ? options.attendees.split(',').map((a: string) => a.trim()) : [],
+          lang: options.lang,
+        }
+      );
+
+      console.log(chalk.green(`✓ Transcript imported as "${note.title}" in ${project}`));
+      console.log(`  ID: ${note.id}`);
+      console.log(`  Format: ${transcript.format}, ${transcript.segments.length} turns`);
+      if (transcript.speakers.length > 0) {
+        console.log(`  Speakers: ${transcript.speakers.join(', ')}`);
+      }
+
+      if (options.extract) {
+        const { added, queued, unresolvedDates } = await extractActionPointsIntoNote(project, note.id, note.content, {
+          referenceDate: note.date,
+          language: note.lang,
+        });
+        console.log(`  Extracted: ${added.length} action points`);
+        printUnresolvedDates(unresolvedDates);
+        printQueuedForReview(queued);
+      }
+    } catch (error) {
+      console.log(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    }
+  });
+
+program
+  .command('note:from-event')
+  .description("Start a note from a calendar meeting, today's by default")
+  .argument('<project>', 'Project name')
+  .option('-e, --event <id>', 'Calendar event ID')
+  .option('-d, --date <date>', 'Day of the meeting (YYYY-MM-DD, defaults to today)')
+  .option('-m, --match <text>', 'Part of the event title, to pick one of several meetings')
+  .option('-p, --provider <type>', `Calendar: ${listCalendarProviders().join(', ')} (defaults to the configured calendar)`)
+  .option('-t, --title <title>', 'Note title (defaults to the event title)')
+  .option('-T, --template <name>', 'Note template (see template:list)')
+  .option('--tags <tags>', 'Comma-separated tags')
+  .action(async (project, options) => {
+    try {
+      const events = await findMeetings({
+        eventId: options.event,
+        date: options.date,
+        title: options.match,
+        provider: options.provider,
+      });
+
+      if (events.length === 0) {
+        console.log(chalk.yellow(options.event ? `Event "${options.event}" not found` : `No meetings on ${options.date || 'today'}`));
+        return;
+      }
+
+      let event = events[0];
+      if (events.length > 1) {
+        const answers = await inquirer.prompt([
+          {
+            type: 'list',
+            name: 'index',
+            message: 'Which meeting?',
+            choices: events.map((e, index) => ({ name: formatMeetingLine(e), value: index })),
+          },
+        ]);
+        event = events[answers.index];
+      }
+
+      const note = await createNoteFromEvent(project, event, {
+        provider: options.provider,
+        title: options.title,
+        template: options.template,
+        tags: options.tags ? options.tags.split(',').map((t: string) => t.trim()) : [],
+      });
+
+      console.log(chalk.green(`✓ Note "${note.title}" created in ${project}`));
+      console.log(`  ID: ${note.id}`);
+      console.log(`  Date: ${note.date}`);
+      if (note.attendees?.length) {
+        console.log(`  Attendees: ${note.attendees.join(', ')}`);
+      }
+      if (note.location) {
+        console.log(`  Location: ${note.location}`);
+      }
+    } catch (error) {
+      console.log(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    }
+  });
+
 program
   .command('note:list')
   .description('List notes in a project')
   .argument('<project>', 'Project name')
-  .action((project) => {
-    const notes = listNotes(project);
+  .option('-a, --archived', 'Include archived notes')
+  .action(async (project, options) => {
+    const notes = await listNotes(project, options.archived);
 
     if (notes.length === 0) {
       console.log(chalk.yellow('No notes found'));
@@ -140,7 +339,8 @@ program
 
     console.log(chalk.bold(`\nNotes in ${project}:\n`));
     notes.forEach(n => {
-      console.log(`  ${chalk.cyan(n.date)} - ${chalk.white(n.title)}`);
+      const archived = n.archived ? chalk.gray(' (archived)') : '';
+      console.log(`  ${chalk.cyan(n.date)} - ${chalk.white(n.title)}${archived}`);
       console.log(`    ID: ${n.id}`);
       if (n.tags.length) console.log(`    Tags: ${n.tags.join(', ')}`);
       if (n.actionPoints.length) {
@@ -150,14 +350,333 @@ program
     });
   });
 
+program
+  .command('note:edit')
+  .description('Edit the title, content or tags of a note')
+  .argument('<project>', 'Project name')
+  .argument('<noteId>', 'Note ID')
+  .option('-T, --title <title>', 'New title')
+  .option('-c, --content <content>', 'New content')
+  .option('-t, --tags <tags>', 'Comma-separated tags, replacing the existing tags')
+  .option('-e, --editor', 'Edit the content in your editor')
+  .action(async (project, noteId, options) => {
+    const note = await getNote(project, noteId);
+    if (!note) {
+      console.log(chalk.red('Note not found'));
+      return;
+    }
+
+    let content = options.content;
+    if (options.editor) {
+      const answers = await inquirer.prompt([
+        {
+          type: 'editor',
+          name: 'content',
+          message: 'Edit note content (opens editor):',
+          default: note.content,
+        },
+      ]);
+      content = answers.content;
+    }
+
+    const updated = await updateNote(project, noteId, {
+      ...(options.title ? { title: options.title } : {}),
+      ...(content !== undefined ? { content } : {}),
+      ...(options.tags !== undefined
+        ? { tags: options.tags.split(',').map((t: string) => t.trim()).filter(Boolean) }
+        : {}),
+    });
+
+    if (!updated) {
+      console.log(chalk.red('Note not found'));
+      return;
+    }
+
+    console.log(chalk.green(`✓ Note "${updated.title}" updated`));
+  });
+
+program
+  .command('note:delete')
+  .description('Delete a note and remove links to it')
+  .argument('<project>', 'Project name')
+  .argument('<noteId>', 'Note ID')
+  .option('-y, --yes', 'Skip confirmation')
+  .action(async (project, noteId, options) => {
+    const note = await getNote(project, noteId);
+    if (!note) {
+      console.log(chalk.red('Note not found'));
+      return;
+    }
+
+    if (!options.yes) {
+      const { confirmed } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirmed',
+          message: `Delete "${note.title}"?`,
+          default: false,
+        },
+      ]);
+      if (!confirmed) return;
+    }
+
+    const result = await deleteNote(project, noteId);
+    if (!result) {
+      console.log(chalk.red('Note not found'));
+      return;
+    }
+
+    console.log(chalk.green(`✓ Note "${result.note.title}" deleted`));
+    if (result.updatedLinks) console.log(`  Removed links from ${result.updatedLinks} notes`);
+  });
+
+program
+  .command('note:archive')
+  .description('Archive a note')
+  .argument('<project>', 'Project name')
+  .argument('<noteId>', 'Note ID')
+  .option('-u, --undo', 'Restore an archived note')
+  .action(async (project, noteId, options) => {
+    const note = await archiveNote(project, noteId, !options.undo);
+
+    if (!note) {
+      console.log(chalk.red('Note not found'));
+      return;
+    }
+
+    console.log(chalk.green(`✓ Note "${note.title}" ${options.undo ? 'restored' : 'archived'}`));
+  });
+
+program
+  .command('note:move')
+  .description('Move a note to another project')
+  .argument('<project>', 'Current project name')
+  .argument('<noteId>', 'Note ID')
+  .argument('<targetProject>', 'Project to move the note to')
+  .option('-T, --title <title>', 'New title for the note')
+  .action(async (project, noteId, targetProject, options) => {
+    try {
+      const result = await moveNote(project, noteId, targetProject, options.title);
+
+      if (!result) {
+        console.log(chalk.red('Note not found'));
+        return;
+      }
+
+      console.log(chalk.green(`✓ Note "${result.note.title}" moved to ${targetProject}`));
+      if (result.updatedLinks) console.log(`  Updated links in ${result.updatedLinks} notes`);
+    } catch (error) {
+      console.log(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    }
+  });
+
+program
+  .command('note:search')
+  .description('Search notes by text and filters')
+  .argument('[query]', 'Text to search for in titles, content and action points')
+  .option('-p, --project <project>', 'Filter by project')
+  .option('-t, --tags <tags>', 'Comma-separated tags the note must have')
+  .option('--from <date>', 'Only notes on or after this date (YYYY-MM-DD)')
+  .option('--to <date>', 'Only notes on or before this date (YYYY-MM-DD)')
+  .option('-a, --assignee <name>', 'Only notes with actions assigned to this person')
+  .option('-o, --open', 'Only notes with open action points')
+  .option('-l, --limit <number>', 'Maximum results', '10')
+  .action(async (query, options) => {
+    const results = await searchNotes({
+      query,
+      project: options.project,
+      tags: options.tags ? options.tags.split(',').map((t: string) => t.trim()) : undefined,
+      from: options.from,
+      to: options.to,
+      assignee: options.assignee,
+      hasOpenActions: options.open,
+      limit: parseInt(options.limit),
+    });
+
+    if (results.length === 0) {
+      console.log(chalk.yellow('No matching notes'));
+      return;
+    }
+
+    console.log(chalk.bold(`\nFound ${results.length} notes:\n`));
+    results.forEach(r => {
+      console.log(`  ${chalk.cyan(r.date)} - ${chalk.white(r.title)} ${chalk.gray(`(${r.project}, score ${r.score})`)}`);
+      console.log(`    ID: ${r.noteId}`);
+      if (r.openActionPoints) console.log(`    Open actions: ${r.openActionPoints}`);
+      r.snippets.forEach(snippet => {
+        console.log(`    ${snippet.replace(/\*\*(.+?)\*\*/g, (_, term) => chalk.yellow.bold(term))}`);
+      });
+      console.log('');
+    });
+  });
+
+program
+  .command('template:list')
+  .description('List note templates')
+  .action(() => {
+    const templates = listTemplates();
+
+    console.log(chalk.bold('\nTemplates:\n'));
+    templates.forEach(t => {
+      console.log(`  ${chalk.green(t.name)} - ${t.description}`);
+      if (t.extractSections.length) console.log(`    Extracts from: ${t.extractSections.join(', ')}`);
+    });
+    console.log('');
+  });
+
+// ============ Series Commands ============
+
+program
+  .command('series:add')
+  .description('Add a recurring meeting series')
+  .argument('<name>', 'Series name (e.g., "Weekly Standup")')
+  .requiredOption('-p, --project <project>', 'Project the series notes go into')
+  .option('-c, --cadence <cadence>', 'Cadence: daily, weekly, biweekly, monthly', 'weekly')
+  .option('-t, --tags <tags>', 'Comma-separated default tags')
+  .option('-a, --attendees <attendees>', 'Comma-separated default attendees')
+  .action((name, options) => {
+    if (!getProject(options.project)) {
+      console.log(chalk.red(`Project "${options.project}" not found`));
+      return;
+    }
+
+    addSeries({
+      name,
+      project: options.project,
+      cadence: options.cadence,
+      tags: options.tags ? options.tags.split(',').map((t: string) => t.trim()) : [],
+      attendees: options.attendees ? options.attendees.split(',').map((a: string) => a.trim()) : [],
+    });
+    console.log(chalk.green(`✓ Series "${name}" added`));
+  });
+
+program
+  .command('series:list')
+  .description('List meeting series')
+  .action(async () => {
+    const allSeries = listSeries();
+
+    if (allSeries.length === 0) {
+      console.log(chalk.yellow('No series configured. Run: highlight-workflow series:add <name> --project <project>'));
+      return;
+    }
+
+    console.log(chalk.bold('\nMeeting Series:\n'));
+    for (const series of allSeries) {
+      const latest = await getLatestSeriesNote(series);
+      console.log(`  ${chalk.green(series.name)} ${chalk.gray(`(${series.cadence})`)}`);
+      console.log(`    Project: ${series.project}`);
+      if (series.attendees.length) console.log(`    Attendees: ${series.attendees.join(', ')}`);
+      if (latest) {
+        console.log(`    Last: ${latest.date} - ${latest.title}`);
+        console.log(`    Next due: ${getNextSeriesDate(series, latest.date)}`);
+      }
+      console.log('');
+    }
+  });
+
+program
+  .command('series:next')
+  .description('Create the next note in a meeting series')
+  .argument('<name>', 'Series name')
+  .option('-c, --content <content>', 'Note content')
+  .option('-d, --date <date>', 'Meeting date (YYYY-MM-DD, defaults to the next date in the cadence, or today for the first)')
+  .option('-e, --extract', 'Extract action points from content')
+  .action(async (name, options) => {
+    try {
+      const { note, previous, carriedOver } = await startSeriesNote(name, {
+        content: options.content,
+        date: options.date,
+      });
+
+      console.log(chalk.green(`✓ Note "${note.title}" created in ${note.project}`));
+      console.log(`  ID: ${note.id}`);
+      if (previous) {
+        console.log(`  Linked to: ${previous.title}`);
+        console.log(`  Carried over: ${carriedOver.length} action points`);
+      }
+
+      if (options.extract && options.content) {
+        const { added, queued, unresolvedDates } = await extractActionPointsIntoNote(note.project, note.id, options.content, {
+          referenceDate: note.date,
+          language: note.lang,
+        });
+        console.log(`  Extracted: ${added.length} action points`);
+        printUnresolvedDates(unresolvedDates);
+        printQueuedForReview(queued);
+      }
+    } catch (error) {
+      console.log(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    }
+  });
+
+// ============ People Commands ============
+
+program
+  .command('people:add')
+  .description('Add or update a person in the team directory')
+  .argument('<handle>', 'Handle used as assignee (e.g., "sarah")')
+  .option('-n, --name <name>', 'Full name')
+  .option('-e, --email <email>', 'Email address')
+  .option('-a, --aliases <aliases>', 'Comma-separated other spellings (e.g., "sarah.j,Sarah Jones")')
+  .option('-c, --calendar <type>', `Preferred calendar: ${listCalendarProviders().join(', ')}`)
+  .action((handle, options) => {
+    if (options.calendar && !listCalendarProviders().includes(options.calendar)) {
+      console.log(chalk.red(`Calendar must be one of: ${listCalendarProviders().join(', ')}`));
+      return;
+    }
+
+    addPerson({
+      handle: handle.replace(/^@/, ''),
+      ...(options.name ? { name: options.name } : {}),
+      ...(options.email ? { email: options.email } : {}),
+      ...(options.aliases ? { aliases: options.aliases.split(',').map((a: string) => a.trim()) } : {}),
+      ...(options.calendar ? { calendar: options.calendar } : {}),
+    });
+    console.log(chalk.green(`✓ ${handle} saved to the team directory`));
+  });
+
+program
+  .command('people:list')
+  .description('List the team directory')
+  .action(() => {
+    const people = listPeople();
+
+    if (people.length === 0) {
+      console.log(chalk.yellow('No people configured. Run: highlight-workflow people:add <handle> --email <email>'));
+      return;
+    }
+
+    console.log(chalk.bold('\nPeople:\n'));
+    for (const person of people) {
+      console.log(`  ${chalk.green(person.handle)}${person.name ? ` ${chalk.gray(`(${person.name})`)}` : ''}`);
+      if (person.email) console.log(`    Email: ${person.email}`);
+      if (person.aliases?.length) console.log(`    Aliases: ${person.aliases.join(', ')}`);
+      if (person.calendar) console.log(`    Calendar: ${person.calendar}`);
+    }
+    console.log('');
+  });
+
+program
+  .command('people:remove')
+  .description('Remove a person from the team directory')
+  .argument('<handle>', 'Handle of the person')
+  .action((handle) => {
+    if (removePerson(handle.replace(/^@/, ''))) {
+      console.log(chalk.green(`✓ ${handle} removed`));
+    } else {
+      console.log(chalk.red(`No person with handle "${handle}"`));
+    }
+  });
+
 // ============ Action Point Commands ============
 
 program
   .command('action:list')
   .description('List pending action points')
   .option('-p, --project <project>', 'Filter by project')
-  .action((options) => {
-    const actions = getPendingActionPoints(options.project);
+  .action(async (options) => {
+    const actions = await getPendingActionPoints(options.project);
 
     if (actions.length === 0) {
       console.log(chalk.green('No pending action points'));
@@ -166,6 +685,8 @@ program
 
     console.log(chalk.bold('\nPending Action Points:\n'));
 
+    const today = format(new Date(), 'yyyy-MM-dd');
+
     const byPriority = {
       high: actions.filter(a => a.priority === 'high'),
       medium: actions.filter(a => a.priority === 'medium'),
@@ -181,7 +702,10 @@ program
       items.forEach(a => {
         console.log(`    [ ] ${a.description}`);
         if (a.assignee) console.log(`        Assignee: ${a.assignee}`);
-        if (a.dueDate) console.log(`        Due: ${a.dueDate}`);
+        if (a.dueDate) {
+          const overdue = a.dueDate < today ? chalk.red(' (overdue)') : '';
+          console.log(`        Due: ${a.dueDate}${overdue}`);
+        }
         console.log(`        ID: ${a.id}\n`);
       });
     }
@@ -194,16 +718,27 @@ program
   .argument('<noteId>', 'Note ID')
   .argument('<description>', 'Action description')
   .option('-a, --assignee <name>', 'Assignee name')
-  .option('-d, --due <date>', 'Due date')
-  .option('-p, --priority <level>', 'Priority: low, medium, high', 'medium')
-  .action((project, noteId, description, options) => {
-    const result = addActionPoint(project, noteId, {
-      description,
-      assignee: options.assignee,
-      dueDate: options.due,
-      priority: options.priority,
-      status: 'pending',
-    });
+  .option('-d, --due <date>', 'Due date (YYYY-MM-DD or e.g. "next friday")')
+  .option('-p, --priority <level>', `Priority: ${ACTION_PRIORITIES.join(', ')}`, 'medium')
+  .action(async (project, noteId, description, options) => {
+    if (!ACTION_PRIORITIES.includes(options.priority)) {
+      console.log(chalk.red(`Priority must be one of: ${ACTION_PRIORITIES.join(', ')}`));
+      return;
+    }
+
+    let result;
+    try {
+      result = await addActionPoint(project, noteId, {
+        description,
+        assignee: options.assignee,
+        dueDate: options.due,
+        priority: options.priority,
+        status: 'pending',
+      });
+    } catch (error) {
+      console.log(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      return;
+    }
 
     if (result) {
       console.log(chalk.green('✓ Action point added'));
@@ -213,6 +748,159 @@ program
     }
   });
 
+program
+  .command('action:done')
+  .description('Mark an action point as completed')
+  .argument('<actionId>', 'Action point ID')
+  .option('-b, --by <name>', 'Who completed it (defaults to the configured user)')
+  .action(async (actionId, options) => {
+    const result = await updateActionPoint(actionId, { status: 'completed' }, options.by);
+
+    if (!result) {
+      console.log(chalk.red('Action point not found'));
+      return;
+    }
+
+    console.log(chalk.green(`✓ Completed: ${result.description}`));
+    await reportClosedEvent(result);
+  });
+
+program
+  .command('action:start')
+  .description('Mark an action point as in progress')
+  .argument('<actionId>', 'Action point ID')
+  .option('-b, --by <name>', 'Who started it (defaults to the configured user)')
+  .action(async (actionId, options) => {
+    const result = await updateActionPoint(actionId, { status: 'in_progress' }, options.by);
+
+    if (result) {
+      console.log(chalk.green(`✓ In progress: ${result.description}`));
+    } else {
+      console.log(chalk.red('Action point not found'));
+    }
+  });
+
+program
+  .command('action:edit')
+  .description('Edit, reassign or reprioritise an action point')
+  .argument('<actionId>', 'Action point ID')
+  .option('-D, --description <text>', 'New description')
+  .option('-a, --assignee <name>', 'New assignee (empty string to unassign)')
+  .option('-d, --due <date>', 'New due date (empty string to clear)')
+  .option('-p, --priority <level>', `Priority: ${ACTION_PRIORITIES.join(', ')}`)
+  .option('-s, --status <status>', `Status: ${ACTION_STATUSES.join(', ')}`)
+  .option('-b, --by <name>', 'Who made the change (defaults to the configured user)')
+  .action(async (actionId, options) => {
+    if (options.priority !== undefined && !ACTION_PRIORITIES.includes(options.priority)) {
+      console.log(chalk.red(`Priority must be one of: ${ACTION_PRIORITIES.join(', ')}`));
+      return;
+    }
+    if (options.status !== undefined && !ACTION_STATUSES.includes(options.status)) {
+      console.log(chalk.red(`Status must be one of: ${ACTION_STATUSES.join(', ')}`));
+      return;
+    }
+
+    let result;
+    try {
+      result = await updateActionPoint(
+        actionId,
+        {
+          description: options.description,
+          assignee: options.assignee,
+          dueDate: options.due,
+          priority: options.priority,
+          status: options.status,
+        },
+        options.by
+      );
+    } catch (error) {
+      console.log(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      return;
+    }
+
+    if (!result) {
+      console.log(chalk.red('Action point not found'));
+      return;
+    }
+
+    console.log(chalk.green('✓ Action point updated'));
+    console.log(`  ${result.description}`);
+    console.log(`  Status: ${result.status}  Priority: ${result.priority}`);
+    if (result.assignee) console.log(`  Assignee: ${result.assignee}`);
+    if (result.dueDate) console.log(`  Due: ${result.dueDate}`);
+    if (options.status === 'completed') await reportClosedEvent(result);
+  });
+
+program
+  .command('action:review')
+  .description('Accept, edit or reject low-confidence extracted action points')
+  .option('-p, --project <project>', 'Filter by project')
+  .action(async (options) => {
+    const items = listReviewItems(options.project);
+
+    if (items.length === 0) {
+      console.log(chalk.green('No action points waiting for review'));
+      return;
+    }
+
+    for (const [index, item] of items.entries()) {
+      const { action } = item;
+
+      console.log(chalk.bold(`\n[${index + 1}/${items.length}] ${action.description}`));
+      console.log(`  Project: ${item.project}  Note: ${item.noteId}`);
+      console.log(`  Confidence: ${Math.round(action.confidence * 100)}%  Priority: ${action.priority}`);
+      if (action.assignee) console.log(`  Assignee: ${action.assignee}`);
+      if (action.dueDatePhrase) console.log(`  Due: ${action.dueDate || 'unresolved'} ("${action.dueDatePhrase}")`);
+      if (action.sourceSpan) console.log(chalk.gray(`  Source: ${action.sourceSpan.text}`));
+
+      const { decision } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'decision',
+          message: 'Add this action point?',
+          choices: [
+            { name: 'Accept', value: 'accept' },
+            { name: 'Edit, then accept', value: 'edit' },
+            { name: 'Reject', value: 'reject' },
+            { name: 'Skip for now', value: 'skip' },
+            { name: 'Stop reviewing', value: 'stop' },
+          ],
+        },
+      ]);
+
+      if (decision === 'stop') break;
+      if (decision === 'skip') continue;
+
+      if (decision === 'reject') {
+        rejectReviewItem(item.id);
+        console.log(chalk.gray('  Rejected'));
+        continue;
+      }
+
+      const edits = decision === 'edit'
+        ? await inquirer.prompt([
+            { type: 'input', name: 'description', message: 'Description:', default: action.description },
+            { type: 'input', name: 'assignee', message: 'Assignee:', default: action.assignee || '' },
+            { type: 'input', name: 'dueDate', message: 'Due date:', default: action.dueDate || '' },
+            {
+              type: 'list',
+              name: 'priority',
+              message: 'Priority:',
+              choices: ['high', 'medium', 'low'],
+              default: action.priority,
+            },
+          ])
+        : {};
+
+      try {
+        const actionPoint = await acceptReviewItem(item.id, edits);
+        console.log(chalk.green(`  ✓ Added (ID: ${actionPoint?.id})`));
+      } catch (error) {
+        console.log(chalk.red(`  Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      }
+    }
+  });
+
 // ============ Calendar Commands ============
 
 program
@@ -220,11 +908,18 @@ program
   .description('Add an action point to calendar')
   .argument('[actionId]', 'Action point ID (interactive if omitted)')
   .option('-p, --project <project>', 'Filter by project')
-  .option('-t, --time <datetime>', 'Event start time (ISO format)')
+  .option('-t, --time <datetime>', 'Event start time (ISO format, with or without offset)')
   .option('-d, --duration <minutes>', 'Duration in minutes', '60')
-  .option('--provider <type>', 'Calendar: google, outlook')
+  .option('--tz <zone>', 'Timezone of the start time, e.g. America/New_York (defaults to the configured timezone)')
+  .option('--provider <type>', `Calendar: ${listCalendarProviders().join(', ')}`)
   .action(async (actionId, options) => {
-    const actions = getPendingActionPoints(options.project);
+    const timeZone = options.tz || getDefaultTimeZone();
+    if (!isValidTimeZone(timeZone)) {
+      console.log(chalk.red(`Unknown timezone "${timeZone}"`));
+      return;
+    }
+
+    const actions = await getPendingActionPoints(options.project);
 
     if (actions.length === 0) {
       console.log(chalk.yellow('No pending action points'));
@@ -260,75 +955,248 @@ program
         {
           type: 'input',
           name: 'time',
-          message: 'Start time (YYYY-MM-DDTHH:mm):',
-          default: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
+          message: `Start time (YYYY-MM-DDTHH:mm, ${timeZone}):`,
+          default: formatInTimeZone(new Date(), timeZone).substring(0, 16),
         },
       ]);
       startTime = time;
     }
 
-    const { provider } = options.provider
-      ? { provider: options.provider }
+    const person = selectedAction.assignee ? findPerson(selectedAction.assignee) : undefined;
+
+    // An action already on a calendar stays there unless told otherwise
+    const knownProvider = options.provider || person?.calendar || selectedAction.calendarEvent?.provider;
+    const { provider } = knownProvider
+      ? { provider: knownProvider }
       : await inquirer.prompt([
           {
             type: 'list',
             name: 'provider',
             message: 'Select calendar:',
-            choices: ['google', 'outlook'],
+            choices: listCalendarProviders(),
           },
         ]);
 
     try {
-      const endTime = format(
-        new Date(new Date(startTime).getTime() + parseInt(options.duration) * 60000),
-        "yyyy-MM-dd'T'HH:mm:ss"
-      );
+      const start = parseInTimeZone(startTime, timeZone);
+      const endTime = formatInTimeZone(new Date(start.getTime() + parseInt(options.duration) * 60000), timeZone);
 
-      const result = await createCalendarEvent(
-        {
-          title: `[Action] ${selectedAction.description.substring(0, 50)}`,
-          description: selectedAction.description,
-          startTime: startTime + ':00',
-          endTime,
-        },
+      const ref = await saveActionEvent(
+        selectedAction,
+        { startTime: formatInTimeZone(start, timeZone), endTime, timeZone },
         provider
       );
 
-      console.log(chalk.green('✓ Added to calendar'));
-      console.log(`  Link: ${result}`);
+      console.log(chalk.green(selectedAction.calendarEvent ? '✓ Calendar event moved' : '✓ Added to calendar'));
+      if (person?.email) console.log(`  Invited: ${person.email}`);
+      console.log(`  Link: ${ref.link || ref.eventId}`);
     } catch (error) {
       console.log(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
     }
   });
 
+program
+  .command('calendar:schedule')
+  .description('Put pending action points into free calendar time before their due dates')
+  .option('-p, --project <project>', 'Filter by project')
+  .option('-a, --assignee <name>', 'Only schedule actions for this person')
+  .option('-s, --start <date>', 'Schedule from this date or date-time (defaults to now)')
+  .option('-d, --duration <minutes>', 'Minutes per action', '30')
+  .option('--horizon <days>', 'Days to look ahead for actions without a due date', '14')
+  .option('--provider <type>', `Calendar: ${listCalendarProviders().join(', ')} (defaults to each assignee's calendar)`)
+  .option('--dry-run', 'Show the proposed slots without creating events')
+  .action(async (options) => {
+    let actions = await getPendingActionPoints(options.project);
+    if (options.assignee) {
+      actions = filterByAssignee(actions, options.assignee);
+    }
+
+    if (actions.length === 0) {
+      console.log(chalk.yellow('No pending action points'));
+      return;
+    }
+
+    let plan;
+    try {
+      plan = await scheduleActionPoints(actions, {
+        startDate: options.start || new Date().toISOString(),
+        slotDuration: parseInt(options.duration),
+        horizonDays: parseInt(options.horizon),
+        provider: options.provider,
+        dryRun: options.dryRun,
+      });
+    } catch (error) {
+      console.log(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      return;
+    }
+
+    const hours = getWorkingHours();
+    console.log(chalk.bold(`\n${options.dryRun ? 'Proposed schedule' : 'Scheduled'} (working hours ${hours.start}-${hours.end}, ${plan.busyEvents} busy events):\n`));
+
+    for (const item of plan.scheduled) {
+      const when = `${item.startTime.replace('T', ' ').slice(0, 16)}-${item.endTime.slice(11, 16)}`;
+      const due = item.actionPoint.dueDate ? chalk.gray(` (due ${item.actionPoint.dueDate})`) : '';
+      const line = `${when}  [${item.actionPoint.priority}] ${item.actionPoint.description.substring(0, 60)}${due}`;
+
+      if (item.error) {
+        console.log(chalk.red(`  ✗ ${line}: ${item.error}`));
+      } else {
+        console.log(`  ${options.dryRun ? '•' : chalk.green('✓')} ${line}`);
+      }
+    }
+
+    for (const item of plan.unscheduled) {
+      console.log(chalk.yellow(`  ! ${item.actionPoint.description.substring(0, 60)}: ${item.reason}`));
+    }
+    console.log('');
+  });
+
+program
+  .command('calendar:sync')
+  .description('Reconcile action points with their calendar events')
+  .option('-p, --project <project>', 'Only reconcile actions in this project')
+  .option('-c, --completed <mode>', 'Completed actions: mark (as done) or remove their events')
+  .option('--remove-orphans', 'Delete events this tool made for actions that no longer exist')
+  .option('--dry-run', 'Show what would change without touching the calendar or notes')
+  .action(async (options) => {
+    if (options.completed && !['mark', 'remove'].includes(options.completed)) {
+      console.log(chalk.red('Use --completed mark or --completed remove'));
+      return;
+    }
+
+    const result = await syncCalendar({
+      project: options.project,
+      completed: options.completed,
+      removeOrphans: options.removeOrphans,
+      dryRun: options.dryRun,
+    });
+
+    console.log(chalk.bold(`\nCalendar sync${options.dryRun ? ' (dry run, nothing changed)' : ''}:\n`));
+    console.log(`  Updated: ${result.updated.length}  Unchanged: ${result.unchanged}`);
+    console.log(`  Marked done: ${result.marked.length}  Removed: ${result.removed.length}`);
+    if (result.missing.length > 0) {
+      console.log(chalk.yellow(`  Deleted in the calendar, link dropped: ${result.missing.length}`));
+    }
+    if (result.relinked.length > 0) {
+      console.log(`  Relinked: ${result.relinked.length}`);
+    }
+    if (result.orphansRemoved > 0) {
+      console.log(`  Events of deleted or duplicate actions removed: ${result.orphansRemoved}`);
+    }
+    const keptOrphans = result.orphans.length - result.orphansRemoved;
+    if (keptOrphans > 0) {
+      console.log(chalk.yellow(`  Events of deleted or duplicate actions: ${keptOrphans}`));
+      result.orphans.forEach(o => console.log(chalk.gray(`    ${o.provider} ${o.eventId} (action ${o.actionPointId})`)));
+      if (!options.removeOrphans && !options.dryRun) {
+        console.log(chalk.gray('  Run again with --remove-orphans to delete them'));
+      }
+    }
+    result.errors.forEach(e => {
+      console.log(chalk.red(`  ✗ ${e.actionPointId || e.provider}: ${e.error}`));
+    });
+    console.log('');
+  });
+
 // ============ Email Commands ============
 
 program
   .command('email:actions')
   .description('Email action points')
-  .argument('<to>', 'Recipient email (comma-separated for multiple)')
+  .argument('[to]', 'Recipient emails or handles, comma-separated (defaults to everyone with open actions)')
   .option('-p, --project <project>', 'Filter by project')
+  .option('-a, --assignee <name>', 'Only include actions for this person')
+  .option('-b, --by-assignee', 'Send each assignee a personal email with only their actions')
   .option('-s, --subject <subject>', 'Email subject')
-  .option('-m, --method <type>', 'Method: draft, gmail, outlook', 'draft')
+  .option('-T, --template <name>', 'Email template (see email:templates)')
+  .option('--ics', 'Attach an .ics file with a calendar entry for each dated action')
+  .option('-m, --method <type>', 'Method: draft, gmail, outlook, smtp, eml (defaults to defaultEmailMethod)')
   .option('--send', 'Send immediately instead of creating draft')
   .action(async (to, options) => {
-    const actions = getPendingActionPoints(options.project);
+    const templateOptions = { template: options.template, project: options.project };
+
+    if (options.byAssignee) {
+      let result;
+      try {
+        result = generateAssigneeEmails(
+          await getPendingActionPointsWithNotes(options.project),
+          options.subject,
+          templateOptions
+        );
+      } catch (error) {
+        console.log(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        return;
+      }
+      const { emails, missingAddresses, unassigned } = result;
+
+      for (const email of emails) {
+        const ics = options.ics ? await icsAttachment(email.actionPoints) : undefined;
+        if (ics) {
+          email.draft.attachments = [ics];
+        }
+
+        try {
+          const result = options.send
+            ? await sendEmail(email.draft, options.method)
+            : await createEmailDraft(email.draft, options.method);
+          console.log(chalk.green(`✓ ${email.assignee} (${email.actionPoints.length}): ${result}`));
+        } catch (error) {
+          console.log(chalk.red(`✗ ${email.assignee}: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        }
+      }
+
+      if (emails.length === 0) {
+        console.log(chalk.yellow('No assignees with an email address'));
+      }
+      if (missingAddresses.length > 0) {
+        console.log(chalk.yellow(`  No email address for: ${missingAddresses.join(', ')} (add with people:add)`));
+      }
+      if (unassigned > 0) {
+        console.log(chalk.gray(`  ${unassigned} unassigned action points skipped`));
+      }
+      return;
+    }
+
+    let actions = await getPendingActionPoints(options.project);
+    if (options.assignee) {
+      actions = filterByAssignee(actions, options.assignee);
+    }
 
     if (actions.length === 0) {
       console.log(chalk.yellow('No pending action points'));
       return;
     }
 
-    const recipients = to.split(',').map((e: string) => e.trim());
-    const emailDraft = generateActionPointsEmail(actions, options.subject);
-    emailDraft.to = recipients;
+    const recipients = resolveRecipients(
+      to ? to.split(',').map((e: string) => e.trim()) : getAssigneesWithOpenActions(actions)
+    );
+    if (recipients.missing.length > 0) {
+      console.log(chalk.yellow(`  No email address for: ${recipients.missing.join(', ')}`));
+    }
+    if (recipients.emails.length === 0) {
+      console.log(chalk.red('No recipients with an email address. Add them with: highlight-workflow people:add'));
+      return;
+    }
+
+    let emailDraft;
+    try {
+      emailDraft = generateActionPointsEmail(actions, options.subject, templateOptions);
+    } catch (error) {
+      console.log(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      return;
+    }
+    emailDraft.to = recipients.emails;
+
+    const ics = options.ics ? await icsAttachment(actions) : undefined;
+    if (ics) {
+      emailDraft.attachments = [ics];
+    }
 
     try {
       if (options.send) {
         const result = await sendEmail(emailDraft, options.method);
         console.log(chalk.green(`✓ ${result}`));
       } else {
-        const result = await openEmailDraft(emailDraft);
+        const result = await createEmailDraft(emailDraft, options.method);
         console.log(chalk.green(`✓ ${result}`));
       }
     } catch (error) {
@@ -336,6 +1204,156 @@ program
     }
   });
 
+program
+  .command('email:summary')
+  .description('Email a meeting summary from a note')
+  .argument('<project>', 'Project name')
+  .argument('<noteId>', 'Note ID')
+  .argument('[to]', 'Recipient emails or handles, comma-separated (defaults to the meeting attendees)')
+  .option('-T, --template <name>', 'Email template (see email:templates)')
+  .option('--no-actions', 'Leave out the action points')
+  .option('--attach-note <format>', `Attach the note: ${NOTE_EXPORT_FORMATS.join(', ')}`)
+  .option('--ics', 'Attach an .ics file with a calendar entry for each dated action')
+  .option('-m, --method <type>', 'Method: draft, gmail, outlook, smtp, eml (defaults to defaultEmailMethod)')
+  .option('--send', 'Send immediately instead of creating draft')
+  .action(async (project, noteId, to, options) => {
+    const note = await getNote(project, noteId);
+    if (!note) {
+      console.log(chalk.red('Note not found'));
+      return;
+    }
+
+    if (options.attachNote && !NOTE_EXPORT_FORMATS.includes(options.attachNote)) {
+      console.log(chalk.red(`Unknown format "${options.attachNote}". Use one of: ${NOTE_EXPORT_FORMATS.join(', ')}`));
+      return;
+    }
+
+    const recipients = resolveRecipients(
+      to ? to.split(',').map((e: string) => e.trim()) : await getMeetingRecipients(note)
+    );
+    if (recipients.missing.length > 0) {
+      console.log(chalk.yellow(`  No email address for: ${recipients.missing.join(', ')}`));
+    }
+    if (recipients.emails.length === 0) {
+      console.log(chalk.red('No recipients with an email address'));
+      return;
+    }
+
+    try {
+      const emailDraft = generateMeetingSummaryEmail(note, {
+        includeActionPoints: options.actions,
+        template: options.template,
+      });
+      emailDraft.to = recipients.emails;
+
+      const ics = options.ics ? await icsAttachment(note.actionPoints, `${note.date}-actions.ics`) : undefined;
+      emailDraft.attachments = [
+        ...(options.attachNote ? [noteAttachment(note, options.attachNote as NoteExportFormat)] : []),
+        ...(ics ? [ics] : []),
+      ];
+
+      const result = options.send
+        ? await sendEmail(emailDraft, options.method)
+        : await createEmailDraft(emailDraft, options.method);
+      console.log(chalk.green(`✓ ${result}`));
+    } catch (error) {
+      console.log(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    }
+  });
+
+program
+  .command('email:templates')
+  .description('List email templates')
+  .action(() => {
+    const templates = listEmailTemplates();
+
+    console.log(chalk.bold('\nEmail templates:\n'));
+    templates.forEach(t => {
+      console.log(`  ${chalk.green(t.name)} - ${t.description}`);
+      if (t.subject) console.log(`    Subject: ${t.subject}`);
+    });
+    console.log('');
+  });
+
+program
+  .command('email:template-default')
+  .description('Set the email template a project uses by default')
+  .argument('<project>', 'Project name')
+  .argument('<purpose>', `What the template is for: ${EMAIL_TEMPLATE_PURPOSES.join(', ')}`)
+  .argument('[template]', 'Template name (omit to go back to the built-in default)')
+  .action((project, purpose, template) => {
+    if (!EMAIL_TEMPLATE_PURPOSES.includes(purpose)) {
+      console.log(chalk.red(`Unknown purpose "${purpose}". Use one of: ${EMAIL_TEMPLATE_PURPOSES.join(', ')}`));
+      return;
+    }
+
+    if (template && !getEmailTemplate(template)) {
+      console.log(chalk.red(`Email template "${template}" not found`));
+      return;
+    }
+
+    if (!setProjectEmailTemplate(project, purpose, template)) {
+      console.log(chalk.red(`Project "${project}" not found`));
+      return;
+    }
+
+    console.log(chalk.green(template
+      ? `✓ ${project} now uses "${template}" for ${purpose} emails`
+      : `✓ ${project} uses the built-in ${purpose} template again`));
+  });
+
+program
+  .command('digest')
+  .description('Show overdue and upcoming action points by assignee')
+  .option('-p, --project <project>', 'Filter by project')
+  .option('-d, --date <date>', 'Build the digest for this date (YYYY-MM-DD, defaults to today)')
+  .option('-f, --format <format>', 'Output: markdown, json, email', 'markdown')
+  .option('-t, --to <emails>', 'Recipients when emailing (comma-separated)')
+  .option('-m, --method <type>', 'Method: draft, gmail, outlook, smtp, eml (defaults to defaultEmailMethod)')
+  .option('--send', 'Send immediately instead of creating draft')
+  .action(async (options) => {
+    const digest = await buildActionDigest({ project: options.project, date: options.date });
+
+    if (options.format === 'json') {
+      console.log(JSON.stringify(digest, null, 2));
+      return;
+    }
+
+    if (options.format !== 'email') {
+      console.log(formatDigestMarkdown(digest));
+      printUnresolvedDates(digest.unresolvedDates);
+      return;
+    }
+
+    printUnresolvedDates(digest.unresolvedDates);
+    const emailDraft = generateDigestEmail(digest);
+    emailDraft.to = options.to ? options.to.split(',').map((e: string) => e.trim()) : [];
+
+    try {
+      const result = options.send
+        ? await sendEmail(emailDraft, options.method)
+        : await createEmailDraft(emailDraft, options.method);
+      console.log(chalk.green(`✓ ${result}`));
+    } catch (error) {
+      console.log(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    }
+  });
+
+// ============ Index Commands ============
+
+program
+  .command('index:rebuild')
+  .description('Rebuild the note ID index from the notes on disk')
+  .action(async () => {
+    const results = await rebuildNoteIndex();
+    const total = results.reduce((sum, r) => sum + r.notes, 0);
+
+    console.log(chalk.green(`✓ Indexed ${total} notes`));
+    results.forEach(r => {
+      console.log(`  ${r.project}: ${r.notes}`);
+    });
+  });
+
 // ============ Config Commands ============
 
 program
@@ -407,6 +1425,110 @@ program
     console.log(chalk.green('✓ Microsoft credentials saved'));
   });
 
+program
+  .command('config:caldav')
+  .description('Configure a CalDAV calendar (Nextcloud, Fastmail, Radicale, ...)')
+  .action(async () => {
+    const answers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'url',
+        message: 'Calendar collection URL (e.g. https://cloud.example.com/remote.php/dav/calendars/sam/personal/):',
+      },
+      { type: 'input', name: 'username', message: 'Username (leave empty for no auth):' },
+      { type: 'password', name: 'password', message: 'Password or app password:', when: (a) => !!a.username },
+    ]);
+
+    const config = loadConfig();
+    config.caldav = {
+      url: answers.url,
+      ...(answers.username ? { username: answers.username, password: answers.password } : {}),
+    };
+    saveConfig(config);
+
+    console.log(chalk.green('✓ CalDAV settings saved'));
+    console.log(chalk.gray('  Make it the default with: highlight-workflow config:set defaultCalendar caldav'));
+  });
+
+program
+  .command('config:working-hours')
+  .description('Set the hours and days action points may be scheduled in')
+  .argument('<start>', 'Start time (HH:mm)')
+  .argument('<end>', 'End time (HH:mm)')
+  .option('--days <days>', 'Working days, e.g. mon,tue,wed,thu,fri')
+  .action((start, end, options) => {
+    const dayNames = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+    if (!/^\d{1,2}:\d{2}$/.test(start) || !/^\d{1,2}:\d{2}$/.test(end) || start.padStart(5, '0') >= end.padStart(5, '0')) {
+      console.log(chalk.red('Use HH:mm times with the start before the end, e.g. 09:00 17:30'));
+      return;
+    }
+
+    const days = options.days
+      ? options.days.split(',').map((d: string) => dayNames.indexOf(d.trim().toLowerCase().substring(0, 3)))
+      : undefined;
+    if (days?.includes(-1)) {
+      console.log(chalk.red(`Unknown day in "${options.days}". Use: ${dayNames.join(', ')}`));
+      return;
+    }
+
+    const config = loadConfig();
+    config.workingHours = { ...config.workingHours, start, end, ...(days ? { days } : {}) };
+    saveConfig(config);
+
+    const hours = getWorkingHours();
+    console.log(chalk.green(`✓ Working hours: ${hours.start}-${hours.end} on ${hours.days.map(d => dayNames[d]).join(', ')}`));
+  });
+
+program
+  .command('config:timezone')
+  .description('Set the timezone for calendar times without an offset and for listed events')
+  .argument('[zone]', 'IANA timezone, e.g. Europe/Amsterdam (omit to show the current one)')
+  .action((zone) => {
+    if (!zone) {
+      console.log(`Timezone: ${getDefaultTimeZone()}${loadConfig().timezone ? '' : chalk.gray(' (from this machine)')}`);
+      return;
+    }
+
+    if (!isValidTimeZone(zone)) {
+      console.log(chalk.red(`Unknown timezone "${zone}". Use an IANA name such as Europe/Amsterdam`));
+      return;
+    }
+
+    const config = loadConfig();
+    config.timezone = zone;
+    saveConfig(config);
+
+    console.log(chalk.green(`✓ Timezone set to ${zone}`));
+  });
+
+program
+  .command('config:smtp')
+  .description('Configure an SMTP relay for sending email')
+  .action(async () => {
+    const answers = await inquirer.prompt([
+      { type: 'input', name: 'host', message: 'SMTP host:' },
+      { type: 'number', name: 'port', message: 'Port:', default: 587 },
+      { type: 'confirm', name: 'secure', message: 'Use implicit TLS (port 465)?', default: false },
+      { type: 'input', name: 'user', message: 'Username (leave empty for no auth):' },
+      { type: 'password', name: 'password', message: 'Password:', when: (a) => !!a.user },
+      { type: 'input', name: 'from', message: 'From address (e.g. "Sam <sam@company.com>"):' },
+    ]);
+
+    const config = loadConfig();
+    config.smtp = {
+      host: answers.host,
+      port: answers.port,
+      ...(answers.secure ? { secure: true } : {}),
+      ...(answers.user ? { user: answers.user, password: answers.password } : {}),
+      from: answers.from,
+    };
+    saveConfig(config);
+
+    console.log(chalk.green('✓ SMTP settings saved'));
+    console.log(chalk.gray('  Make it the default with: highlight-workflow config:set defaultEmailMethod smtp'));
+  });
+
 // ============ Note Linking Commands ============
 
 program
@@ -416,8 +1538,8 @@ program
   .argument('<noteId>', 'Note ID')
   .option('-l, --limit <number>', 'Maximum results', '5')
   .option('-s, --score <number>', 'Minimum relevance score', '15')
-  .action((project, noteId, options) => {
-    const related = findRelatedNotes(
+  .action(async (project, noteId, options) => {
+    const related = await findRelatedNotes(
       project,
       noteId,
       parseInt(options.limit),
@@ -445,8 +1567,8 @@ program
   .argument('<sourceNoteId>', 'Source note ID')
   .argument('<targetProject>', 'Target project')
   .argument('<targetNoteId>', 'Target note ID')
-  .action((sourceProject, sourceNoteId, targetProject, targetNoteId) => {
-    const result = linkNotes(sourceProject, sourceNoteId, targetProject, targetNoteId);
+  .action(async (sourceProject, sourceNoteId, targetProject, targetNoteId) => {
+    const result = await linkNotes(sourceProject, sourceNoteId, targetProject, targetNoteId);
 
     if (result.success) {
       console.log(chalk.green(`✓ ${result.message}`));
@@ -460,8 +1582,8 @@ program
   .description('List linked notes')
   .argument('<project>', 'Project name')
   .argument('<noteId>', 'Note ID')
-  .action((project, noteId) => {
-    const links = getLinkedNotes(project, noteId);
+  .action(async (project, noteId) => {
+    const links = await getLinkedNotes(project, noteId);
 
     if (links.length === 0) {
       console.log(chalk.yellow('No linked notes'));
@@ -486,8 +1608,8 @@ program
   .argument('<noteId>', 'Note ID')
   .option('-l, --limit <number>', 'Maximum links to create', '3')
   .option('-s, --score <number>', 'Minimum relevance score', '20')
-  .action((project, noteId, options) => {
-    const newLinks = autoLinkRelatedNotes(
+  .action(async (project, noteId, options) => {
+    const newLinks = await autoLinkRelatedNotes(
       project,
       noteId,
       parseInt(options.limit),
@@ -510,8 +1632,8 @@ program
   .description('Update note with Obsidian [[wikilinks]]')
   .argument('<project>', 'Project name')
   .argument('<noteId>', 'Note ID')
-  .action((project, noteId) => {
-    const note = updateNoteWithObsidianLinks(project, noteId);
+  .action(async (project, noteId) => {
+    const note = await updateNoteWithObsidianLinks(project, noteId);
 
     if (!note) {
       console.log(chalk.red('Note not found'));
@@ -33,6 +33,21 @@ const allTools = {
     schema: noteToolSchemas.add_note,
     handler: noteToolHandlers.add_note,
   },
+  import_transcript: {
+    description: 'Import a meeting transcript (VTT, SRT, Zoom, Teams or speaker log) as a note with speakers and timestamps',
+    schema: noteToolSchemas.import_transcript,
+    handler: noteToolHandlers.import_transcript,
+  },
+  create_note_from_event: {
+    description: 'Start a note from a calendar meeting with its title, date, attendees, location and agenda filled in',
+    schema: noteToolSchemas.create_note_from_event,
+    handler: noteToolHandlers.create_note_from_event,
+  },
+  list_templates: {
+    description: 'List the note templates available to add_note (standup, retro, 1:1, ...)',
+    schema: noteToolSchemas.list_templates,
+    handler: noteToolHandlers.list_templates,
+  },
   get_note: {
     description: 'Retrieve a specific note by ID',
     schema: noteToolSchemas.get_note,
@@ -43,21 +58,66 @@ const allTools = {
     schema: noteToolSchemas.list_notes,
     handler: noteToolHandlers.list_notes,
   },
+  update_note: {
+    description: 'Edit the title, content or tags of a note',
+    schema: noteToolSchemas.update_note,
+    handler: noteToolHandlers.update_note,
+  },
+  delete_note: {
+    description: 'Delete a note and remove links to it from other notes',
+    schema: noteToolSchemas.delete_note,
+    handler: noteToolHandlers.delete_note,
+  },
+  archive_note: {
+    description: 'Archive a note so it no longer shows up in lists and searches',
+    schema: noteToolSchemas.archive_note,
+    handler: noteToolHandlers.archive_note,
+  },
+  move_note: {
+    description: 'Move a note to another project, optionally renaming it',
+    schema: noteToolSchemas.move_note,
+    handler: noteToolHandlers.move_note,
+  },
+  search_notes: {
+    description: 'Search notes by text with filters for tags, dates, project, assignee and open action points',
+    schema: noteToolSchemas.search_notes,
+    handler: noteToolHandlers.search_notes,
+  },
   add_action_point: {
     description: 'Add an action point to an existing note',
     schema: noteToolSchemas.add_action_point,
     handler: noteToolHandlers.add_action_point,
   },
+  update_action_point: {
+    description: 'Update the status, assignee, priority, due date or description of an action point',
+    schema: noteToolSchemas.update_action_point,
+    handler: noteToolHandlers.update_action_point,
+  },
   list_action_points: {
     description: 'List action points across projects',
     schema: noteToolSchemas.list_action_points,
     handler: noteToolHandlers.list_action_points,
   },
+  review_extracted_actions: {
+    description: 'List low-confidence extracted action points waiting for review, or accept (optionally edited) or reject one',
+    schema: noteToolSchemas.review_extracted_actions,
+    handler: noteToolHandlers.review_extracted_actions,
+  },
+  get_action_digest: {
+    description: 'Summarise pending action points as overdue, due today, due this week and undated, by assignee',
+    schema: noteToolSchemas.get_action_digest,
+    handler: noteToolHandlers.get_action_digest,
+  },
   extract_action_points: {
     description: 'Extract action points from text content using AI patterns',
     schema: noteToolSchemas.extract_action_points,
     handler: noteToolHandlers.extract_action_points,
   },
+  start_series_note: {
+    description: 'Create the next note in a recurring meeting series, carrying over open action points',
+    schema: noteToolSchemas.start_series_note,
+    handler: noteToolHandlers.start_series_note,
+  },
   add_project: {
     description: 'Add a new project for organizing notes',
     schema: noteToolSchemas.add_project,
@@ -68,6 +128,16 @@ const allTools = {
     schema: noteToolSchemas.list_projects,
     handler: noteToolHandlers.list_projects,
   },
+  add_person: {
+    description: 'Add or update a person in the team directory (handle, aliases, name, email, preferred calendar)',
+    schema: noteToolSchemas.add_person,
+    handler: noteToolHandlers.add_person,
+  },
+  list_people: {
+    description: 'List the team directory used to match assignees to email addresses and calendars',
+    schema: noteToolSchemas.list_people,
+    handler: noteToolHandlers.list_people,
+  },
 
   // Calendar tools
   create_calendar_event: {
@@ -86,10 +156,15 @@ const allTools = {
     handler: calendarToolHandlers.add_action_to_calendar,
   },
   schedule_action_points: {
-    description: 'Bulk schedule all pending action points to calendar',
+    description: 'Schedule pending action points into free calendar time before their due dates, moving events made earlier',
     schema: calendarToolSchemas.schedule_action_points,
     handler: calendarToolHandlers.schedule_action_points,
   },
+  sync_calendar: {
+    description: 'Reconcile action point calendar events: update changed ones, mark or remove completed ones, report (or with removeOrphans delete) events of deleted actions',
+    schema: calendarToolSchemas.sync_calendar,
+    handler: calendarToolHandlers.sync_calendar,
+  },
 
   // Email tools
   compose_email: {
@@ -102,6 +177,16 @@ const allTools = {
     schema: emailToolSchemas.email_action_points,
     handler: emailToolHandlers.email_action_points,
   },
+  email_action_points_by_assignee: {
+    description: 'Email each assignee a personal list of their pending action points, with source notes and due dates',
+    schema: emailToolSchemas.email_action_points_by_assignee,
+    handler: emailToolHandlers.email_action_points_by_assignee,
+  },
+  list_email_templates: {
+    description: 'List email templates usable by compose_email, email_action_points and email_meeting_summary',
+    schema: emailToolSchemas.list_email_templates,
+    handler: emailToolHandlers.list_email_templates,
+  },
   email_meeting_summary: {
     description: 'Email a meeting summary with action points',
     schema: emailToolSchemas.email_meeting_summary,
@@ -1,122 +1,177 @@
-import type { ActionPoint } from '../types.js';
+import { loadConfig } from '../utils/config.js';
+import { createRegexExtractor, extractWithPatterns } from './extractors/regexExtractor.js';
+import { createLlmExtractor } from './extractors/llmExtractor.js';
+import { detectLanguage } from './languages/index.js';
+import { normaliseAssignee } from './people.js';
+import type { ActionPoint, ExtractorConfig } from '../types.js';
 
 export interface ExtractedAction {
   description: string;
   assignee?: string;
+  // ISO date resolved from dueDatePhrase
   dueDate?: string;
+  dueDatePhrase?: string;
+  // Why dueDatePhrase could not be resolved
+  dueDateIssue?: string;
   priority: 'low' | 'medium' | 'high';
+  // 0-1; actions below the review threshold are queued instead of added
+  confidence: number;
+  // Where in the scanned text the action was found
+  sourceSpan?: SourceSpan;
 }
 
-const ACTION_PATTERNS = [
-  // Direct action items: "Action: ...", "TODO: ...", "Task: ..."
-  /(?:action|todo|task|to-do):\s*(.+?)(?:\n|$)/gi,
-  // Bullet points with action verbs
-  /[-*]\s+((?:need to|should|must|will|going to|have to)\s+.+?)(?:\n|$)/gi,
-  // "@person will..." or "@person to..."
-  /@(\w+)\s+(?:will|to|should)\s+(.+?)(?:\n|$)/gi,
-  // "Follow up on...", "Schedule...", "Send...", etc.
-  /[-*]\s+((?:follow up|schedule|send|review|prepare|create|update|check|confirm|contact|call|email|meet with|discuss)\s+.+?)(?:\n|$)/gi,
-  // Deadline patterns: "by Friday", "before next week"
-  /[-*]\s+(.+?)\s+(?:by|before|until|due)\s+(\w+(?:\s+\w+)?)/gi,
-];
-
-const PRIORITY_KEYWORDS = {
-  high: ['urgent', 'asap', 'immediately', 'critical', 'priority', 'important', 'today'],
-  medium: ['soon', 'this week', 'next few days'],
-  low: ['eventually', 'when possible', 'low priority', 'nice to have'],
-};
-
-const ASSIGNEE_PATTERNS = [
-  /@(\w+)/,
-  /assigned to (\w+)/i,
-  /(\w+) will/,
-  /(\w+) to follow up/i,
-  /(\w+) is responsible/i,
-];
-
-const DATE_PATTERNS = [
-  /by (\w+ \d+)/i,
-  /before (\w+ \d+)/i,
-  /due (\w+ \d+)/i,
-  /deadline:?\s*(\w+ \d+)/i,
-  /(today|tomorrow|monday|tuesday|wednesday|thursday|friday|saturday|sunday)/i,
-  /(next week|this week|end of week)/i,
-];
-
-function detectPriority(text: string): 'low' | 'medium' | 'high' {
-  const lowerText = text.toLowerCase();
-
-  for (const keyword of PRIORITY_KEYWORDS.high) {
-    if (lowerText.includes(keyword)) return 'high';
-  }
+export interface SourceSpan {
+  start: number;
+  end: number;
+  text: string;
+}
 
-  for (const keyword of PRIORITY_KEYWORDS.medium) {
-    if (lowerText.includes(keyword)) return 'medium';
-  }
+export interface ExtractOptions {
+  // Only scan the markdown sections under these headings
+  sections?: string[];
+  // Date relative due dates are resolved against, usually the note's date
+  referenceDate?: string;
+  // Language pack code such as "nl"; detected from the content when omitted
+  language?: string;
+}
+
+// A strategy for finding action points in note text
+export interface ActionExtractor {
+  name: string;
+  // Content arrives with the section filter already applied
+  extract(content: string, options: ExtractOptions): Promise<ExtractedAction[]>;
+}
 
-  for (const keyword of PRIORITY_KEYWORDS.low) {
-    if (lowerText.includes(keyword)) return 'low';
+export type ActionExtractorFactory = (config: ExtractorConfig) => ActionExtractor;
+
+const extractorFactories = new Map<string, ActionExtractorFactory>([
+  ['regex', createRegexExtractor],
+  ['llm', createLlmExtractor],
+]);
+
+export function registerActionExtractor(strategy: string, factory: ActionExtractorFactory): void {
+  extractorFactories.set(strategy, factory);
+}
+
+export function getActionExtractor(config: ExtractorConfig = loadConfig().extractor || {}): ActionExtractor {
+  const strategy = config.strategy || 'regex';
+  const factory = extractorFactories.get(strategy);
+  if (!factory) {
+    throw new Error(`No action extractor registered for strategy "${strategy}"`);
   }
+  return factory(config);
+}
 
-  return 'medium';
+interface SectionText {
+  text: string;
+  // Where each kept line starts in the full content
+  lineStarts: number[];
 }
 
-function extractAssignee(text: string): string | undefined {
-  for (const pattern of ASSIGNEE_PATTERNS) {
-    const match = text.match(pattern);
-    if (match && match[1]) {
-      return match[1];
+function selectSections(content: string, sections: string[]): SectionText {
+  const wanted = new Set(sections.map(s => s.trim().toLowerCase()));
+  const kept: string[] = [];
+  const lineStarts: number[] = [];
+  let activeLevel: number | null = null;
+  let offset = 0;
+
+  for (const line of content.split('\n')) {
+    const lineStart = offset;
+    offset += line.length + 1;
+    const heading = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+
+    if (heading) {
+      const level = heading[1].length;
+      if (activeLevel !== null && level <= activeLevel) {
+        activeLevel = null;
+      }
+      if (activeLevel === null && wanted.has(heading[2].toLowerCase())) {
+        activeLevel = level;
+        continue;
+      }
+    }
+
+    if (activeLevel !== null) {
+      kept.push(line);
+      lineStarts.push(lineStart);
     }
   }
-  return undefined;
+
+  return { text: kept.join('\n'), lineStarts };
+}
+
+// Keep the lines under matching headings, including their subsections
+export function filterSections(content: string, sections: string[]): string {
+  return selectSections(content, sections).text;
 }
 
-function extractDueDate(text: string): string | undefined {
-  for (const pattern of DATE_PATTERNS) {
-    const match = text.match(pattern);
-    if (match && match[1]) {
-      return match[1];
+// Move an offset in the section text back onto the full content
+function toContentOffset(offset: number, selected: SectionText): number {
+  const lines = selected.text.split('\n');
+  let lineStart = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (offset <= lineStart + lines[i].length) {
+      return selected.lineStarts[i] + offset - lineStart;
     }
+    lineStart += lines[i].length + 1;
   }
-  return undefined;
-}
 
-function cleanDescription(text: string): string {
-  return text
-    .replace(/@\w+/g, '')
-    .replace(/\s+/g, ' ')
-    .trim();
+  return offset;
 }
 
-export function extractActionPoints(content: string): ExtractedAction[] {
-  const actions: ExtractedAction[] = [];
-  const seen = new Set<string>();
+// Run the configured strategy, falling back to the regex patterns if it fails
+export async function extractActionPoints(content: string, options: ExtractOptions = {}): Promise<ExtractedAction[]> {
+  const selected = options.sections?.length ? selectSections(content, options.sections) : undefined;
+  if (selected) {
+    content = selected.text;
+  }
 
-  for (const pattern of ACTION_PATTERNS) {
-    let match;
-    const regex = new RegExp(pattern.source, pattern.flags);
+  const strategyOptions = {
+    referenceDate: options.referenceDate,
+    language: options.language || detectLanguage(content),
+  };
 
-    while ((match = regex.exec(content)) !== null) {
-      const rawText = match[1] || match[2] || match[0];
-      const description = cleanDescription(rawText);
+  let actions: ExtractedAction[];
+  try {
+    actions = await getActionExtractor().extract(content, strategyOptions);
+  } catch (error) {
+    // stderr, so the MCP transport on stdout is left alone
+    console.error(`Action extraction failed, using regex fallback: ${error instanceof Error ? error.message : error}`);
+    actions = extractWithPatterns(content, strategyOptions);
+  }
 
-      // Skip duplicates and very short items
-      if (seen.has(description.toLowerCase()) || description.length < 10) {
-        continue;
-      }
+  // "@sarah", "Sarah" and "sarah.j" all become the directory handle
+  const people = loadConfig().people || [];
+  return actions.map(action => ({
+    ...action,
+    ...(action.assignee ? { assignee: normaliseAssignee(action.assignee, people) } : {}),
+    // Spans point into the note as stored, not into the section text the extractor saw
+    ...(action.sourceSpan && selected
+      ? {
+          sourceSpan: {
+            ...action.sourceSpan,
+            start: toContentOffset(action.sourceSpan.start, selected),
+            end: toContentOffset(action.sourceSpan.end, selected),
+          },
+        }
+      : {}),
+  }));
+}
 
-      seen.add(description.toLowerCase());
+export function formatActionPointLine(ap: ActionPoint): string {
+  const checkbox = ap.status === 'completed' ? '[x]' : '[ ]';
+  let line = `- ${checkbox} ${ap.description}`;
 
-      actions.push({
-        description,
-        assignee: extractAssignee(rawText),
-        dueDate: extractDueDate(rawText),
-        priority: detectPriority(rawText),
-      });
-    }
+  if (ap.assignee) {
+    line += ` (@${ap.assignee})`;
+  }
+
+  if (ap.dueDate) {
+    line += ` - Due: ${ap.dueDate}`;
   }
 
-  return actions;
+  return line;
 }
 
 export function formatActionPointsMarkdown(actionPoints: ActionPoint[]): string {
@@ -139,18 +194,7 @@ export function formatActionPointsMarkdown(actionPoints: ActionPoint[]): string
     lines.push('');
 
     for (const ap of items) {
-      const checkbox = ap.status === 'completed' ? '[x]' : '[ ]';
-      let line = `- ${checkbox} ${ap.description}`;
-
-      if (ap.assignee) {
-        line += ` (@${ap.assignee})`;
-      }
-
-      if (ap.dueDate) {
-        line += ` - Due: ${ap.dueDate}`;
-      }
-
-      lines.push(line);
+      lines.push(formatActionPointLine(ap));
     }
 
     lines.push('');
@@ -159,16 +203,41 @@ export function formatActionPointsMarkdown(actionPoints: ActionPoint[]): string
   return lines.join('\n');
 }
 
-export function actionPointsToCalendarEvents(actionPoints: ActionPoint[]): Array<{
+// The "Action ID" line lets calendar sync match events back to their action point
+const ACTION_ID_PATTERN = /Action ID: ([a-z0-9]+)/i;
+
+export function actionPointToCalendarEvent(actionPoint: ActionPoint): {
   title: string;
   description: string;
   dueDate?: string;
-}> {
+  assignee?: string;
+} {
+  const prefix = actionPoint.status === 'completed' ? '[Done]' : '[Action]';
+  const description = actionPoint.description;
+
+  return {
+    title: `${prefix} ${description.substring(0, 50)}${description.length > 50 ? '...' : ''}`,
+    description: [
+      `Priority: ${actionPoint.priority}`,
+      `Assignee: ${actionPoint.assignee || 'Unassigned'}`,
+      '',
+      description,
+      '',
+      `Action ID: ${actionPoint.id}`,
+    ].join('\n'),
+    dueDate: actionPoint.dueDate,
+    ...(actionPoint.assignee ? { assignee: actionPoint.assignee } : {}),
+  };
+}
+
+export function getActionIdFromEvent(description?: string): string | undefined {
+  return description?.match(ACTION_ID_PATTERN)?.[1];
+}
+
+export function actionPointsToCalendarEvents(actionPoints: ActionPoint[]): ReturnType<typeof actionPointToCalendarEvent>[] {
+  // Earliest due date first; undated actions go last
   return actionPoints
     .filter(ap => ap.status !== 'completed')
-    .map(ap => ({
-      title: `[Action] ${ap.description.substring(0, 50)}${ap.description.length > 50 ? '...' : ''}`,
-      description: `Priority: ${ap.priority}\nAssignee: ${ap.assignee || 'Unassigned'}\n\n${ap.description}`,
-      dueDate: ap.dueDate,
-    }));
+    .sort((a, b) => (a.dueDate || '\uffff').localeCompare(b.dueDate || '\uffff'))
+    .map(actionPointToCalendarEvent);
 }
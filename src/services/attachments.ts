@@ -0,0 +1,125 @@
+import { readFileSync, existsSync, realpathSync } from 'fs';
+import { basename, extname, resolve, sep } from 'path';
+import matter from 'gray-matter';
+import { formatActionPointLine } from './actionExtractor.js';
+import { actionPointsToIcs, hasIcsEntries } from './ics.js';
+import { resolveLegacyDueDates } from './notes.js';
+import { loadConfig } from '../utils/config.js';
+import { markdownToHtmlDocument } from '../utils/markdown.js';
+import type { ActionPoint, EmailAttachment, Note } from '../types.js';
+
+export type NoteExportFormat = 'md' | 'html';
+
+export const NOTE_EXPORT_FORMATS: NoteExportFormat[] = ['md', 'html'];
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.md': 'text/markdown',
+  '.txt': 'text/plain',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.ics': 'text/calendar',
+  '.pdf': 'application/pdf',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+function contentTypeFor(filename: string): string {
+  return CONTENT_TYPES[extname(filename).toLowerCase()] || 'application/octet-stream';
+}
+
+function noteFilename(note: Note, extension: string): string {
+  const slug = note.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 50);
+  return `${note.date}-${slug || note.id}.${extension}`;
+}
+
+// The note body with its action points written out as checkboxes
+function noteBody(note: Note): string {
+  const actions = note.actionPoints.length > 0
+    ? `\n\n## Action Points\n\n${note.actionPoints.map(formatActionPointLine).join('\n')}`
+    : '';
+  return `${note.content.trim()}${actions}\n`;
+}
+
+export function fileAttachment(filepath: string): EmailAttachment {
+  if (!existsSync(filepath)) {
+    throw new Error(`Attachment not found: ${filepath}`);
+  }
+
+  return {
+    filename: basename(filepath),
+    contentType: contentTypeFor(filepath),
+    content: readFileSync(filepath),
+  };
+}
+
+// Files in the notes folders only, so an MCP client cannot mail out anything else on the machine (SSH keys, config)
+export function noteFolderAttachment(filepath: string): EmailAttachment {
+  if (!existsSync(filepath)) {
+    throw new Error(`Attachment not found: ${filepath}`);
+  }
+
+  const config = loadConfig();
+  const folders = [config.storageBasePath, config.obsidianVaultPath]
+    .flatMap(folder => (folder && existsSync(folder) ? [realpathSync(folder)] : []));
+  // Symlinks are followed first, so a link in the vault cannot point outside it
+  const target = realpathSync(resolve(filepath));
+
+  if (!folders.some(folder => target.startsWith(folder + sep))) {
+    throw new Error(`Only files in the notes folders can be attached: ${filepath}`);
+  }
+
+  return { ...fileAttachment(target), filename: basename(filepath) };
+}
+
+// Export a note as markdown (with frontmatter) or a standalone HTML page
+export function noteAttachment(note: Note, exportFormat: NoteExportFormat = 'md'): EmailAttachment {
+  if (exportFormat === 'html') {
+    const meta = [`**Date:** ${note.date}`, `**Project:** ${note.project}`];
+    if (note.attendees?.length) meta.push(`**Attendees:** ${note.attendees.join(', ')}`);
+
+    return {
+      filename: noteFilename(note, 'html'),
+      contentType: 'text/html',
+      content: markdownToHtmlDocument(`# ${note.title}\n\n${meta.join('\n')}\n\n${noteBody(note)}`),
+    };
+  }
+
+  const frontmatter = {
+    title: note.title,
+    date: note.date,
+    project: note.project,
+    ...(note.tags.length ? { tags: note.tags } : {}),
+    ...(note.attendees?.length ? { attendees: note.attendees } : {}),
+  };
+
+  return {
+    filename: noteFilename(note, 'md'),
+    contentType: 'text/markdown',
+    content: matter.stringify(noteBody(note), frontmatter),
+  };
+}
+
+// Calendar entries for each dated action, importable into any calendar app
+export async function icsAttachment(
+  actionPoints: ActionPoint[],
+  filename = 'action-points.ics'
+): Promise<EmailAttachment | undefined> {
+  const resolved = await resolveLegacyDueDates(actionPoints);
+  if (!hasIcsEntries(resolved)) {
+    return undefined;
+  }
+
+  return {
+    filename,
+    contentType: 'text/calendar',
+    content: actionPointsToIcs(resolved),
+  };
+}
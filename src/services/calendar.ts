@@ -1,186 +1,135 @@
-import { google, calendar_v3 } from 'googleapis';
-import { Client } from '@microsoft/microsoft-graph-client';
 import { loadConfig } from '../utils/config.js';
-import type { CalendarEvent } from '../types.js';
-
-// Google Calendar Service
-export async function createGoogleCalendarEvent(event: CalendarEvent): Promise<string> {
-  const config = loadConfig();
-
-  if (!config.google) {
-    throw new Error('Google credentials not configured. Run: highlight-workflow config google');
-  }
-
-  const oauth2Client = new google.auth.OAuth2(
-    config.google.clientId,
-    config.google.clientSecret
-  );
-
-  oauth2Client.setCredentials({
-    refresh_token: config.google.refreshToken,
-  });
-
-  const calendar = google.calendar({ version: 'v3', auth: oauth2Client });
-
-  const calendarEvent: calendar_v3.Schema$Event = {
-    summary: event.title,
-    description: event.description,
-    start: {
-      dateTime: event.startTime,
-      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-    },
-    end: {
-      dateTime: event.endTime,
-      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-    },
-    attendees: event.attendees?.map(email => ({ email })),
-    location: event.location,
-  };
+import { getDefaultTimeZone, parseInTimeZone, requireTimeZone, toTimeZone } from '../utils/timezone.js';
+import { googleCalendar } from './calendars/googleCalendar.js';
+import { outlookCalendar } from './calendars/outlookCalendar.js';
+import { caldavCalendar } from './calendars/caldavCalendar.js';
+import { icsCalendar } from './calendars/icsCalendar.js';
+import type { CalendarEvent, CalendarEventRef } from '../types.js';
+
+// A calendar backend; event IDs are whatever the provider uses to find an event again
+export interface CalendarProvider {
+  name: string;
+  // Update the event when it still exists, otherwise create a new one.
+  // Timed events arrive with offsets and the timeZone they were given in.
+  save(event: Partial<CalendarEvent>, eventId?: string): Promise<CalendarEventRef>;
+  // Undefined when the event was deleted or cancelled
+  get(eventId: string): Promise<CalendarEvent | undefined>;
+  // Deleting an event that is already gone is not an error
+  delete(eventId: string): Promise<void>;
+  // The range is in UTC; times coming back without an offset should set timeZone
+  list(startDate: string, endDate: string): Promise<CalendarEvent[]>;
+}
 
-  const response = await calendar.events.insert({
-    calendarId: 'primary',
-    requestBody: calendarEvent,
-  });
+const calendarProviders = new Map<string, CalendarProvider>([
+  [googleCalendar.name, googleCalendar],
+  [outlookCalendar.name, outlookCalendar],
+  [caldavCalendar.name, caldavCalendar],
+  [icsCalendar.name, icsCalendar],
+]);
 
-  return response.data.htmlLink || response.data.id || 'Event created';
+export function registerCalendarProvider(provider: CalendarProvider): void {
+  calendarProviders.set(provider.name, provider);
 }
 
-export async function listGoogleCalendarEvents(
-  startDate: string,
-  endDate: string
-): Promise<CalendarEvent[]> {
-  const config = loadConfig();
+export function listCalendarProviders(): string[] {
+  return [...calendarProviders.keys()];
+}
 
-  if (!config.google) {
-    throw new Error('Google credentials not configured');
+export function getCalendarProvider(name: string = loadConfig().defaultCalendar): CalendarProvider {
+  const provider = calendarProviders.get(name);
+  if (!provider) {
+    throw new Error(`No calendar provider registered for "${name}". Use one of: ${listCalendarProviders().join(', ')}`);
   }
-
-  const oauth2Client = new google.auth.OAuth2(
-    config.google.clientId,
-    config.google.clientSecret
-  );
-
-  oauth2Client.setCredentials({
-    refresh_token: config.google.refreshToken,
-  });
-
-  const calendar = google.calendar({ version: 'v3', auth: oauth2Client });
-
-  const response = await calendar.events.list({
-    calendarId: 'primary',
-    timeMin: startDate,
-    timeMax: endDate,
-    singleEvents: true,
-    orderBy: 'startTime',
-  });
-
-  return (response.data.items || []).map(event => ({
-    title: event.summary || 'Untitled',
-    description: event.description || undefined,
-    startTime: event.start?.dateTime || event.start?.date || '',
-    endTime: event.end?.dateTime || event.end?.date || '',
-    attendees: event.attendees?.map(a => a.email || '').filter(Boolean),
-    location: event.location || undefined,
-  }));
+  return provider;
 }
 
-// Microsoft Outlook Calendar Service
-function getMicrosoftClient(): Client {
-  const config = loadConfig();
+// Google and Graph errors carry the HTTP status under different names
+export function isNotFound(error: unknown): boolean {
+  const { code, status, statusCode } = (error || {}) as { code?: number | string; status?: number; statusCode?: number };
+  return [404, 410].includes(Number(status ?? statusCode ?? code));
+}
 
-  if (!config.microsoft) {
-    throw new Error('Microsoft credentials not configured. Run: highlight-workflow config microsoft');
+export function requireTimes(event: Partial<CalendarEvent>): void {
+  if (!event.startTime || !event.endTime) {
+    throw new Error('A new calendar event needs a start and end time');
   }
-
-  return Client.init({
-    authProvider: (done) => {
-      done(null, config.microsoft!.refreshToken);
-    },
-  });
 }
 
-export async function createOutlookCalendarEvent(event: CalendarEvent): Promise<string> {
-  const client = getMicrosoftClient();
-
-  const calendarEvent = {
-    subject: event.title,
-    body: {
-      contentType: 'Text',
-      content: event.description || '',
-    },
-    start: {
-      dateTime: event.startTime,
-      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-    },
-    end: {
-      dateTime: event.endTime,
-      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-    },
-    location: event.location ? { displayName: event.location } : undefined,
-    attendees: event.attendees?.map(email => ({
-      emailAddress: { address: email },
-      type: 'required',
-    })),
-  };
-
-  const response = await client.api('/me/events').post(calendarEvent);
+// Give times an explicit offset in the event's zone, so no provider has to guess
+function zonedEvent<T extends Partial<CalendarEvent>>(event: T): T {
+  if (!event.startTime && !event.endTime) {
+    return event;
+  }
 
-  return response.webLink || response.id || 'Event created';
+  const timeZone = requireTimeZone(event.timeZone || getDefaultTimeZone());
+  return {
+    ...event,
+    timeZone,
+    ...(event.startTime ? { startTime: toTimeZone(event.startTime, timeZone) } : {}),
+    ...(event.endTime ? { endTime: toTimeZone(event.endTime, timeZone) } : {}),
+  };
 }
 
-export async function listOutlookCalendarEvents(
-  startDate: string,
-  endDate: string
-): Promise<CalendarEvent[]> {
-  const client = getMicrosoftClient();
-
-  const response = await client
-    .api('/me/calendarview')
-    .query({
-      startDateTime: startDate,
-      endDateTime: endDate,
-    })
-    .orderby('start/dateTime')
-    .get();
-
-  return (response.value || []).map((event: Record<string, unknown>) => ({
-    title: (event.subject as string) || 'Untitled',
-    description: (event.body as { content?: string })?.content,
-    startTime: (event.start as { dateTime?: string })?.dateTime || '',
-    endTime: (event.end as { dateTime?: string })?.dateTime || '',
-    attendees: ((event.attendees as Array<{ emailAddress?: { address?: string } }>) || [])
-      .map(a => a.emailAddress?.address || '')
-      .filter(Boolean),
-    location: (event.location as { displayName?: string })?.displayName,
-  }));
+// Times from every provider in one zone and with their offset, so they compare and display alike
+function normaliseEvent(event: CalendarEvent, timeZone: string): CalendarEvent {
+  const source = event.timeZone || timeZone;
+  return {
+    ...event,
+    startTime: toTimeZone(event.startTime, timeZone, source),
+    endTime: toTimeZone(event.endTime, timeZone, source),
+    timeZone,
+  };
 }
 
 // Unified calendar interface
 export async function createCalendarEvent(
   event: CalendarEvent,
-  provider?: 'google' | 'outlook'
+  provider?: string
 ): Promise<string> {
-  const config = loadConfig();
-  const useProvider = provider || config.defaultCalendar;
+  const saved = await getCalendarProvider(provider).save(zonedEvent(event));
+  return saved.link || saved.eventId || 'Event created';
+}
 
-  if (useProvider === 'google') {
-    return createGoogleCalendarEvent(event);
-  } else {
-    return createOutlookCalendarEvent(event);
+// Create the event, or update the one made earlier; moving to another provider replaces it
+export async function saveCalendarEvent(
+  event: Partial<CalendarEvent>,
+  provider?: string,
+  existing?: CalendarEventRef
+): Promise<CalendarEventRef> {
+  const useProvider = getCalendarProvider(provider || existing?.provider);
+
+  if (existing && existing.provider !== useProvider.name) {
+    await deleteCalendarEvent(existing);
   }
+  const eventId = existing?.provider === useProvider.name ? existing.eventId : undefined;
+
+  return useProvider.save(zonedEvent(event), eventId);
+}
+
+export async function getCalendarEvent(
+  ref: CalendarEventRef,
+  timeZone: string = getDefaultTimeZone()
+): Promise<CalendarEvent | undefined> {
+  const event = await getCalendarProvider(ref.provider).get(ref.eventId);
+  return event && normaliseEvent(event, requireTimeZone(timeZone));
 }
 
+export async function deleteCalendarEvent(ref: CalendarEventRef): Promise<void> {
+  return getCalendarProvider(ref.provider).delete(ref.eventId);
+}
+
+// Dates without an offset are read in the timezone, and events come back in it
 export async function listCalendarEvents(
   startDate: string,
   endDate: string,
-  provider?: 'google' | 'outlook'
+  provider?: string,
+  timeZone: string = getDefaultTimeZone()
 ): Promise<CalendarEvent[]> {
-  const config = loadConfig();
-  const useProvider = provider || config.defaultCalendar;
+  requireTimeZone(timeZone);
+  const events = await getCalendarProvider(provider).list(
+    parseInTimeZone(startDate, timeZone).toISOString(),
+    parseInTimeZone(endDate, timeZone).toISOString()
+  );
 
-  if (useProvider === 'google') {
-    return listGoogleCalendarEvents(startDate, endDate);
-  } else {
-    return listOutlookCalendarEvents(startDate, endDate);
-  }
+  return events.map(event => normaliseEvent(event, timeZone));
 }
@@ -0,0 +1,288 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { addDays, format, parseISO } from 'date-fns';
+import { loadConfig, getConfigDir, ensureConfigDir } from '../utils/config.js';
+import { deleteCalendarEvent, getCalendarEvent, listCalendarEvents, saveCalendarEvent } from './calendar.js';
+import { actionPointToCalendarEvent, getActionIdFromEvent } from './actionExtractor.js';
+import { findPerson } from './people.js';
+import { getAllActionPoints, listNoteSummaries, setActionCalendarEvent } from './notes.js';
+import type { ActionPoint, CalendarEventRef } from '../types.js';
+
+export type CompletedEventMode = 'mark' | 'remove';
+
+export interface CalendarSyncOptions {
+  project?: string;
+  completed?: CompletedEventMode;
+  // Window searched for events whose action point no longer exists
+  from?: string;
+  to?: string;
+  // Delete orphaned events instead of only reporting them
+  removeOrphans?: boolean;
+  // Report what would change without touching the calendar or the notes
+  dryRun?: boolean;
+}
+
+export interface OrphanEvent {
+  provider: string;
+  eventId: string;
+  actionPointId: string;
+}
+
+export interface CalendarSyncResult {
+  updated: string[];
+  unchanged: number;
+  marked: string[];
+  removed: string[];
+  // Events deleted in the calendar; the action forgets them
+  missing: string[];
+  // Events found by their Action ID and linked back to an action that had lost the link
+  relinked: string[];
+  // Events this tool made for deleted actions, or duplicates of a linked event
+  orphans: OrphanEvent[];
+  orphansRemoved: number;
+  errors: Array<{ actionPointId?: string; provider?: string; error: string }>;
+}
+
+const ORPHAN_LOOKBACK_DAYS = 30;
+const ORPHAN_LOOKAHEAD_DAYS = 90;
+
+// Events this tool created; only these are ever deleted as orphans
+function getOwnedEventsPath(): string {
+  return join(getConfigDir(), 'action-events.json');
+}
+
+function eventKey(ref: CalendarEventRef): string {
+  return `${ref.provider}:${ref.eventId}`;
+}
+
+function loadOwnedEvents(): Set<string> {
+  const path = getOwnedEventsPath();
+  if (!existsSync(path)) {
+    return new Set();
+  }
+
+  try {
+    return new Set(JSON.parse(readFileSync(path, 'utf-8')) as string[]);
+  } catch {
+    return new Set();
+  }
+}
+
+function saveOwnedEvents(keys: Set<string>): void {
+  ensureConfigDir();
+  writeFileSync(getOwnedEventsPath(), JSON.stringify([...keys].sort(), null, 2));
+}
+
+function rememberEvent(ref: CalendarEventRef): void {
+  const owned = loadOwnedEvents();
+  if (!owned.has(eventKey(ref))) {
+    saveOwnedEvents(owned.add(eventKey(ref)));
+  }
+}
+
+function forgetEvent(ref: CalendarEventRef): void {
+  const owned = loadOwnedEvents();
+  if (owned.delete(eventKey(ref))) {
+    saveOwnedEvents(owned);
+  }
+}
+
+export function getCompletedEventMode(): CompletedEventMode {
+  return loadConfig().completedActionEvents || 'mark';
+}
+
+// Outlook hands descriptions back as HTML, so compare the text only
+function normaliseText(text = ''): string {
+  return text
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+// Title and description as the calendar should show them, without touching the time
+function eventDetails(actionPoint: ActionPoint): { title: string; description: string } {
+  const { title, description } = actionPointToCalendarEvent(actionPoint);
+  return { title, description };
+}
+
+// Create or move an action's event and remember where it lives
+export async function saveActionEvent(
+  actionPoint: ActionPoint,
+  slot: { startTime: string; endTime: string; timeZone?: string },
+  provider?: string
+): Promise<CalendarEventRef> {
+  const person = actionPoint.assignee ? findPerson(actionPoint.assignee) : undefined;
+
+  const ref = await saveCalendarEvent(
+    {
+      ...eventDetails(actionPoint),
+      ...slot,
+      ...(person?.email ? { attendees: [person.email] } : {}),
+    },
+    provider || person?.calendar,
+    actionPoint.calendarEvent
+  );
+
+  rememberEvent(ref);
+  await setActionCalendarEvent(actionPoint.id, ref);
+  return ref;
+}
+
+// A completed action's event is marked done or removed, depending on the mode
+export async function closeActionEvent(
+  actionPoint: ActionPoint,
+  mode: CompletedEventMode = getCompletedEventMode()
+): Promise<'marked' | 'removed' | 'missing' | 'none'> {
+  const ref = actionPoint.calendarEvent;
+  if (!ref) {
+    return 'none';
+  }
+
+  if (mode === 'remove') {
+    await deleteCalendarEvent(ref);
+    forgetEvent(ref);
+    await setActionCalendarEvent(actionPoint.id, undefined);
+    return 'removed';
+  }
+
+  if (!(await getCalendarEvent(ref))) {
+    await setActionCalendarEvent(actionPoint.id, undefined);
+    return 'missing';
+  }
+
+  await saveCalendarEvent(eventDetails(actionPoint), ref.provider, ref);
+  return 'marked';
+}
+
+// Bring linked events in line with their actions, then report (or clear out) events nothing links to
+export async function syncCalendar(options: CalendarSyncOptions = {}): Promise<CalendarSyncResult> {
+  const mode = options.completed || getCompletedEventMode();
+  const dryRun = !!options.dryRun;
+  const result: CalendarSyncResult = {
+    updated: [],
+    unchanged: 0,
+    marked: [],
+    removed: [],
+    missing: [],
+    relinked: [],
+    orphans: [],
+    orphansRemoved: 0,
+    errors: [],
+  };
+
+  // Orphans are judged against every project and archived notes too, or their actions would look deleted
+  const allActions = await getAllActionPoints(undefined, true);
+  const actions = options.project ? await getAllActionPoints(options.project) : allActions;
+  const actionsById = new Map(allActions.map(ap => [ap.id, ap]));
+
+  // Every event an action links to, carried-over copies included: their events still name the original's ID
+  const linkedEvents = new Set<string>();
+  for (const project of loadConfig().projects) {
+    for (const note of await listNoteSummaries(project.name, true)) {
+      note.actionPoints.forEach(ap => ap.calendarEvent && linkedEvents.add(eventKey(ap.calendarEvent)));
+    }
+  }
+
+  // Events still linked to an action were made here, including ones from before the list was kept
+  const owned = loadOwnedEvents();
+  linkedEvents.forEach(key => owned.add(key));
+
+  for (const actionPoint of actions) {
+    const ref = actionPoint.calendarEvent;
+    if (!ref) continue;
+
+    try {
+      if (actionPoint.status === 'completed') {
+        const outcome = dryRun
+          ? mode === 'remove' ? 'removed' : (await getCalendarEvent(ref)) ? 'marked' : 'missing'
+          : await closeActionEvent(actionPoint, mode);
+        if (outcome === 'marked') result.marked.push(actionPoint.id);
+        if (outcome === 'removed') result.removed.push(actionPoint.id);
+        if (outcome === 'missing') result.missing.push(actionPoint.id);
+        continue;
+      }
+
+      const event = await getCalendarEvent(ref);
+      if (!event) {
+        if (!dryRun) await setActionCalendarEvent(actionPoint.id, undefined);
+        result.missing.push(actionPoint.id);
+        continue;
+      }
+
+      const details = eventDetails(actionPoint);
+      if (event.title === details.title && normaliseText(event.description) === normaliseText(details.description)) {
+        result.unchanged++;
+        continue;
+      }
+
+      if (!dryRun) await saveCalendarEvent(details, ref.provider, ref);
+      result.updated.push(actionPoint.id);
+    } catch (error) {
+      result.errors.push({ actionPointId: actionPoint.id, error: errorMessage(error) });
+    }
+  }
+
+  const config = loadConfig();
+  const providers = new Set<string>([
+    config.defaultCalendar,
+    ...allActions.flatMap(ap => (ap.calendarEvent ? [ap.calendarEvent.provider] : [])),
+  ]);
+  const from = options.from || format(addDays(new Date(), -ORPHAN_LOOKBACK_DAYS), 'yyyy-MM-dd');
+  const to = options.to || format(addDays(new Date(), ORPHAN_LOOKAHEAD_DAYS), 'yyyy-MM-dd');
+
+  for (const provider of providers) {
+    let events;
+    try {
+      events = await listCalendarEvents(parseISO(from).toISOString(), parseISO(to).toISOString(), provider);
+    } catch (error) {
+      result.errors.push({ provider, error: errorMessage(error) });
+      continue;
+    }
+
+    for (const event of events) {
+      const actionId = getActionIdFromEvent(event.description);
+      if (!actionId || !event.id) continue;
+
+      const ref = { provider, eventId: event.id };
+      if (linkedEvents.has(eventKey(ref))) continue;
+
+      const actionPoint = actionsById.get(actionId);
+      const linked = actionPoint?.calendarEvent;
+
+      try {
+        if (actionPoint && !linked && actionPoint.status !== 'completed') {
+          if (!dryRun) {
+            await setActionCalendarEvent(actionPoint.id, ref);
+            rememberEvent(ref);
+          }
+          actionPoint.calendarEvent = ref;
+          linkedEvents.add(eventKey(ref));
+          result.relinked.push(actionPoint.id);
+          continue;
+        }
+
+        // An "Action ID" line can be copied into any event; only events made here are touched
+        if (!owned.has(eventKey(ref))) continue;
+
+        result.orphans.push({ ...ref, actionPointId: actionId });
+        if (options.removeOrphans && !dryRun) {
+          await deleteCalendarEvent(ref);
+          forgetEvent(ref);
+          result.orphansRemoved++;
+        }
+      } catch (error) {
+        result.errors.push({ actionPointId: actionId, provider, error: errorMessage(error) });
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,155 @@
+import { randomUUID } from 'crypto';
+import { parseISO } from 'date-fns';
+import { loadConfig } from '../../utils/config.js';
+import { requireTimes } from '../calendar.js';
+import type { CalendarProvider } from '../calendar.js';
+import { calendarEventsToIcs, icsToCalendarEvents } from '../ics.js';
+import type { CalendarEvent, CalendarEventRef } from '../../types.js';
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function getCollectionUrl(): URL {
+  const caldav = loadConfig().caldav;
+
+  if (!caldav?.url) {
+    throw new Error('CalDAV not configured. Run: highlight-workflow config:caldav');
+  }
+
+  return new URL(caldav.url.endsWith('/') ? caldav.url : `${caldav.url}/`);
+}
+
+// Events live at <collection>/<id>.ics; events made elsewhere keep whatever name their href has
+function resourceUrl(eventId: string): URL {
+  return new URL(`${encodeURIComponent(eventId)}.ics`, getCollectionUrl());
+}
+
+function eventIdFromHref(href: string): string {
+  const name = decodeURIComponent(href.replace(/\/+$/, '').split('/').pop() || '');
+  return name.replace(/\.ics$/i, '');
+}
+
+async function request(
+  method: string,
+  url: URL,
+  options: { body?: string; headers?: Record<string, string> } = {}
+): Promise<Response> {
+  const { username, password } = loadConfig().caldav || {};
+  const headers: Record<string, string> = { ...options.headers };
+  if (username) {
+    headers.Authorization = `Basic ${Buffer.from(`${username}:${password || ''}`).toString('base64')}`;
+  }
+
+  return fetch(url, {
+    method,
+    headers,
+    body: options.body,
+  });
+}
+
+// Errors name the step rather than the URL, which may carry credentials
+function expectOk(response: Response, step: string): void {
+  if (!response.ok) {
+    throw new Error(`CalDAV ${step} failed: ${response.status} ${response.statusText}`);
+  }
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, '$1')
+    .replace(/&#(x?)([0-9a-f]+);/gi, (_, hex: string, code: string) => String.fromCharCode(parseInt(code, hex ? 16 : 10)))
+    .replace(/&(lt|gt|amp|quot|apos);/g, (_, name: string) => XML_ENTITIES[name]);
+}
+
+// Pull href and calendar-data out of a multistatus reply, whatever namespace prefixes the server uses
+function parseMultistatus(xml: string): Array<{ href: string; data: string }> {
+  const responses = xml.match(/<(?:[\w-]+:)?response[\s>][\s\S]*?<\/(?:[\w-]+:)?response>/g) || [];
+
+  return responses.flatMap(block => {
+    const href = block.match(/<(?:[\w-]+:)?href[^>]*>([^<]*)</)?.[1];
+    const data = block.match(/<(?:[\w-]+:)?calendar-data[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?calendar-data>/)?.[1];
+    return href && data ? [{ href: decodeXml(href.trim()), data: decodeXml(data.trim()) }] : [];
+  });
+}
+
+function toUtcStamp(value: string): string {
+  return parseISO(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+async function putEvent(eventId: string, event: CalendarEvent, create: boolean): Promise<CalendarEventRef> {
+  const url = resourceUrl(eventId);
+  const response = await request('PUT', url, {
+    body: calendarEventsToIcs([{ ...event, uid: event.id || eventId }], { publish: false }),
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      ...(create ? { 'If-None-Match': '*' } : {}),
+    },
+  });
+  expectOk(response, 'PUT');
+
+  return { provider: 'caldav', eventId, link: url.toString() };
+}
+
+// Any CalDAV calendar collection: Nextcloud, Fastmail, iCloud, Radicale, ...
+export const caldavCalendar: CalendarProvider = {
+  name: 'caldav',
+
+  async save(event: Partial<CalendarEvent>, eventId?: string): Promise<CalendarEventRef> {
+    const existing = eventId ? await caldavCalendar.get(eventId) : undefined;
+
+    // CalDAV has no partial update, so the stored event is merged and written back
+    if (existing && eventId) {
+      return putEvent(eventId, { ...existing, ...event }, false);
+    }
+
+    requireTimes(event);
+    const id = randomUUID();
+    return putEvent(id, { title: 'Untitled', ...event, id } as CalendarEvent, true);
+  },
+
+  async get(eventId: string): Promise<CalendarEvent | undefined> {
+    const response = await request('GET', resourceUrl(eventId));
+    if (response.status === 404 || response.status === 410) {
+      return undefined;
+    }
+    expectOk(response, 'GET');
+
+    const event = icsToCalendarEvents(await response.text())[0];
+    return event ? { ...event, id: eventId } : undefined;
+  },
+
+  async delete(eventId: string): Promise<void> {
+    const response = await request('DELETE', resourceUrl(eventId));
+    if (response.status !== 404 && response.status !== 410) {
+      expectOk(response, 'DELETE');
+    }
+  },
+
+  async list(startDate: string, endDate: string): Promise<CalendarEvent[]> {
+    const body = [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">',
+      '  <d:prop><d:getetag/><c:calendar-data/></d:prop>',
+      '  <c:filter>',
+      '    <c:comp-filter name="VCALENDAR">',
+      '      <c:comp-filter name="VEVENT">',
+      `        <c:time-range start="${toUtcStamp(startDate)}" end="${toUtcStamp(endDate)}"/>`,
+      '      </c:comp-filter>',
+      '    </c:comp-filter>',
+      '  </c:filter>',
+      '</c:calendar-query>',
+    ].join('\n');
+
+    const response = await request('REPORT', getCollectionUrl(), {
+      body,
+      headers: { 'Content-Type': 'application/xml; charset=utf-8', Depth: '1' },
+    });
+    expectOk(response, 'REPORT');
+
+    return parseMultistatus(await response.text())
+      .flatMap(({ href, data }) => {
+        const event = icsToCalendarEvents(data)[0];
+        return event ? [{ ...event, id: eventIdFromHref(href) }] : [];
+      })
+      .sort((a, b) => parseISO(a.startTime).getTime() - parseISO(b.startTime).getTime());
+  },
+};
@@ -0,0 +1,129 @@
+import { google, calendar_v3 } from 'googleapis';
+import { loadConfig } from '../../utils/config.js';
+import { isDateOnly } from '../../utils/timezone.js';
+import { isNotFound, requireTimes } from '../calendar.js';
+import type { CalendarProvider } from '../calendar.js';
+import type { CalendarEvent, CalendarEventRef } from '../../types.js';
+
+// Google allows up to 2500 per page; pages are followed either way
+const PAGE_SIZE = 250;
+
+function getGoogleCalendar(): calendar_v3.Calendar {
+  const config = loadConfig();
+
+  if (!config.google) {
+    throw new Error('Google credentials not configured. Run: highlight-workflow config google');
+  }
+
+  const oauth2Client = new google.auth.OAuth2(
+    config.google.clientId,
+    config.google.clientSecret
+  );
+
+  oauth2Client.setCredentials({
+    refresh_token: config.google.refreshToken,
+  });
+
+  return google.calendar({ version: 'v3', auth: oauth2Client });
+}
+
+function toGoogleTime(value: string, timeZone?: string): calendar_v3.Schema$EventDateTime {
+  return isDateOnly(value) ? { date: value } : { dateTime: value, ...(timeZone ? { timeZone } : {}) };
+}
+
+// Only the fields that are set, so updates leave the rest of the event alone
+function toGoogleEvent(event: Partial<CalendarEvent>): calendar_v3.Schema$Event {
+  return {
+    ...(event.title !== undefined ? { summary: event.title } : {}),
+    ...(event.description !== undefined ? { description: event.description } : {}),
+    ...(event.startTime ? { start: toGoogleTime(event.startTime, event.timeZone) } : {}),
+    ...(event.endTime ? { end: toGoogleTime(event.endTime, event.timeZone) } : {}),
+    ...(event.attendees ? { attendees: event.attendees.map(email => ({ email })) } : {}),
+    ...(event.location !== undefined ? { location: event.location } : {}),
+    ...(event.transparent !== undefined ? { transparency: event.transparent ? 'transparent' : 'opaque' } : {}),
+  };
+}
+
+function fromGoogleEvent(event: calendar_v3.Schema$Event): CalendarEvent {
+  return {
+    ...(event.id ? { id: event.id } : {}),
+    title: event.summary || 'Untitled',
+    description: event.description || undefined,
+    startTime: event.start?.dateTime || event.start?.date || '',
+    endTime: event.end?.dateTime || event.end?.date || '',
+    attendees: event.attendees?.map(a => a.email || '').filter(Boolean),
+    location: event.location || undefined,
+    ...(event.transparency === 'transparent' ? { transparent: true } : {}),
+  };
+}
+
+export const googleCalendar: CalendarProvider = {
+  name: 'google',
+
+  async save(event: Partial<CalendarEvent>, eventId?: string): Promise<CalendarEventRef> {
+    const calendar = getGoogleCalendar();
+
+    if (eventId) {
+      try {
+        const response = await calendar.events.patch({
+          calendarId: 'primary',
+          eventId,
+          requestBody: toGoogleEvent(event),
+        });
+        if (response.data.status !== 'cancelled') {
+          return { provider: 'google', eventId, link: response.data.htmlLink || undefined };
+        }
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+      }
+    }
+
+    requireTimes(event);
+    const response = await calendar.events.insert({
+      calendarId: 'primary',
+      requestBody: toGoogleEvent(event),
+    });
+
+    return { provider: 'google', eventId: response.data.id || '', link: response.data.htmlLink || undefined };
+  },
+
+  async get(eventId: string): Promise<CalendarEvent | undefined> {
+    try {
+      const response = await getGoogleCalendar().events.get({ calendarId: 'primary', eventId });
+      return response.data.status === 'cancelled' ? undefined : fromGoogleEvent(response.data);
+    } catch (error) {
+      if (isNotFound(error)) return undefined;
+      throw error;
+    }
+  },
+
+  async delete(eventId: string): Promise<void> {
+    try {
+      await getGoogleCalendar().events.delete({ calendarId: 'primary', eventId });
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
+  },
+
+  async list(startDate: string, endDate: string): Promise<CalendarEvent[]> {
+    const calendar = getGoogleCalendar();
+    const events: CalendarEvent[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const response = await calendar.events.list({
+        calendarId: 'primary',
+        timeMin: startDate,
+        timeMax: endDate,
+        singleEvents: true,
+        orderBy: 'startTime',
+        maxResults: PAGE_SIZE,
+        ...(pageToken ? { pageToken } : {}),
+      });
+      events.push(...(response.data.items || []).map(fromGoogleEvent));
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    return events;
+  },
+};
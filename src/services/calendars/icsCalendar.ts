@@ -0,0 +1,89 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { randomUUID } from 'crypto';
+import { parseISO } from 'date-fns';
+import { getConfigDir, loadConfig } from '../../utils/config.js';
+import { getDefaultTimeZone, parseInTimeZone } from '../../utils/timezone.js';
+import { requireTimes } from '../calendar.js';
+import type { CalendarProvider } from '../calendar.js';
+import { calendarEventsToIcs, icsToCalendarEvents, isOwnCalendar } from '../ics.js';
+import type { CalendarEvent, CalendarEventRef } from '../../types.js';
+
+function getCalendarPath(): string {
+  return loadConfig().icsCalendarPath || join(getConfigDir(), 'calendar.ics');
+}
+
+// Reading works on any calendar file; changes are only made to files this provider created
+function readEvents(forWrite = false): CalendarEvent[] {
+  const path = getCalendarPath();
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  const text = readFileSync(path, 'utf-8');
+  // A rewrite keeps only what the parser reads, so recurrence, alarms and timezones from elsewhere would be lost
+  if (forWrite && text.trim() && !isOwnCalendar(text)) {
+    throw new Error(`${path} was not created by highlight-workflow and would lose data if rewritten. Set icsCalendarPath to a file of its own`);
+  }
+
+  return icsToCalendarEvents(text);
+}
+
+// The file is rewritten as a whole
+function writeEvents(events: CalendarEvent[]): void {
+  const path = getCalendarPath();
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, calendarEventsToIcs(events), 'utf-8');
+}
+
+// Floating times and all-day dates count in the default timezone
+function overlaps(event: CalendarEvent, from: Date, to: Date, timeZone: string): boolean {
+  const start = parseInTimeZone(event.startTime, timeZone);
+  const end = parseInTimeZone(event.endTime, timeZone);
+  return start < to && (end > from || start >= from);
+}
+
+// A plain .ics file, e.g. inside an Obsidian vault or a folder a calendar app subscribes to
+export const icsCalendar: CalendarProvider = {
+  name: 'ics',
+
+  async save(event: Partial<CalendarEvent>, eventId?: string): Promise<CalendarEventRef> {
+    const events = readEvents(true);
+    const index = eventId ? events.findIndex(e => e.id === eventId) : -1;
+
+    if (index >= 0) {
+      events[index] = { ...events[index], ...event, id: eventId };
+      writeEvents(events);
+      return { provider: 'ics', eventId: eventId!, link: getCalendarPath() };
+    }
+
+    requireTimes(event);
+    const id = `${randomUUID()}@highlight-workflow`;
+    events.push({ title: 'Untitled', ...event, id } as CalendarEvent);
+    writeEvents(events);
+
+    return { provider: 'ics', eventId: id, link: getCalendarPath() };
+  },
+
+  async get(eventId: string): Promise<CalendarEvent | undefined> {
+    return readEvents().find(e => e.id === eventId);
+  },
+
+  async delete(eventId: string): Promise<void> {
+    const events = readEvents(true);
+    const remaining = events.filter(e => e.id !== eventId);
+    if (remaining.length !== events.length) {
+      writeEvents(remaining);
+    }
+  },
+
+  async list(startDate: string, endDate: string): Promise<CalendarEvent[]> {
+    const from = parseISO(startDate);
+    const to = parseISO(endDate);
+    const timeZone = getDefaultTimeZone();
+
+    return readEvents()
+      .filter(e => overlaps(e, from, to, timeZone))
+      .sort((a, b) => parseInTimeZone(a.startTime, timeZone).getTime() - parseInTimeZone(b.startTime, timeZone).getTime());
+  },
+};
@@ -0,0 +1,141 @@
+import { Client } from '@microsoft/microsoft-graph-client';
+import { loadConfig } from '../../utils/config.js';
+import { hasOffset, isDateOnly, isValidTimeZone } from '../../utils/timezone.js';
+import { isNotFound, requireTimes } from '../calendar.js';
+import type { CalendarProvider } from '../calendar.js';
+import type { CalendarEvent, CalendarEventRef } from '../../types.js';
+
+const UTC_PREFERENCE = 'outlook.timezone="UTC"';
+// Graph returns 10 events per page unless asked for more; pages are followed either way
+const PAGE_SIZE = 100;
+
+function getMicrosoftClient(): Client {
+  const config = loadConfig();
+
+  if (!config.microsoft) {
+    throw new Error('Microsoft credentials not configured. Run: highlight-workflow config microsoft');
+  }
+
+  return Client.init({
+    authProvider: (done) => {
+      done(null, config.microsoft!.refreshToken);
+    },
+  });
+}
+
+// Graph wants the wall-clock time next to the zone, not an offset
+function toOutlookTime(value: string, timeZone = 'UTC'): { dateTime: string; timeZone: string } {
+  return { dateTime: isDateOnly(value) ? `${value}T00:00:00` : value.substring(0, 19), timeZone };
+}
+
+// Reads ask for UTC, which Graph returns without a zone designator
+function fromOutlookTime(value: { dateTime?: string; timeZone?: string } | undefined, allDay: boolean): string {
+  const dateTime = (value?.dateTime || '').replace(/\.\d+$/, '');
+  if (!dateTime || allDay) {
+    return dateTime.substring(0, 10);
+  }
+  return hasOffset(dateTime) || value?.timeZone !== 'UTC' ? dateTime : `${dateTime}Z`;
+}
+
+function toOutlookEvent(event: Partial<CalendarEvent>): Record<string, unknown> {
+  const allDay = !!event.startTime && isDateOnly(event.startTime);
+
+  return {
+    ...(event.title !== undefined ? { subject: event.title } : {}),
+    ...(event.description !== undefined ? { body: { contentType: 'Text', content: event.description } } : {}),
+    ...(event.startTime ? { start: toOutlookTime(event.startTime, event.timeZone), isAllDay: allDay } : {}),
+    ...(event.endTime ? { end: toOutlookTime(event.endTime, event.timeZone) } : {}),
+    ...(event.location ? { location: { displayName: event.location } } : {}),
+    ...(event.transparent !== undefined ? { showAs: event.transparent ? 'free' : 'busy' } : {}),
+    ...(event.attendees
+      ? {
+          attendees: event.attendees.map(email => ({
+            emailAddress: { address: email },
+            type: 'required',
+          })),
+        }
+      : {}),
+  };
+}
+
+function fromOutlookEvent(event: Record<string, unknown>): CalendarEvent {
+  const allDay = !!event.isAllDay;
+  const start = event.start as { dateTime?: string; timeZone?: string } | undefined;
+
+  return {
+    ...(event.id ? { id: event.id as string } : {}),
+    title: (event.subject as string) || 'Untitled',
+    description: (event.body as { content?: string })?.content,
+    startTime: fromOutlookTime(start, allDay),
+    endTime: fromOutlookTime(event.end as { dateTime?: string; timeZone?: string } | undefined, allDay),
+    // Anything not in UTC came back in the zone Graph names, if it is an IANA one
+    ...(start?.timeZone && start.timeZone !== 'UTC' && isValidTimeZone(start.timeZone) ? { timeZone: start.timeZone } : {}),
+    attendees: ((event.attendees as Array<{ emailAddress?: { address?: string } }>) || [])
+      .map(a => a.emailAddress?.address || '')
+      .filter(Boolean),
+    location: (event.location as { displayName?: string })?.displayName,
+    ...(event.showAs === 'free' ? { transparent: true } : {}),
+  };
+}
+
+export const outlookCalendar: CalendarProvider = {
+  name: 'outlook',
+
+  async save(event: Partial<CalendarEvent>, eventId?: string): Promise<CalendarEventRef> {
+    const client = getMicrosoftClient();
+
+    if (eventId) {
+      try {
+        const response = await client.api(`/me/events/${eventId}`).patch(toOutlookEvent(event));
+        return { provider: 'outlook', eventId, link: response?.webLink };
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+      }
+    }
+
+    requireTimes(event);
+    const response = await client.api('/me/events').post(toOutlookEvent(event));
+
+    return { provider: 'outlook', eventId: response.id, link: response.webLink };
+  },
+
+  async get(eventId: string): Promise<CalendarEvent | undefined> {
+    try {
+      return fromOutlookEvent(await getMicrosoftClient().api(`/me/events/${eventId}`).header('Prefer', UTC_PREFERENCE).get());
+    } catch (error) {
+      if (isNotFound(error)) return undefined;
+      throw error;
+    }
+  },
+
+  async delete(eventId: string): Promise<void> {
+    try {
+      await getMicrosoftClient().api(`/me/events/${eventId}`).delete();
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
+  },
+
+  async list(startDate: string, endDate: string): Promise<CalendarEvent[]> {
+    const client = getMicrosoftClient();
+    let response = await client
+      .api('/me/calendarview')
+      .query({
+        startDateTime: startDate,
+        endDateTime: endDate,
+      })
+      .header('Prefer', UTC_PREFERENCE)
+      .orderby('start/dateTime')
+      .top(PAGE_SIZE)
+      .get();
+    const events: CalendarEvent[] = (response.value || []).map(fromOutlookEvent);
+
+    // The next link carries the query along, but not the timezone preference
+    while (response['@odata.nextLink']) {
+      response = await client.api(response['@odata.nextLink']).header('Prefer', UTC_PREFERENCE).get();
+      events.push(...(response.value || []).map(fromOutlookEvent));
+    }
+
+    return events;
+  },
+};
@@ -0,0 +1,134 @@
+import { addDays, format, parseISO, startOfWeek } from 'date-fns';
+import { loadConfig } from '../utils/config.js';
+import { getPendingActionPoints, resolveLegacyDueDates } from './notes.js';
+import type { UnresolvedDueDate } from './notes.js';
+import { formatActionPointLine } from './actionExtractor.js';
+import type { ActionPoint } from '../types.js';
+
+export type DigestBucket = 'overdue' | 'today' | 'thisWeek' | 'later' | 'noDate';
+
+export interface DigestItem extends ActionPoint {
+  project: string;
+  // ISO date the due date resolved to; unset when it could not be interpreted
+  resolvedDueDate?: string;
+}
+
+export interface DigestGroup {
+  bucket: DigestBucket;
+  label: string;
+  count: number;
+  byAssignee: Array<{ assignee: string; actionPoints: DigestItem[] }>;
+}
+
+export interface ActionDigest {
+  date: string;
+  project?: string;
+  total: number;
+  groups: DigestGroup[];
+  // Free-text due dates that could not be interpreted; those actions are listed without a date
+  unresolvedDates: UnresolvedDueDate[];
+}
+
+const BUCKET_LABELS: Record<DigestBucket, string> = {
+  overdue: 'Overdue',
+  today: 'Due today',
+  thisWeek: 'Due this week',
+  later: 'Due later',
+  noDate: 'No due date',
+};
+
+const UNASSIGNED = 'Unassigned';
+
+function bucketFor(item: DigestItem, today: string, endOfWeek: string): DigestBucket {
+  const due = item.resolvedDueDate;
+
+  if (!due) return 'noDate';
+  if (due < today) return 'overdue';
+  if (due === today) return 'today';
+  if (due <= endOfWeek) return 'thisWeek';
+  return 'later';
+}
+
+function groupByAssignee(items: DigestItem[]): DigestGroup['byAssignee'] {
+  const groups = new Map<string, DigestItem[]>();
+
+  for (const item of items) {
+    const assignee = item.assignee || UNASSIGNED;
+    groups.set(assignee, [...(groups.get(assignee) || []), item]);
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => (a === UNASSIGNED ? 1 : b === UNASSIGNED ? -1 : a.localeCompare(b)))
+    .map(([assignee, actionPoints]) => ({
+      assignee,
+      actionPoints: actionPoints.sort((a, b) =>
+        (a.resolvedDueDate || '').localeCompare(b.resolvedDueDate || '')
+      ),
+    }));
+}
+
+// Group pending action points by urgency, then by assignee
+export async function buildActionDigest(
+  options: { project?: string; date?: string } = {}
+): Promise<ActionDigest> {
+  const config = loadConfig();
+  const projects = options.project
+    ? config.projects.filter(p => p.name === options.project)
+    : config.projects;
+
+  const today = options.date || format(new Date(), 'yyyy-MM-dd');
+  const endOfWeek = format(addDays(startOfWeek(parseISO(today), { weekStartsOn: 1 }), 6), 'yyyy-MM-dd');
+
+  const items: DigestItem[] = [];
+  const unresolvedDates: UnresolvedDueDate[] = [];
+  for (const project of projects) {
+    const pending = await getPendingActionPoints(project.name);
+    items.push(...(await resolveLegacyDueDates(pending.map(ap => ({ ...ap, project: project.name })), unresolvedDates)));
+  }
+
+  const buckets: DigestBucket[] = ['overdue', 'today', 'thisWeek', 'later', 'noDate'];
+  const groups = buckets
+    .map(bucket => {
+      const inBucket = items.filter(item => bucketFor(item, today, endOfWeek) === bucket);
+      return {
+        bucket,
+        label: BUCKET_LABELS[bucket],
+        count: inBucket.length,
+        byAssignee: groupByAssignee(inBucket),
+      };
+    })
+    .filter(group => group.count > 0);
+
+  return {
+    date: today,
+    ...(options.project ? { project: options.project } : {}),
+    total: items.length,
+    groups,
+    unresolvedDates,
+  };
+}
+
+export function formatDigestMarkdown(digest: ActionDigest): string {
+  const scope = digest.project ? ` (${digest.project})` : '';
+  const lines = [`# Action Digest - ${digest.date}${scope}`, ''];
+
+  if (digest.total === 0) {
+    lines.push('No pending action points.');
+    return lines.join('\n') + '\n';
+  }
+
+  for (const group of digest.groups) {
+    lines.push(`## ${group.label} (${group.count})`, '');
+
+    for (const { assignee, actionPoints } of group.byAssignee) {
+      lines.push(`### ${assignee}`, '');
+      for (const item of actionPoints) {
+        const line = formatActionPointLine({ ...item, dueDate: item.resolvedDueDate || item.dueDate });
+        lines.push(digest.project ? line : `${line} [${item.project}]`);
+      }
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n').trim() + '\n';
+}
@@ -0,0 +1,208 @@
+import {
+  addDays,
+  addWeeks,
+  addMonths,
+  endOfMonth,
+  format,
+  isValid,
+  nextDay,
+  parseISO,
+  startOfDay,
+  startOfWeek,
+} from 'date-fns';
+import type { Day } from 'date-fns';
+import { getLanguagePack, translateDatePhrase } from './languages/index.js';
+
+export interface ResolvedDueDate {
+  phrase: string;
+  // ISO date (YYYY-MM-DD) when the phrase could be resolved
+  date?: string;
+  // Why the phrase could not be resolved to a single date
+  ambiguous?: string;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+const NUMBER_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5 };
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isIsoDate(value: string): boolean {
+  return ISO_DATE.test(value) && isValid(parseISO(value));
+}
+
+function toDate(reference: string | Date): Date {
+  return startOfDay(typeof reference === 'string' ? parseISO(reference) : reference);
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.findIndex(m => m.startsWith(name.substring(0, 3)));
+}
+
+function buildDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month, day);
+  return date.getMonth() === month && date.getDate() === day ? date : null;
+}
+
+// Weeks run Monday to Sunday; "end of week" is the Friday
+function fridayOf(date: Date): Date {
+  return addDays(startOfWeek(date, { weekStartsOn: 1 }), 4);
+}
+
+function resolveWeekday(modifier: string | undefined, weekday: number, ref: Date): Date | string {
+  const weekStart = startOfWeek(ref, { weekStartsOn: 1 });
+  const offset = (weekday + 6) % 7;
+
+  if (modifier === 'next') {
+    return addDays(addWeeks(weekStart, 1), offset);
+  }
+
+  if (modifier === 'this') {
+    const date = addDays(weekStart, offset);
+    return date < ref ? `"this ${WEEKDAYS[weekday]}" has already passed` : date;
+  }
+
+  if (ref.getDay() === weekday) {
+    return `"${WEEKDAYS[weekday]}" on a ${WEEKDAYS[weekday]} could mean today or next week`;
+  }
+
+  return nextDay(ref, weekday as Day);
+}
+
+function resolveMonthDay(month: number, day: number, year: number | undefined, ref: Date): Date | string {
+  if (year !== undefined) {
+    return buildDate(year, month, day) || 'not a valid calendar date';
+  }
+
+  // Without a year, take the next occurrence on or after the reference date
+  const thisYear = buildDate(ref.getFullYear(), month, day);
+  if (!thisYear) {
+    return 'not a valid calendar date';
+  }
+  return thisYear < ref ? buildDate(ref.getFullYear() + 1, month, day) || thisYear : thisYear;
+}
+
+function resolveNumeric(
+  first: number,
+  second: number,
+  year: number | undefined,
+  ref: Date,
+  dayFirst?: boolean
+): Date | string {
+  let day: number;
+  let month: number;
+
+  if ((dayFirst || first > 12) && second <= 12) {
+    day = first;
+    month = second;
+  } else if (second > 12 && first <= 12) {
+    month = first;
+    day = second;
+  } else if (first === second) {
+    day = month = first;
+  } else {
+    return `"${first}/${second}" could be day/month or month/day`;
+  }
+
+  const fullYear = year !== undefined && year < 100 ? 2000 + year : year;
+  return resolveMonthDay(month - 1, day, fullYear, ref);
+}
+
+function resolvePhrase(text: string, ref: Date, dayFirst?: boolean): Date | string {
+  if (ISO_DATE.test(text)) {
+    const date = parseISO(text);
+    return isValid(date) ? date : 'not a valid calendar date';
+  }
+
+  switch (text) {
+    case 'today':
+    case 'tonight':
+    case 'eod':
+    case 'end of day':
+    case 'end of the day':
+      return ref;
+    case 'tomorrow':
+      return addDays(ref, 1);
+    case 'day after tomorrow':
+    case 'the day after tomorrow':
+      return addDays(ref, 2);
+    case 'this week':
+    case 'end of week':
+    case 'end of the week':
+    case 'eow': {
+      const friday = fridayOf(ref);
+      return friday < ref ? ref : friday;
+    }
+    case 'next week':
+    case 'end of next week':
+      return fridayOf(addWeeks(ref, 1));
+    case 'end of month':
+    case 'end of the month':
+    case 'eom':
+      return endOfMonth(ref);
+    case 'next month':
+      return '"next month" does not say which day';
+  }
+
+  let match = text.match(/^in (\d+|a|an|one|two|three|four|five) (day|week|month)s?$/);
+  if (match) {
+    const amount = NUMBER_WORDS[match[1]] ?? parseInt(match[1]);
+    if (match[2] === 'day') return addDays(ref, amount);
+    if (match[2] === 'week') return addWeeks(ref, amount);
+    return addMonths(ref, amount);
+  }
+
+  match = text.match(/^(?:(this|next) )?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)$/);
+  if (match) {
+    return resolveWeekday(match[1], WEEKDAYS.indexOf(match[2]), ref);
+  }
+
+  // "March 5", "Mar 5th", "March 5, 2025"
+  match = text.match(/^([a-z]{3,9})\.? (\d{1,2})(?:st|nd|rd|th)?(?:,? (\d{4}))?$/);
+  if (match && monthIndex(match[1]) >= 0) {
+    return resolveMonthDay(monthIndex(match[1]), parseInt(match[2]), match[3] ? parseInt(match[3]) : undefined, ref);
+  }
+
+  // "5 March", "5th of March 2025"
+  match = text.match(/^(\d{1,2})(?:st|nd|rd|th)? (?:of )?([a-z]{3,9})\.?(?:,? (\d{4}))?$/);
+  if (match && monthIndex(match[2]) >= 0) {
+    return resolveMonthDay(monthIndex(match[2]), parseInt(match[1]), match[3] ? parseInt(match[3]) : undefined, ref);
+  }
+
+  // "3/5", "03-05-2025"
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{2}|\d{4}))?$/);
+  if (match) {
+    const year = match[3] ? parseInt(match[3]) : undefined;
+    return resolveNumeric(parseInt(match[1]), parseInt(match[2]), year, ref, dayFirst);
+  }
+
+  return 'unrecognised date phrase';
+}
+
+// Resolve a due date phrase against the date it was written on; non-English
+// phrases are translated through the language pack first
+export function resolveDueDate(
+  phrase: string,
+  reference: string | Date = new Date(),
+  language?: string
+): ResolvedDueDate {
+  const ref = toDate(reference);
+  const pack = getLanguagePack(language);
+  const text = translateDatePhrase(phrase, pack)
+    .toLowerCase()
+    .trim()
+    .replace(/[.,;:!?]+$/, '')
+    .replace(/\s+/g, ' ')
+    .replace(/^(by|before|until|due|on)\s+/, '');
+
+  const result = resolvePhrase(text, ref, pack.dayFirst);
+
+  if (typeof result === 'string') {
+    return { phrase, ambiguous: result };
+  }
+
+  return { phrase, date: format(result, 'yyyy-MM-dd') };
+}
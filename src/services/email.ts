@@ -1,8 +1,21 @@
 import { google } from 'googleapis';
 import { Client } from '@microsoft/microsoft-graph-client';
 import open from 'open';
-import { loadConfig } from '../utils/config.js';
-import type { EmailDraft, ActionPoint } from '../types.js';
+import { format } from 'date-fns';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { loadConfig, getConfigDir } from '../utils/config.js';
+import { formatDigestMarkdown } from './digest.js';
+import type { ActionDigest } from './digest.js';
+import { normaliseAssignee } from './people.js';
+import { resolveEmailTemplate, renderEmailTemplate, getEmailSignature } from './emailTemplates.js';
+import { formatActionPointLine } from './actionExtractor.js';
+import { buildMimeMessage } from './mime.js';
+import { sendSmtpMessage } from './smtp.js';
+import { renderPlaceholders } from '../utils/placeholders.js';
+import { markdownToHtmlDocument, markdownToPlainText } from '../utils/markdown.js';
+import type { ActionPointWithNote } from './notes.js';
+import type { EmailDraft, EmailAttachment, EmailMethod, ActionPoint, Note } from '../types.js';
 
 // Create mailto: URL for default mail app
 function createMailtoUrl(draft: EmailDraft): string {
@@ -22,10 +35,29 @@ function createMailtoUrl(draft: EmailDraft): string {
   return `mailto:${draft.to.join(',')}?${params.toString()}`;
 }
 
+// mailto: links can't carry files, so attachments are saved for the user to add by hand
+function saveAttachments(attachments: EmailAttachment[]): string {
+  const dir = join(getConfigDir(), 'attachments', format(new Date(), 'yyyyMMdd-HHmmss'));
+  mkdirSync(dir, { recursive: true });
+
+  for (const attachment of attachments) {
+    writeFileSync(join(dir, attachment.filename), attachment.content);
+  }
+
+  return dir;
+}
+
 // Open draft in default mail app
 export async function openEmailDraft(draft: EmailDraft): Promise<string> {
   const mailtoUrl = createMailtoUrl(draft);
   await open(mailtoUrl);
+
+  if (draft.attachments?.length) {
+    const dir = saveAttachments(draft.attachments);
+    await open(dir);
+    return `Email draft opened in default mail app. Attach the files saved in ${dir}`;
+  }
+
   return 'Email draft opened in default mail app';
 }
 
@@ -48,19 +80,8 @@ export async function sendGmail(draft: EmailDraft): Promise<string> {
 
   const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
 
-  // Build email in RFC 2822 format
-  const emailLines = [
-    `To: ${draft.to.join(', ')}`,
-    draft.cc?.length ? `Cc: ${draft.cc.join(', ')}` : '',
-    draft.bcc?.length ? `Bcc: ${draft.bcc.join(', ')}` : '',
-    `Subject: ${draft.subject}`,
-    'Content-Type: text/plain; charset=utf-8',
-    '',
-    draft.body,
-  ].filter(Boolean);
-
-  const email = emailLines.join('\r\n');
-  const encodedEmail = Buffer.from(email).toString('base64url');
+  // Multipart with an HTML part when the draft has one
+  const encodedEmail = Buffer.from(buildMimeMessage(draft)).toString('base64url');
 
   const response = await gmail.users.messages.send({
     userId: 'me',
@@ -91,18 +112,7 @@ export async function createGmailDraft(draft: EmailDraft): Promise<string> {
 
   const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
 
-  const emailLines = [
-    `To: ${draft.to.join(', ')}`,
-    draft.cc?.length ? `Cc: ${draft.cc.join(', ')}` : '',
-    draft.bcc?.length ? `Bcc: ${draft.bcc.join(', ')}` : '',
-    `Subject: ${draft.subject}`,
-    'Content-Type: text/plain; charset=utf-8',
-    '',
-    draft.body,
-  ].filter(Boolean);
-
-  const email = emailLines.join('\r\n');
-  const encodedEmail = Buffer.from(email).toString('base64url');
+  const encodedEmail = Buffer.from(buildMimeMessage(draft)).toString('base64url');
 
   const response = await gmail.users.drafts.create({
     userId: 'me',
@@ -116,6 +126,16 @@ export async function createGmailDraft(draft: EmailDraft): Promise<string> {
   return `Draft created in Gmail. Draft ID: ${response.data.id}`;
 }
 
+// Graph API file attachments
+function toOutlookAttachments(attachments: EmailAttachment[]) {
+  return attachments.map(attachment => ({
+    '@odata.type': '#microsoft.graph.fileAttachment',
+    name: attachment.filename,
+    contentType: attachment.contentType,
+    contentBytes: Buffer.from(attachment.content).toString('base64'),
+  }));
+}
+
 // Send via Outlook API
 export async function sendOutlookEmail(draft: EmailDraft): Promise<string> {
   const config = loadConfig();
@@ -133,8 +153,8 @@ export async function sendOutlookEmail(draft: EmailDraft): Promise<string> {
   const message = {
     subject: draft.subject,
     body: {
-      contentType: 'Text',
-      content: draft.body,
+      contentType: draft.html ? 'HTML' : 'Text',
+      content: draft.html || draft.body,
     },
     toRecipients: draft.to.map(email => ({
       emailAddress: { address: email },
@@ -145,6 +165,7 @@ export async function sendOutlookEmail(draft: EmailDraft): Promise<string> {
     bccRecipients: draft.bcc?.map(email => ({
       emailAddress: { address: email },
     })),
+    ...(draft.attachments?.length ? { attachments: toOutlookAttachments(draft.attachments) } : {}),
   };
 
   await client.api('/me/sendMail').post({ message });
@@ -169,8 +190,8 @@ export async function createOutlookDraft(draft: EmailDraft): Promise<string> {
   const message = {
     subject: draft.subject,
     body: {
-      contentType: 'Text',
-      content: draft.body,
+      contentType: draft.html ? 'HTML' : 'Text',
+      content: draft.html || draft.body,
     },
     toRecipients: draft.to.map(email => ({
       emailAddress: { address: email },
@@ -181,6 +202,7 @@ export async function createOutlookDraft(draft: EmailDraft): Promise<string> {
     bccRecipients: draft.bcc?.map(email => ({
       emailAddress: { address: email },
     })),
+    ...(draft.attachments?.length ? { attachments: toOutlookAttachments(draft.attachments) } : {}),
   };
 
   const response = await client.api('/me/messages').post(message);
@@ -188,10 +210,65 @@ export async function createOutlookDraft(draft: EmailDraft): Promise<string> {
   return `Draft created in Outlook. Message ID: ${response.id}`;
 }
 
+// Send through an SMTP relay
+// config:set stores every value as text, so "false" must not switch a flag on
+function isEnabled(value: unknown): boolean {
+  return value === true || value === 'true';
+}
+
+export async function sendSmtpEmail(draft: EmailDraft): Promise<string> {
+  const config = loadConfig();
+
+  if (!config.smtp) {
+    throw new Error('SMTP not configured. Run: highlight-workflow config:smtp');
+  }
+
+  // Bcc recipients get the message but must not appear in its headers
+  const { bcc, ...visible } = draft;
+  const smtp = config.smtp;
+
+  const reply = await sendSmtpMessage(
+    {
+      ...smtp,
+      secure: isEnabled(smtp.secure),
+      allowSelfSigned: isEnabled(smtp.allowSelfSigned),
+      requireTLS: isEnabled(smtp.requireTLS),
+      allowInsecureAuth: isEnabled(smtp.allowInsecureAuth),
+    },
+    {
+      from: smtp.from,
+      recipients: [...draft.to, ...(draft.cc || []), ...(bcc || [])],
+      message: buildMimeMessage(visible, smtp.from),
+    }
+  );
+
+  return `Email sent via SMTP (${smtp.host}): ${reply}`;
+}
+
+// Write the message as an RFC 5322 .eml file instead of sending it
+export function writeEmlFile(draft: EmailDraft): string {
+  const config = loadConfig();
+  const dir = config.emlOutputDir || join(getConfigDir(), 'outbox');
+  mkdirSync(dir, { recursive: true });
+
+  const slug = draft.subject.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 50);
+  const base = `${format(new Date(), 'yyyyMMdd-HHmmss')}-${slug || 'email'}`;
+
+  // Several emails written in the same second must not overwrite each other
+  let filepath = join(dir, `${base}.eml`);
+  for (let i = 2; existsSync(filepath); i++) {
+    filepath = join(dir, `${base}-${i}.eml`);
+  }
+
+  writeFileSync(filepath, buildMimeMessage(draft, config.smtp?.from));
+
+  return `Email saved to ${filepath}`;
+}
+
 // Unified email interface
 export async function sendEmail(
   draft: EmailDraft,
-  method?: 'draft' | 'gmail' | 'outlook'
+  method?: EmailMethod
 ): Promise<string> {
   const config = loadConfig();
   const useMethod = method || config.defaultEmailMethod;
@@ -203,38 +280,213 @@ export async function sendEmail(
       return sendGmail(draft);
     case 'outlook':
       return sendOutlookEmail(draft);
+    case 'smtp':
+      return sendSmtpEmail(draft);
+    case 'eml':
+      return writeEmlFile(draft);
+    default:
+      return openEmailDraft(draft);
+  }
+}
+
+// Prepare the email without sending it; SMTP has no drafts, so it gets an .eml to review
+export async function createEmailDraft(draft: EmailDraft, method?: EmailMethod): Promise<string> {
+  const useMethod = method || loadConfig().defaultEmailMethod;
+
+  switch (useMethod) {
+    case 'gmail':
+      return createGmailDraft(draft);
+    case 'outlook':
+      return createOutlookDraft(draft);
+    case 'smtp':
+    case 'eml':
+      return writeEmlFile(draft);
     default:
       return openEmailDraft(draft);
   }
 }
 
+export interface EmailTemplateOptions {
+  // Email template name; defaults to the project's template for this purpose
+  template?: string;
+  project?: string;
+}
+
+// Plain-text body plus an HTML alternative rendered from the same markdown
+function renderDraftBody(markdown: string): Pick<EmailDraft, 'body' | 'html'> {
+  return {
+    body: markdownToPlainText(markdown),
+    html: markdownToHtmlDocument(markdown),
+  };
+}
+
+// Numbered action list as used in the {{actions}} placeholder
+function formatActionList(actionPoints: Array<ActionPoint & { noteTitle?: string }>, showAssignee = true): string {
+  return actionPoints
+    .map((ap, i) => {
+      let line = `${i + 1}. ${ap.description}`;
+      if (showAssignee && ap.assignee) line += ` (Assigned to: ${ap.assignee})`;
+      if (ap.dueDate) line += ` - Due: ${ap.dueDate}`;
+      if (ap.noteTitle) line += ` (from "${ap.noteTitle}")`;
+      return line;
+    })
+    .join('\n');
+}
+
 // Generate email content from action points
 export function generateActionPointsEmail(
   actionPoints: ActionPoint[],
-  subject?: string
+  subject?: string,
+  options: EmailTemplateOptions = {}
 ): EmailDraft {
   const pendingActions = actionPoints.filter(ap => ap.status !== 'completed');
+  const template = resolveEmailTemplate('actions', options.template, options.project);
+
+  const rendered = renderEmailTemplate(template, {
+    project: options.project,
+    date: format(new Date(), 'yyyy-MM-dd'),
+    actions: formatActionList(pendingActions),
+    count: String(pendingActions.length),
+  });
+
+  return {
+    to: [],
+    subject: subject || rendered.subject,
+    ...renderDraftBody(rendered.body),
+  };
+}
+
+// Generate a meeting summary email from a note
+export function generateMeetingSummaryEmail(
+  note: Note,
+  options: EmailTemplateOptions & { includeActionPoints?: boolean; subject?: string } = {}
+): EmailDraft {
+  const template = resolveEmailTemplate('summary', options.template, options.project || note.project);
+  const includeActions = options.includeActionPoints !== false && note.actionPoints.length > 0;
+
+  const rendered = renderEmailTemplate(template, {
+    title: note.title,
+    date: note.date,
+    project: note.project,
+    content: note.content.trim(),
+    // Checkbox lines so the HTML part renders them as a table
+    actions: includeActions
+      ? `---\n\n## Action Points\n\n${note.actionPoints.map(formatActionPointLine).join('\n')}`
+      : '',
+    count: String(note.actionPoints.length),
+  });
+
+  return {
+    to: [],
+    subject: options.subject || rendered.subject,
+    ...renderDraftBody(rendered.body),
+  };
+}
+
+// Render a free-form message through a template, with the text as {{content}}
+export function generateComposedEmail(
+  subject: string | undefined,
+  body: string,
+  options: EmailTemplateOptions & { variables?: Record<string, string> } = {}
+): EmailDraft {
+  const template = resolveEmailTemplate('compose', options.template, options.project);
+
+  const rendered = renderEmailTemplate(template, {
+    ...options.variables,
+    title: subject,
+    project: options.project,
+    date: format(new Date(), 'yyyy-MM-dd'),
+    // Variables also fill placeholders written in the message itself
+    content: renderPlaceholders(body, options.variables || {}),
+  });
+
+  return {
+    to: [],
+    subject: subject || rendered.subject,
+    ...renderDraftBody(rendered.body),
+  };
+}
+
+export interface AssigneeEmail {
+  assignee: string;
+  draft: EmailDraft;
+  actionPoints: ActionPointWithNote[];
+}
+
+// One personalised email per assignee, listing only their own actions
+export function generateAssigneeEmails(
+  actionPoints: ActionPointWithNote[],
+  subject?: string,
+  options: EmailTemplateOptions = {}
+): { emails: AssigneeEmail[]; missingAddresses: string[]; unassigned: number } {
+  const people = loadConfig().people || [];
+  const template = resolveEmailTemplate('assignee', options.template, options.project);
+  const byAssignee = new Map<string, ActionPointWithNote[]>();
+  let unassigned = 0;
+
+  for (const ap of actionPoints) {
+    if (ap.status === 'completed') continue;
+    if (!ap.assignee) {
+      unassigned++;
+      continue;
+    }
+
+    const handle = normaliseAssignee(ap.assignee, people);
+    byAssignee.set(handle, [...(byAssignee.get(handle) || []), ap]);
+  }
+
+  const emails: AssigneeEmail[] = [];
+  const missingAddresses: string[] = [];
+
+  for (const [assignee, items] of [...byAssignee].sort(([a], [b]) => a.localeCompare(b))) {
+    const person = people.find(p => p.handle === assignee);
+    if (!person?.email) {
+      missingAddresses.push(assignee);
+      continue;
+    }
+
+    // Earliest due date first; undated actions go last
+    const sorted = [...items].sort((a, b) => (a.dueDate || '\uffff').localeCompare(b.dueDate || '\uffff'));
+
+    const rendered = renderEmailTemplate(template, {
+      assignee: person.name?.split(' ')[0] || assignee,
+      project: options.project,
+      date: format(new Date(), 'yyyy-MM-dd'),
+      actions: formatActionList(sorted, false),
+      count: String(sorted.length),
+    });
+
+    emails.push({
+      assignee,
+      actionPoints: sorted,
+      draft: {
+        to: [person.email],
+        subject: subject || rendered.subject,
+        ...renderDraftBody(rendered.body),
+      },
+    });
+  }
+
+  return { emails, missingAddresses, unassigned };
+}
+
+// Generate the weekly digest email
+export function generateDigestEmail(digest: ActionDigest, subject?: string): EmailDraft {
+  const scope = digest.project ? ` for ${digest.project}` : '';
 
   const body = [
     'Hi,',
     '',
-    'Here are the action points from our recent meeting:',
-    '',
-    ...pendingActions.map((ap, i) => {
-      let line = `${i + 1}. ${ap.description}`;
-      if (ap.assignee) line += ` (Assigned to: ${ap.assignee})`;
-      if (ap.dueDate) line += ` - Due: ${ap.dueDate}`;
-      return line;
-    }),
+    `Here is the action point digest${scope} as of ${digest.date}:`,
     '',
-    'Please review and let me know if you have any questions.',
+    formatDigestMarkdown(digest).replace(/^# .*\n\n/, '').trim(),
     '',
-    'Best regards',
+    getEmailSignature(),
   ].join('\n');
 
   return {
     to: [],
-    subject: subject || 'Action Points - Meeting Follow-up',
-    body,
+    subject: subject || `Action Digest - ${digest.date}${digest.project ? ` (${digest.project})` : ''}`,
+    ...renderDraftBody(body),
   };
 }
@@ -0,0 +1,192 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync, readdirSync } from 'fs';
+import { join, basename } from 'path';
+import matter from 'gray-matter';
+import { getConfigDir, getProject, loadConfig } from '../utils/config.js';
+import { renderPlaceholders } from '../utils/placeholders.js';
+import type { EmailTemplatePurpose } from '../types.js';
+
+export interface EmailTemplate {
+  name: string;
+  description: string;
+  subject: string;
+  body: string;
+}
+
+// Placeholders every email template can use; unset ones render empty
+export interface EmailTemplateVariables {
+  title?: string;
+  date?: string;
+  project?: string;
+  content?: string;
+  actions?: string;
+  count?: string;
+  assignee?: string;
+  signature?: string;
+  sender?: string;
+  [key: string]: string | undefined;
+}
+
+export const EMAIL_TEMPLATE_PURPOSES: EmailTemplatePurpose[] = ['actions', 'summary', 'assignee', 'compose'];
+
+// Built-in template used for each purpose when neither the call nor the project names one
+const DEFAULT_TEMPLATE_NAMES: Record<EmailTemplatePurpose, string> = {
+  actions: 'action-points',
+  summary: 'meeting-summary',
+  assignee: 'assignee-actions',
+  compose: 'plain',
+};
+
+const DEFAULT_SIGNATURE = 'Best regards';
+
+const DEFAULT_EMAIL_TEMPLATES: EmailTemplate[] = [
+  {
+    name: 'action-points',
+    description: 'Pending action points for the whole team',
+    subject: 'Action Points - Meeting Follow-up',
+    body: [
+      'Hi,',
+      '',
+      'Here are the action points from our recent meeting:',
+      '',
+      '{{actions}}',
+      '',
+      'Please review and let me know if you have any questions.',
+      '',
+      '{{signature}}',
+    ].join('\n'),
+  },
+  {
+    name: 'meeting-summary',
+    description: 'Meeting notes with their action points',
+    subject: 'Meeting Summary: {{title}}',
+    body: [
+      'Hi,',
+      '',
+      "Here's a summary from our meeting on {{date}}:",
+      '',
+      '{{content}}',
+      '',
+      '{{actions}}',
+      '',
+      '{{signature}}',
+    ].join('\n'),
+  },
+  {
+    name: 'assignee-actions',
+    description: 'One person\'s own action points',
+    subject: 'Your Action Points - Meeting Follow-up',
+    body: [
+      'Hi {{assignee}},',
+      '',
+      'Here are the action points assigned to you ({{count}}):',
+      '',
+      '{{actions}}',
+      '',
+      'Please let me know if any of these have changed.',
+      '',
+      '{{signature}}',
+    ].join('\n'),
+  },
+  {
+    name: 'plain',
+    description: 'The message as written, followed by the signature',
+    subject: '{{title}}',
+    body: ['{{content}}', '', '{{signature}}'].join('\n'),
+  },
+];
+
+function getEmailTemplatesDir(): string {
+  return join(getConfigDir(), 'email-templates');
+}
+
+function templateToMarkdown(template: EmailTemplate): string {
+  return matter.stringify(template.body, {
+    name: template.name,
+    description: template.description,
+    subject: template.subject,
+  });
+}
+
+// Write the built-in templates on first use so they can be edited in place
+function ensureEmailTemplatesDir(): string {
+  const dir = getEmailTemplatesDir();
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+    for (const template of DEFAULT_EMAIL_TEMPLATES) {
+      writeFileSync(join(dir, `${template.name}.md`), templateToMarkdown(template));
+    }
+  }
+  return dir;
+}
+
+function parseEmailTemplate(filepath: string): EmailTemplate {
+  const parsed = matter(readFileSync(filepath, 'utf-8'));
+  const data = parsed.data as Partial<EmailTemplate>;
+
+  return {
+    name: data.name || basename(filepath, '.md'),
+    description: data.description || '',
+    subject: data.subject || '',
+    body: parsed.content.trim(),
+  };
+}
+
+export function listEmailTemplates(): EmailTemplate[] {
+  const dir = ensureEmailTemplatesDir();
+  return readdirSync(dir)
+    .filter(f => f.endsWith('.md'))
+    .map(f => parseEmailTemplate(join(dir, f)));
+}
+
+export function getEmailTemplate(name: string): EmailTemplate | undefined {
+  return listEmailTemplates().find(t => t.name === name);
+}
+
+// An explicit name wins, then the project's default for this purpose, then the built-in one
+export function resolveEmailTemplate(purpose: EmailTemplatePurpose, name?: string, projectName?: string): EmailTemplate {
+  const projectDefault = projectName ? getProject(projectName)?.emailTemplates?.[purpose] : undefined;
+  const templateName = name || projectDefault || DEFAULT_TEMPLATE_NAMES[purpose];
+
+  const template = getEmailTemplate(templateName);
+  if (template) {
+    return template;
+  }
+
+  // Someone may have deleted a built-in template file; fall back to the shipped copy
+  const builtIn = DEFAULT_EMAIL_TEMPLATES.find(t => t.name === templateName);
+  if (builtIn) {
+    return builtIn;
+  }
+
+  throw new Error(`Email template "${templateName}" not found`);
+}
+
+export function getEmailSignature(): string {
+  return loadConfig().emailSignature || DEFAULT_SIGNATURE;
+}
+
+export function renderEmailTemplate(
+  template: EmailTemplate,
+  variables: EmailTemplateVariables
+): { subject: string; body: string } {
+  const values: EmailTemplateVariables = {
+    title: '',
+    date: '',
+    project: '',
+    content: '',
+    actions: '',
+    count: '',
+    assignee: '',
+    signature: getEmailSignature(),
+    sender: loadConfig().userName || '',
+  };
+  for (const [key, value] of Object.entries(variables)) {
+    if (value !== undefined) values[key] = value;
+  }
+
+  return {
+    subject: renderPlaceholders(template.subject, values).trim(),
+    // Empty placeholders would otherwise leave runs of blank lines
+    body: renderPlaceholders(template.body, values).replace(/\n{3,}/g, '\n\n').trim(),
+  };
+}
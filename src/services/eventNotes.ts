@@ -0,0 +1,122 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { loadConfig } from '../utils/config.js';
+import { htmlToPlainText } from '../utils/markdown.js';
+import { todayInTimeZone } from '../utils/timezone.js';
+import { getCalendarEvent, listCalendarEvents } from './calendar.js';
+import { createNote } from './notes.js';
+import type { CreateNoteOptions } from './notes.js';
+import { findPerson } from './people.js';
+import type { CalendarEvent, Note } from '../types.js';
+
+export interface MeetingQuery {
+  eventId?: string;
+  // Day to look on (YYYY-MM-DD, defaults to today)
+  date?: string;
+  // Part of the event title, case-insensitive
+  title?: string;
+  provider?: string;
+}
+
+export interface NoteFromEventOptions extends Pick<CreateNoteOptions, 'template' | 'lang'> {
+  provider?: string;
+  // Note title, defaults to the event title
+  title?: string;
+  tags?: string[];
+}
+
+// Events matching the query; an event ID is looked up directly, otherwise the day is searched
+export async function findMeetings(query: MeetingQuery = {}): Promise<CalendarEvent[]> {
+  const provider = query.provider || loadConfig().defaultCalendar;
+
+  if (query.eventId) {
+    const event = await getCalendarEvent({ provider, eventId: query.eventId });
+    return event ? [{ ...event, id: event.id || query.eventId }] : [];
+  }
+
+  // The day runs from midnight to midnight in the configured timezone
+  const day = query.date || todayInTimeZone();
+  const events = await listCalendarEvents(day, format(addDays(parseISO(day), 1), 'yyyy-MM-dd'), provider);
+  const title = query.title?.toLowerCase();
+
+  return title ? events.filter(e => e.title.toLowerCase().includes(title)) : events;
+}
+
+// "09:30 Weekly sync" for pickers and lists, in the event's own timezone
+export function formatMeetingLine(event: CalendarEvent): string {
+  const time = event.startTime.includes('T') ? event.startTime.substring(11, 16) : 'all day';
+  return `${time} ${event.title}`;
+}
+
+// Attendees by directory handle where known, so later emails resolve through the directory
+function eventAttendees(event: CalendarEvent): string[] {
+  return [...new Set((event.attendees || []).map(email => findPerson(email)?.handle || email))];
+}
+
+function eventNoteContent(event: CalendarEvent, attendees: string[], withAttendees: boolean): string {
+  const lines: string[] = [];
+
+  if (withAttendees && attendees.length > 0) {
+    lines.push(`**Attendees:** ${attendees.join(', ')}`);
+  }
+  if (event.location) {
+    lines.push(`**Location:** ${event.location}`);
+  }
+  if (lines.length > 0) {
+    lines.push('');
+  }
+
+  const agenda = htmlToPlainText(event.description || '');
+  if (agenda) {
+    lines.push('## Agenda', '', agenda, '');
+  }
+
+  lines.push('## Notes', '');
+
+  return lines.join('\n');
+}
+
+// Start a note for a meeting with its details filled in and a link back to the event
+export async function createNoteFromEvent(
+  projectName: string,
+  event: CalendarEvent,
+  options: NoteFromEventOptions = {}
+): Promise<Note> {
+  const provider = options.provider || loadConfig().defaultCalendar;
+  const attendees = eventAttendees(event);
+
+  // Templates render {{attendees}} themselves
+  return createNote(
+    projectName,
+    options.title || event.title,
+    eventNoteContent(event, attendees, !options.template),
+    [...new Set(['meeting', ...(options.tags || [])])],
+    {
+      date: event.startTime.substring(0, 10) || undefined,
+      template: options.template,
+      attendees,
+      lang: options.lang,
+      ...(event.location ? { location: event.location } : {}),
+      ...(event.id ? { calendarEvent: { provider, eventId: event.id } } : {}),
+      variables: {
+        location: event.location || '',
+        agenda: htmlToPlainText(event.description || ''),
+      },
+    }
+  );
+}
+
+// Who a note's emails go to: the linked event's current attendees, else the note's own list
+export async function getMeetingRecipients(note: Note): Promise<string[]> {
+  if (note.calendarEvent) {
+    try {
+      const event = await getCalendarEvent(note.calendarEvent);
+      if (event?.attendees?.length) {
+        return event.attendees;
+      }
+    } catch {
+      // Calendar unreachable; the attendees stored on the note still apply
+    }
+  }
+
+  return note.attendees || [];
+}
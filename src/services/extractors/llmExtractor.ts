@@ -0,0 +1,118 @@
+import { z } from 'zod';
+import { resolveDueDate } from '../dueDates.js';
+import type { ActionExtractor, ExtractedAction } from '../actionExtractor.js';
+import type { ExtractorConfig } from '../../types.js';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+// Used when the model leaves out a confidence score
+const DEFAULT_CONFIDENCE = 0.8;
+
+const SYSTEM_PROMPT = [
+  'You extract action points from meeting notes.',
+  'Reply with a JSON object of the form {"actionPoints": [{"description": string, "assignee": string | null, "dueDate": string | null, "priority": "low" | "medium" | "high", "confidence": number, "source": string}]}.',
+  'description is a short imperative sentence. assignee is the person responsible, without a leading @.',
+  'Lines like "**[00:01:02] Sarah:** I\'ll send it" are transcript turns; the speaker owns what they commit to.',
+  'Notes may be in any language. Keep descriptions in the language of the notes.',
+  'dueDate is the deadline exactly as written in the notes (e.g. "next friday" or "volgende vrijdag"), or null.',
+  'confidence is between 0 and 1: how sure you are this is a real commitment rather than an idea.',
+  'source is the exact text from the notes the action was taken from.',
+  'Only include concrete tasks someone agreed to do. Reply with {"actionPoints": []} if there are none.',
+].join('\n');
+
+const llmResponseSchema = z.object({
+  actionPoints: z.array(
+    z.object({
+      description: z.string().min(1),
+      assignee: z.string().nullish(),
+      dueDate: z.string().nullish(),
+      priority: z.enum(['low', 'medium', 'high']).catch('medium'),
+      confidence: z.number().min(0).max(1).catch(DEFAULT_CONFIDENCE),
+      source: z.string().nullish(),
+    })
+  ),
+});
+
+interface ChatCompletion {
+  choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+// Models sometimes wrap JSON in a markdown code fence despite response_format
+function parseJson(text: string): unknown {
+  const unfenced = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(unfenced);
+  } catch {
+    throw new Error('LLM response was not valid JSON');
+  }
+}
+
+export function createLlmExtractor(config: ExtractorConfig): ActionExtractor {
+  const llm = config.llm;
+  if (!llm?.baseUrl || !llm.model) {
+    throw new Error('LLM extractor not configured. Run: highlight-workflow config:set extractor.llm.baseUrl <url>');
+  }
+
+  const baseUrl = llm.baseUrl.replace(/\/+$/, '');
+  const timeoutMs = Number(llm.timeoutMs) || DEFAULT_TIMEOUT_MS;
+
+  return {
+    name: 'llm',
+
+    async extract(content, options) {
+      if (!content.trim()) {
+        return [];
+      }
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(llm.apiKey ? { Authorization: `Bearer ${llm.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: llm.model,
+          temperature: 0,
+          response_format: { type: 'json_object' },
+          messages: [
+            { role: 'system', content: SYSTEM_PROMPT },
+            { role: 'user', content },
+          ],
+        }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      if (!response.ok) {
+        throw new Error(`LLM API error ${response.status}: ${await response.text()}`);
+      }
+
+      const completion = (await response.json()) as ChatCompletion;
+      const message = completion.choices?.[0]?.message?.content;
+      if (!message) {
+        throw new Error('LLM response had no message content');
+      }
+
+      const parsed = llmResponseSchema.safeParse(parseJson(message));
+      if (!parsed.success) {
+        throw new Error(`LLM response did not match the expected shape: ${parsed.error.issues[0]?.message}`);
+      }
+
+      return parsed.data.actionPoints.map((item): ExtractedAction => {
+        const due = item.dueDate ? resolveDueDate(item.dueDate, options.referenceDate, options.language) : undefined;
+        const start = item.source ? content.indexOf(item.source) : -1;
+
+        return {
+          description: item.description.trim(),
+          ...(item.assignee ? { assignee: item.assignee.replace(/^@/, '').trim() } : {}),
+          dueDate: due?.date,
+          dueDatePhrase: due?.phrase,
+          dueDateIssue: due?.ambiguous,
+          priority: item.priority,
+          confidence: item.confidence,
+          ...(start >= 0 && item.source
+            ? { sourceSpan: { start, end: start + item.source.length, text: item.source } }
+            : {}),
+        };
+      });
+    },
+  };
+}
@@ -0,0 +1,132 @@
+import { resolveDueDate } from '../dueDates.js';
+import { getLanguagePack, isNoteLabel } from '../languages/index.js';
+import type { LanguagePack } from '../languages/index.js';
+import type { ActionExtractor, ExtractedAction, ExtractOptions } from '../actionExtractor.js';
+
+// Transcript turns as rendered on import: "**[00:01:02] Sarah:** ..."
+const SPEAKER_LINE = /^\*\*(?:\[[\d:]+\]\s+)?([^*]+?):\*\*/;
+
+function detectPriority(text: string, pack: LanguagePack): 'low' | 'medium' | 'high' {
+  const lowerText = text.toLowerCase();
+
+  for (const keyword of pack.priorityKeywords.high) {
+    if (lowerText.includes(keyword)) return 'high';
+  }
+
+  for (const keyword of pack.priorityKeywords.medium) {
+    if (lowerText.includes(keyword)) return 'medium';
+  }
+
+  for (const keyword of pack.priorityKeywords.low) {
+    if (lowerText.includes(keyword)) return 'low';
+  }
+
+  return 'medium';
+}
+
+function extractAssignee(text: string, pack: LanguagePack): string | undefined {
+  for (const pattern of pack.assigneePatterns) {
+    const match = text.match(pattern);
+    if (match && match[1]) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+function extractDueDate(text: string, pack: LanguagePack): string | undefined {
+  for (const pattern of pack.datePatterns) {
+    const match = text.match(pattern);
+    if (match && match[1]) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+// Bold labels such as "**Decision:**" look like speakers but are not
+function speakerAt(content: string, index: number): string | undefined {
+  const lineStart = content.lastIndexOf('\n', index) + 1;
+  const speaker = content.substring(lineStart).match(SPEAKER_LINE)?.[1];
+  return speaker && !isNoteLabel(speaker) ? speaker : undefined;
+}
+
+function scoreConfidence(
+  base: number,
+  rawText: string,
+  pack: LanguagePack,
+  assignee?: string,
+  dueDate?: string
+): number {
+  let score = base;
+  if (assignee) score += 0.1;
+  if (dueDate) score += 0.1;
+  if (pack.hedgeWords.test(rawText)) score -= 0.3;
+  return Math.round(Math.min(1, Math.max(0, score)) * 100) / 100;
+}
+
+function cleanDescription(text: string): string {
+  return text
+    .replace(/@[\p{L}\w]+(?:[.-][\p{L}\w]+)*/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function extractWithPatterns(content: string, options: ExtractOptions = {}): ExtractedAction[] {
+  const actions: ExtractedAction[] = [];
+  const seen = new Set<string>();
+  const pack = getLanguagePack(options.language);
+
+  for (const pattern of pack.actionPatterns) {
+    let match;
+    const regex = new RegExp(pattern.regex.source, pattern.regex.flags);
+
+    while ((match = regex.exec(content)) !== null) {
+      const rawText = match[1] || match[2] || match[0];
+      const description = cleanDescription(rawText);
+
+      // Skip duplicates and very short items
+      if (seen.has(description.toLowerCase()) || description.length < 10) {
+        continue;
+      }
+
+      seen.add(description.toLowerCase());
+
+      const phrase = extractDueDate(rawText, pack);
+      const due = phrase ? resolveDueDate(phrase, options.referenceDate, pack.code) : undefined;
+
+      // In transcripts, whoever says "I'll ..." owns the action; other lines keep what they name
+      let assignee = extractAssignee(rawText, pack);
+      const speaker = speakerAt(content, match.index);
+      if (speaker && pack.firstPersonCommitment.test(match[0])) {
+        assignee = speaker;
+      }
+
+      actions.push({
+        description,
+        assignee,
+        dueDate: due?.date,
+        dueDatePhrase: due?.phrase,
+        dueDateIssue: due?.ambiguous,
+        priority: detectPriority(rawText, pack),
+        confidence: scoreConfidence(pattern.confidence, rawText, pack, assignee, due?.date),
+        sourceSpan: {
+          start: match.index,
+          end: match.index + match[0].length,
+          text: match[0].trim(),
+        },
+      });
+    }
+  }
+
+  return actions;
+}
+
+export function createRegexExtractor(): ActionExtractor {
+  return {
+    name: 'regex',
+    async extract(content, options) {
+      return extractWithPatterns(content, options);
+    },
+  };
+}
@@ -0,0 +1,252 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { hasOffset, isValidTimeZone, parseInTimeZone } from '../utils/timezone.js';
+import { isIsoDate } from './dueDates.js';
+import type { ActionPoint, CalendarEvent } from '../types.js';
+
+const PRODUCT_ID = '-//Highlight Workflow//Action Points//EN';
+
+// RFC 5545 text escaping
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Content lines are folded at 75 octets, continuation lines start with a space
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line);
+  if (bytes.length <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+// Times with an offset are written in UTC; without one they stay floating, as they were given
+function formatDateTime(value: string): string {
+  return hasOffset(value) ? formatStamp(parseISO(value)) : format(parseISO(value), "yyyyMMdd'T'HHmmss");
+}
+
+// All-day events carry a bare date, timed events a local date-time
+function dateProperty(name: string, value: string): string {
+  return value.includes('T')
+    ? `${name}:${formatDateTime(value)}`
+    : `${name};VALUE=DATE:${value.replace(/-/g, '')}`;
+}
+
+function formatStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Calendars this tool wrote itself, as opposed to ones exported from another app
+export function isOwnCalendar(text: string): boolean {
+  return text.split(/\r?\n/).some(line => line.trim() === `PRODID:${PRODUCT_ID}`);
+}
+
+// CalDAV resources must not carry a METHOD, published files should
+function wrapCalendar(components: string[][], publish = true): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    ...(publish ? ['METHOD:PUBLISH'] : []),
+    ...components.flat(),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// Timed events, e.g. the same events that would be created in Google or Outlook
+export function calendarEventsToIcs(
+  events: Array<CalendarEvent & { uid?: string }>,
+  options: { publish?: boolean } = {}
+): string {
+  const stamp = formatStamp(new Date());
+
+  return wrapCalendar(
+    events.map((event, i) => [
+      'BEGIN:VEVENT',
+      `UID:${event.uid || event.id || `${stamp}-${i}@highlight-workflow`}`,
+      `DTSTAMP:${stamp}`,
+      dateProperty('DTSTART', event.startTime),
+      dateProperty('DTEND', event.endTime),
+      `SUMMARY:${escapeText(event.title)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      ...(event.attendees || []).map(email => `ATTENDEE;RSVP=TRUE:mailto:${email}`),
+      ...(event.transparent ? ['TRANSP:TRANSPARENT'] : []),
+      'END:VEVENT',
+    ]),
+    options.publish !== false
+  );
+}
+
+// The ISO date an action's entry goes on; free-text due dates that were not resolved have none
+function icsDueDate(actionPoint: ActionPoint & { resolvedDueDate?: string }): string | undefined {
+  const due = actionPoint.resolvedDueDate ?? actionPoint.dueDate;
+  return actionPoint.status !== 'completed' && due && isIsoDate(due) ? due : undefined;
+}
+
+export function hasIcsEntries(actionPoints: Array<ActionPoint & { resolvedDueDate?: string }>): boolean {
+  return actionPoints.some(ap => icsDueDate(ap));
+}
+
+// One all-day entry per open action on its due date; undated actions have nowhere to go
+export function actionPointsToIcs(actionPoints: Array<ActionPoint & { resolvedDueDate?: string }>): string {
+  const stamp = formatStamp(new Date());
+
+  return wrapCalendar(
+    actionPoints
+      .filter(ap => icsDueDate(ap))
+      .map(ap => {
+        const due = parseISO(icsDueDate(ap)!);
+        const description = [
+          `Priority: ${ap.priority}`,
+          `Assignee: ${ap.assignee || 'Unassigned'}`,
+          '',
+          ap.description,
+        ].join('\n');
+
+        return [
+          'BEGIN:VEVENT',
+          `UID:${ap.id}@highlight-workflow`,
+          `DTSTAMP:${stamp}`,
+          `DTSTART;VALUE=DATE:${format(due, 'yyyyMMdd')}`,
+          `DTEND;VALUE=DATE:${format(addDays(due, 1), 'yyyyMMdd')}`,
+          `SUMMARY:${escapeText(`[Action] ${ap.description}`)}`,
+          `DESCRIPTION:${escapeText(description)}`,
+          'TRANSP:TRANSPARENT',
+          'END:VEVENT',
+        ];
+      })
+  );
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+// "DTSTART;TZID=Europe/Amsterdam:20261019T093000"; parameter values may be quoted and contain colons
+function parseProperty(line: string): IcsProperty | undefined {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return undefined;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+// 20261019 -> 2026-10-19, 20261019T093000Z -> 2026-10-19T09:30:00Z; TZID times become UTC
+function parseDateValue(value: string, timeZone?: string): string {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return value;
+
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  if (!match[4]) return date;
+
+  const time = `${date}T${match[4]}:${match[5]}:${match[6]}`;
+  if (match[7]) return `${time}Z`;
+
+  // Windows zone names and the like can't be resolved, so those times stay floating
+  return timeZone && isValidTimeZone(timeZone)
+    ? parseInTimeZone(time, timeZone).toISOString().replace(/\.\d{3}Z$/, 'Z')
+    : time;
+}
+
+// Events in an iCalendar file; cancelled events are left out and recurrences are not expanded
+export function icsToCalendarEvents(text: string): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+  let current: (CalendarEvent & { cancelled?: boolean }) | undefined;
+  // Depth of components inside the current event, such as VALARM
+  let nested = 0;
+
+  for (const line of text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)) {
+    const property = parseProperty(line);
+    if (!property) continue;
+    const { name, params, value } = property;
+
+    if (name === 'BEGIN' && value === 'VEVENT') {
+      current = { title: 'Untitled', startTime: '', endTime: '' };
+      nested = 0;
+    } else if (!current) {
+      continue;
+    } else if (name === 'END' && value === 'VEVENT') {
+      const { cancelled, ...event } = current;
+      if (!cancelled && event.startTime) {
+        events.push({ ...event, endTime: event.endTime || event.startTime });
+      }
+      current = undefined;
+    } else if (name === 'BEGIN') {
+      nested++;
+    } else if (name === 'END') {
+      nested--;
+    } else if (nested === 0) {
+      switch (name) {
+        case 'UID':
+          current.id = value;
+          break;
+        case 'SUMMARY':
+          current.title = unescapeText(value) || 'Untitled';
+          break;
+        case 'DESCRIPTION':
+          current.description = unescapeText(value);
+          break;
+        case 'LOCATION':
+          current.location = unescapeText(value);
+          break;
+        case 'DTSTART':
+          current.startTime = parseDateValue(value, params.TZID);
+          break;
+        case 'DTEND':
+          current.endTime = parseDateValue(value, params.TZID);
+          break;
+        case 'ATTENDEE':
+          current.attendees = [...(current.attendees || []), value.replace(/^mailto:/i, '')];
+          break;
+        case 'STATUS':
+          current.cancelled = value.toUpperCase() === 'CANCELLED';
+          break;
+        case 'TRANSP':
+          if (value.toUpperCase() === 'TRANSPARENT') current.transparent = true;
+          break;
+      }
+    }
+  }
+
+  return events;
+}
@@ -0,0 +1,143 @@
+import type { LanguagePack } from './index.js';
+
+// Phrases a speaker uses to take on a task themselves
+const COMMITMENT = 'ich werde|ich kümmere mich um|ich übernehme|ich mache';
+
+export const german: LanguagePack = {
+  code: 'de',
+  name: 'Deutsch',
+
+  commonWords: [
+    'der', 'die', 'das', 'und', 'ist', 'nicht', 'wir', 'mit', 'für', 'ich',
+    'ein', 'eine', 'zu', 'auch', 'den', 'wird', 'sind', 'auf', 'dem', 'sich',
+  ],
+
+  stopwords: [
+    'der', 'die', 'das', 'ein', 'eine', 'einen', 'einem', 'einer', 'und', 'oder',
+    'aber', 'in', 'im', 'an', 'am', 'auf', 'zu', 'zum', 'zur', 'für', 'von',
+    'vom', 'mit', 'bei', 'aus', 'als', 'ist', 'war', 'sind', 'waren', 'sein',
+    'gewesen', 'haben', 'hat', 'hatte', 'wird', 'werden', 'wurde', 'würde',
+    'kann', 'können', 'könnte', 'muss', 'müssen', 'soll', 'sollen', 'sollte',
+    'darf', 'will', 'dies', 'diese', 'dieser', 'dieses', 'ich', 'du', 'er',
+    'sie', 'es', 'wir', 'ihr', 'was', 'welche', 'wer', 'wo', 'wann', 'warum',
+    'wie', 'alle', 'jede', 'beide', 'mehr', 'meiste', 'andere', 'einige', 'kein',
+    'keine', 'nicht', 'nur', 'selbst', 'so', 'dann', 'zu', 'sehr', 'auch',
+    'jetzt', 'hier', 'dort', 'noch', 'schon', 'den', 'dem', 'des', 'sich',
+  ],
+
+  firstPersonCommitment: new RegExp(String.raw`(?<!\p{L})(?:${COMMITMENT})(?!\p{L})`, 'iu'),
+
+  labels: [
+    'aktion', 'aktionen', 'aufgabe', 'aufgaben', 'maßnahme', 'notiz', 'notizen', 'entscheidung',
+    'entscheidungen', 'datum', 'zeit', 'teilnehmer', 'agenda', 'zusammenfassung', 'ort', 'thema',
+    'betreff', 'frage', 'antwort',
+  ],
+
+  actionPatterns: [
+    // "Aktion: ...", "Aufgabe: ...", "TODO: ..."
+    { regex: /(?:aktion|aufgabe|maßnahme|todo|to-do):\s*(.+?)(?:\n|$)/gi, confidence: 0.9 },
+    // Bullet points starting with a modal verb
+    { regex: /^[ \t]*[-*]\s+((?:muss|müssen|soll|sollen|sollte|wird|werden)\s+.+?)(?:\n|$)/gim, confidence: 0.55 },
+    // "@person wird..." or "@person soll..."
+    { regex: /@([\p{L}\w]+(?:[.-][\p{L}\w]+)*)\s+(?:wird|soll|muss)\s+(.+?)(?:\n|$)/giu, confidence: 0.85 },
+    // Imperatives: "Schick ...", "Plane ...", "Ruf ... an"
+    {
+      regex: /^[ \t]*[-*]\s+((?:schick|sende|plane|ruf|prüfe|kläre|bestätige|bereite|erstelle|aktualisiere|bespreche|buche)\s+.+?)(?:\n|$)/gim,
+      confidence: 0.65,
+    },
+    // Infinitive at the end: "Angebot schicken", "Termin planen"
+    {
+      regex: /^[ \t]*[-*]\s+(.+?\s(?:schicken|senden|verschicken|planen|einplanen|anrufen|prüfen|klären|bestätigen|vorbereiten|erstellen|aktualisieren|besprechen|buchen|nachfassen|abstimmen))[.!]?[ \t]*(?:\n|$)/gim,
+      confidence: 0.65,
+    },
+    // Deadline patterns: "bis Freitag", "spätestens nächste Woche"
+    { regex: /^[ \t]*[-*]\s+(.+?)\s+(?:bis|vor|spätestens)\s+([\p{L}\w.]+(?:\s+[\p{L}\w]+)?)/gimu, confidence: 0.6 },
+    // Spoken commitments: "Ich werde ...", "Ich kümmere mich um ..."
+    {
+      regex: new RegExp(String.raw`(?<!\p{L})(?:${COMMITMENT})\s+(.+?)(?:[.!?](?=\s|$)|\n|$)`, 'giu'),
+      confidence: 0.7,
+    },
+  ],
+
+  assigneePatterns: [
+    /@([\p{L}\w]+(?:[.-][\p{L}\w]+)*)/u,
+    /zugewiesen an ([\p{L}\w]+)/iu,
+    /([\p{L}\w]+) wird/u,
+    /([\p{L}\w]+) ist verantwortlich/iu,
+    /([\p{L}\w]+) kümmert sich/iu,
+  ],
+
+  datePatterns: [
+    /(\d{4}-\d{2}-\d{2})/,
+    /(?:bis|vor|spätestens|am)\s*(\d{1,2}[/.]\d{1,2}(?:[/.]\d{2,4})?)/i,
+    /(\d{1,2}\.? (?:januar|februar|märz|april|mai|juni|juli|august|september|oktober|november|dezember)(?: \d{4})?)/i,
+    /(in (?:\d+|einer|einem|zwei|drei|vier|fünf) (?:tagen|tag|wochen|woche|monaten|monat))/i,
+    /((?:nächsten|nächste|kommenden|kommende|diesen|am) (?:montag|dienstag|mittwoch|donnerstag|freitag|samstag|sonntag))/i,
+    /(ende (?:der|dieser) woche|ende des monats|monatsende|nächste woche|diese woche|nächsten monat)/i,
+    /(übermorgen|heute|morgen|montag|dienstag|mittwoch|donnerstag|freitag|samstag|sonntag)/i,
+  ],
+
+  hedgeWords: /(?<!\p{L})(?:vielleicht|eventuell|möglicherweise|könnte|irgendwann|nachdenken über)(?!\p{L})/iu,
+
+  priorityKeywords: {
+    high: ['dringend', 'asap', 'sofort', 'umgehend', 'kritisch', 'priorität', 'wichtig', 'heute'],
+    medium: ['bald', 'diese woche', 'nächsten tage'],
+    low: ['irgendwann', 'wenn möglich', 'niedrige priorität', 'nice to have'],
+  },
+
+  dateVocabulary: {
+    heute: 'today',
+    morgen: 'tomorrow',
+    übermorgen: 'day after tomorrow',
+    'ende der woche': 'end of week',
+    'ende dieser woche': 'end of week',
+    'ende des monats': 'end of month',
+    'ende diesen monats': 'end of month',
+    monatsende: 'end of month',
+    nächste: 'next',
+    nächsten: 'next',
+    nächster: 'next',
+    // "kommenden Freitag" is the first Friday coming up
+    kommende: '',
+    kommenden: '',
+    diese: 'this',
+    diesen: 'this',
+    dieser: 'this',
+    bis: 'by',
+    spätestens: 'by',
+    vor: 'before',
+    am: 'on',
+    tag: 'day',
+    tage: 'days',
+    tagen: 'days',
+    woche: 'week',
+    wochen: 'weeks',
+    monat: 'month',
+    monate: 'months',
+    monaten: 'months',
+    ein: 'a',
+    eine: 'a',
+    einer: 'a',
+    einem: 'a',
+    einen: 'a',
+    zwei: 'two',
+    drei: 'three',
+    vier: 'four',
+    fünf: 'five',
+    montag: 'monday',
+    dienstag: 'tuesday',
+    mittwoch: 'wednesday',
+    donnerstag: 'thursday',
+    freitag: 'friday',
+    samstag: 'saturday',
+    sonntag: 'sunday',
+    januar: 'january',
+    februar: 'february',
+    märz: 'march',
+    mai: 'may',
+    oktober: 'october',
+    dezember: 'december',
+  },
+
+  dayFirst: true,
+};
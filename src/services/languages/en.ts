@@ -0,0 +1,81 @@
+import type { LanguagePack } from './index.js';
+
+// First-person promises, shared by the spoken-commitment pattern and speaker attribution
+const COMMITMENT = String.raw`I['’]ll|I will|I['’]m going to`;
+
+export const english: LanguagePack = {
+  code: 'en',
+  name: 'English',
+
+  commonWords: [
+    'the', 'and', 'is', 'are', 'was', 'we', 'will', 'to', 'of', 'that', 'this',
+    'with', 'for', 'it', 'be', 'have', 'not', 'on', 'you', 'they',
+  ],
+
+  stopwords: [
+    'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for',
+    'of', 'with', 'by', 'from', 'as', 'is', 'was', 'are', 'were', 'been',
+    'be', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could',
+    'should', 'may', 'might', 'must', 'shall', 'can', 'need', 'dare', 'ought',
+    'used', 'this', 'that', 'these', 'those', 'i', 'you', 'he', 'she', 'it',
+    'we', 'they', 'what', 'which', 'who', 'whom', 'whose', 'where', 'when',
+    'why', 'how', 'all', 'each', 'every', 'both', 'few', 'more', 'most',
+    'other', 'some', 'such', 'no', 'nor', 'not', 'only', 'own', 'same', 'so',
+    'than', 'too', 'very', 'just', 'also', 'now', 'here', 'there', 'then',
+  ],
+
+  firstPersonCommitment: new RegExp(String.raw`\b(?:${COMMITMENT})\b`, 'i'),
+
+  labels: [
+    'action', 'actions', 'action item', 'action items', 'action point', 'todo', 'to-do', 'task',
+    'note', 'notes', 'decision', 'decisions', 'date', 'time', 'attendees', 'agenda', 'summary',
+    'location', 'subject', 'topic', 'question', 'answer', 'next steps', 'follow-up', 'update', 'status',
+  ],
+
+  actionPatterns: [
+    // Direct action items: "Action: ...", "TODO: ...", "Task: ..."
+    { regex: /(?:action|todo|task|to-do):\s*(.+?)(?:\n|$)/gi, confidence: 0.9 },
+    // Bullet points with action verbs
+    { regex: /^[ \t]*[-*]\s+((?:need to|should|must|will|going to|have to)\s+.+?)(?:\n|$)/gim, confidence: 0.55 },
+    // "@person will..." or "@person to..."
+    { regex: /@(\w+(?:[.-]\w+)*)\s+(?:will|to|should)\s+(.+?)(?:\n|$)/gi, confidence: 0.85 },
+    // "Follow up on...", "Schedule...", "Send...", etc.
+    {
+      regex: /^[ \t]*[-*]\s+((?:follow up|schedule|send|review|prepare|create|update|check|confirm|contact|call|email|meet with|discuss)\s+.+?)(?:\n|$)/gim,
+      confidence: 0.65,
+    },
+    // Deadline patterns: "by Friday", "before next week"
+    { regex: /^[ \t]*[-*]\s+(.+?)\s+(?:by|before|until|due)\s+(\w+(?:\s+\w+)?)/gim, confidence: 0.6 },
+    // Spoken commitments: "I'll take care of ...", "I will send ..."
+    { regex: new RegExp(String.raw`\b(?:${COMMITMENT})\s+(.+?)(?:[.!?](?=\s|$)|\n|$)`, 'gi'), confidence: 0.7 },
+  ],
+
+  assigneePatterns: [
+    /@(\w+(?:[.-]\w+)*)/,
+    /assigned to (\w+)/i,
+    /(\w+) will/,
+    /(\w+) to follow up/i,
+    /(\w+) is responsible/i,
+  ],
+
+  datePatterns: [
+    /(\d{4}-\d{2}-\d{2})/,
+    /(?:by|before|due|deadline:?)\s*(\d{1,2}[/.-]\d{1,2}(?:[/.-]\d{2,4})?)/i,
+    /by (\w+ \d+)/i,
+    /before (\w+ \d+)/i,
+    /due (\w+ \d+)/i,
+    /deadline:?\s*(\w+ \d+)/i,
+    /(in \d+ (?:days?|weeks?))/i,
+    /((?:this|next) (?:monday|tuesday|wednesday|thursday|friday|saturday|sunday))/i,
+    /(today|tomorrow|monday|tuesday|wednesday|thursday|friday|saturday|sunday)/i,
+    /(next week|this week|end of (?:the )?week|end of (?:the )?month|next month)/i,
+  ],
+
+  hedgeWords: /\b(?:probably|maybe|perhaps|might|could|possibly|think about|at some point|someday)\b/i,
+
+  priorityKeywords: {
+    high: ['urgent', 'asap', 'immediately', 'critical', 'priority', 'important', 'today'],
+    medium: ['soon', 'this week', 'next few days'],
+    low: ['eventually', 'when possible', 'low priority', 'nice to have'],
+  },
+};
@@ -0,0 +1,101 @@
+import { english } from './en.js';
+import { dutch } from './nl.js';
+import { german } from './de.js';
+
+export interface ActionPattern {
+  regex: RegExp;
+  // Base confidence for hits: explicit markers score higher than loose phrasing
+  confidence: number;
+}
+
+// Everything extraction and keyword matching need to know about one language
+export interface LanguagePack {
+  code: string;
+  name: string;
+  // Frequent function words, counted to detect the language of a note
+  commonWords: string[];
+  stopwords: string[];
+  // "I'll", "I'm going to", ...: the speaker of a transcript line promising this owns the action
+  firstPersonCommitment: RegExp;
+  // Words written as "Label: ..." in notes that are not someone speaking, lower case
+  labels: string[];
+  actionPatterns: ActionPattern[];
+  assigneePatterns: RegExp[];
+  datePatterns: RegExp[];
+  // Wording that suggests an idea rather than a commitment
+  hedgeWords: RegExp;
+  priorityKeywords: { high: string[]; medium: string[]; low: string[] };
+  // Date words mapped onto the English phrases resolveDueDate understands
+  dateVocabulary?: Record<string, string>;
+  // Whether 3/4 means 3 April rather than March 4
+  dayFirst?: boolean;
+}
+
+export const DEFAULT_LANGUAGE = 'en';
+
+const languagePacks = new Map<string, LanguagePack>([
+  [english.code, english],
+  [dutch.code, dutch],
+  [german.code, german],
+]);
+
+export function registerLanguagePack(pack: LanguagePack): void {
+  languagePacks.set(pack.code, pack);
+}
+
+export function listLanguagePacks(): LanguagePack[] {
+  return [...languagePacks.values()];
+}
+
+// Accepts region tags like "nl-BE"; unknown languages fall back to English
+export function getLanguagePack(code?: string): LanguagePack {
+  const base = (code || DEFAULT_LANGUAGE).toLowerCase().split(/[-_]/)[0];
+  return languagePacks.get(base) || english;
+}
+
+// "Action:", "Besluit:", "Teilnehmer:" and the like, in any registered language
+export function isNoteLabel(text: string): boolean {
+  const label = text.trim().toLowerCase();
+  return [...languagePacks.values()].some(pack => pack.labels.includes(label));
+}
+
+export function detectLanguage(text: string): string {
+  const words = text.toLowerCase().split(/[^\p{L}]+/u);
+  let best = DEFAULT_LANGUAGE;
+  let bestScore = 0;
+
+  for (const pack of languagePacks.values()) {
+    const common = new Set(pack.commonWords);
+    const score = words.filter(word => common.has(word)).length;
+
+    // Ties go to the earlier pack, so English wins when nothing stands out
+    if (score > bestScore) {
+      best = pack.code;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Rewrite a date phrase into English, e.g. "volgende vrijdag" -> "next friday"
+export function translateDatePhrase(phrase: string, pack: LanguagePack): string {
+  if (!pack.dateVocabulary) {
+    return phrase;
+  }
+
+  const vocabulary = pack.dateVocabulary;
+  // Longest entries first so "eind van de maand" wins over "maand"
+  const terms = Object.keys(vocabulary).sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const pattern = new RegExp(`(?<![\\p{L}\\d])(${terms.join('|')})(?![\\p{L}\\d])`, 'gu');
+
+  return phrase
+    .toLowerCase()
+    // "5. März" -> "5 März"
+    .replace(/(\d{1,2})\.(?=\s)/g, '$1')
+    .replace(pattern, term => vocabulary[term]);
+}
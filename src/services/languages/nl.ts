@@ -0,0 +1,131 @@
+import type { LanguagePack } from './index.js';
+
+// "Ik zal ...", "ik regel ..."; the speaker of such a line gets the action
+const COMMITMENT = 'ik zal|ik ga|ik regel|ik neem';
+
+export const dutch: LanguagePack = {
+  code: 'nl',
+  name: 'Nederlands',
+
+  commonWords: [
+    'de', 'het', 'een', 'en', 'van', 'dat', 'wij', 'niet', 'met', 'voor',
+    'ook', 'zijn', 'moet', 'wordt', 'ik', 'naar', 'maar', 'om', 'bij', 'nog',
+  ],
+
+  stopwords: [
+    'de', 'het', 'een', 'en', 'of', 'maar', 'in', 'op', 'aan', 'te', 'voor',
+    'van', 'met', 'door', 'uit', 'als', 'is', 'was', 'zijn', 'waren', 'geweest',
+    'worden', 'wordt', 'werd', 'hebben', 'heeft', 'had', 'doen', 'doet', 'deed',
+    'zal', 'zullen', 'zou', 'kan', 'kunnen', 'moet', 'moeten', 'mag', 'wil',
+    'dit', 'dat', 'deze', 'die', 'ik', 'jij', 'je', 'hij', 'zij', 'ze', 'het',
+    'wij', 'we', 'jullie', 'wat', 'welke', 'wie', 'waar', 'wanneer', 'waarom',
+    'hoe', 'alle', 'elke', 'beide', 'meer', 'meest', 'andere', 'sommige', 'geen',
+    'niet', 'alleen', 'zelf', 'zo', 'dan', 'te', 'heel', 'erg', 'ook', 'nu',
+    'hier', 'daar', 'nog', 'al', 'naar', 'om', 'bij', 'er', 'over',
+  ],
+
+  firstPersonCommitment: new RegExp(String.raw`\b(?:${COMMITMENT})\b`, 'i'),
+
+  labels: [
+    'actie', 'acties', 'actiepunt', 'actiepunten', 'taak', 'notitie', 'notities', 'besluit', 'besluiten',
+    'datum', 'tijd', 'aanwezigen', 'agenda', 'samenvatting', 'locatie', 'onderwerp', 'vraag', 'antwoord',
+  ],
+
+  actionPatterns: [
+    // "Actie: ...", "Actiepunt: ...", "TODO: ...", "Taak: ..."
+    { regex: /(?:actiepunt|actie|todo|taak|to-do):\s*(.+?)(?:\n|$)/gi, confidence: 0.9 },
+    // Bullet points starting with a modal verb
+    { regex: /^[ \t]*[-*]\s+((?:moet(?:en)?|zal|zullen|gaat|gaan)\s+.+?)(?:\n|$)/gim, confidence: 0.55 },
+    // "@persoon zal..." or "@persoon gaat..."
+    { regex: /@(\w+(?:[.-]\w+)*)\s+(?:zal|gaat|moet)\s+(.+?)(?:\n|$)/gi, confidence: 0.85 },
+    // Imperatives: "Stuur ...", "Plan ...", "Bel ..."
+    {
+      regex: /^[ \t]*[-*]\s+((?:stuur|verstuur|plan|bel|mail|controleer|check|bevestig|bereid|maak|update|regel|bespreek|neem contact)\s+.+?)(?:\n|$)/gim,
+      confidence: 0.65,
+    },
+    // Infinitive at the end: "Offerte sturen", "Demo inplannen"
+    {
+      regex: /^[ \t]*[-*]\s+(.+?\s(?:sturen|versturen|opsturen|plannen|inplannen|bellen|mailen|controleren|nakijken|bevestigen|voorbereiden|maken|bijwerken|regelen|afstemmen|bespreken|boeken|opvolgen))[.!]?[ \t]*(?:\n|$)/gim,
+      confidence: 0.65,
+    },
+    // Deadline patterns: "voor vrijdag", "uiterlijk volgende week"
+    { regex: /^[ \t]*[-*]\s+(.+?)\s+(?:voor|uiterlijk|tegen)\s+(\w+(?:\s+\w+)?)/gim, confidence: 0.6 },
+    // Spoken commitments: "Ik zal ...", "Ik regel ..."
+    { regex: new RegExp(String.raw`\b(?:${COMMITMENT})\s+(.+?)(?:[.!?](?=\s|$)|\n|$)`, 'gi'), confidence: 0.7 },
+  ],
+
+  assigneePatterns: [
+    /@(\w+(?:[.-]\w+)*)/,
+    /toegewezen aan (\w+)/i,
+    /(\w+) zal/,
+    /(\w+) is verantwoordelijk/i,
+    /(\w+) pakt dit op/i,
+  ],
+
+  datePatterns: [
+    /(\d{4}-\d{2}-\d{2})/,
+    /(?:voor|uiterlijk|tegen|op)\s*(\d{1,2}[/.-]\d{1,2}(?:[/.-]\d{2,4})?)/i,
+    /(\d{1,2} (?:januari|februari|maart|april|mei|juni|juli|augustus|september|oktober|november|december)(?: \d{4})?)/i,
+    /(over (?:\d+|een|twee|drie|vier|vijf) (?:dagen|dag|weken|week|maanden|maand))/i,
+    /((?:volgende|komende|aanstaande|deze) (?:maandag|dinsdag|woensdag|donderdag|vrijdag|zaterdag|zondag))/i,
+    /(eind(?:e)? van de (?:week|maand)|volgende week|deze week|volgende maand)/i,
+    /(overmorgen|vandaag|morgen|maandag|dinsdag|woensdag|donderdag|vrijdag|zaterdag|zondag)/i,
+  ],
+
+  hedgeWords: /\b(?:misschien|eventueel|wellicht|mogelijk|zou kunnen|ooit|nadenken over)\b/i,
+
+  priorityKeywords: {
+    high: ['urgent', 'asap', 'dringend', 'direct', 'meteen', 'kritiek', 'prioriteit', 'belangrijk', 'vandaag'],
+    medium: ['binnenkort', 'deze week', 'komende dagen'],
+    low: ['ooit', 'wanneer mogelijk', 'lage prioriteit', 'nice to have'],
+  },
+
+  dateVocabulary: {
+    vandaag: 'today',
+    vanavond: 'today',
+    morgen: 'tomorrow',
+    overmorgen: 'day after tomorrow',
+    'eind van de week': 'end of week',
+    'einde van de week': 'end of week',
+    'eind van deze week': 'end of week',
+    'eind van de maand': 'end of month',
+    'einde van de maand': 'end of month',
+    volgende: 'next',
+    // "komende vrijdag" is the first Friday coming up
+    komende: '',
+    aanstaande: '',
+    deze: 'this',
+    uiterlijk: 'by',
+    voor: 'before',
+    tegen: 'by',
+    op: 'on',
+    over: 'in',
+    dag: 'day',
+    dagen: 'days',
+    weken: 'weeks',
+    maand: 'month',
+    maanden: 'months',
+    een: 'a',
+    twee: 'two',
+    drie: 'three',
+    vier: 'four',
+    vijf: 'five',
+    maandag: 'monday',
+    dinsdag: 'tuesday',
+    woensdag: 'wednesday',
+    donderdag: 'thursday',
+    vrijdag: 'friday',
+    zaterdag: 'saturday',
+    zondag: 'sunday',
+    januari: 'january',
+    februari: 'february',
+    maart: 'march',
+    mei: 'may',
+    juni: 'june',
+    juli: 'july',
+    augustus: 'august',
+    oktober: 'october',
+  },
+
+  dayFirst: true,
+};
@@ -0,0 +1,116 @@
+import { randomBytes } from 'crypto';
+import type { EmailAttachment, EmailDraft } from '../types.js';
+
+// RFC 2047 encoded-word for headers that are not plain ASCII
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+export const EMAIL_ADDRESS = /^[^\s@<>(),;:"\\[\]]+@[^\s@<>(),;:"\\[\]]+$/;
+
+// Only the display name is encoded; the address itself must stay readable to mail servers
+function formatAddress(value: string): string {
+  const match = value.trim().match(/^(?:"?([^"<]*?)"?\s*)?<([^<>]+)>$/);
+  const name = (match ? match[1] || '' : '').trim();
+  const address = (match ? match[2] : value).trim();
+
+  if (!EMAIL_ADDRESS.test(address)) {
+    throw new Error(`Invalid email address "${value}"`);
+  }
+
+  if (!name) {
+    return address;
+  }
+  // Names with commas, dots or quotes need quoting to stay one address
+  const display = /^[\x20-\x7e]*$/.test(name) ? `"${name.replace(/["\\]/g, '\\$&')}"` : encodeHeader(name);
+  return `${display} <${address}>`;
+}
+
+function formatAddressList(values: string[]): string {
+  return values.map(formatAddress).join(', ');
+}
+
+// Base64 body wrapped at 76 characters per line, as MIME requires
+function encodeBase64(content: string | Buffer): string {
+  return (typeof content === 'string' ? Buffer.from(content) : content)
+    .toString('base64')
+    .replace(/.{76}(?=.)/g, '$&\r\n');
+}
+
+function boundary(): string {
+  return `----=_Part_${randomBytes(12).toString('hex')}`;
+}
+
+function textPart(contentType: string, content: string): string[] {
+  return [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBase64(content),
+  ];
+}
+
+function attachmentPart(attachment: EmailAttachment): string[] {
+  const filename = encodeHeader(attachment.filename).replace(/"/g, '');
+  const charset = typeof attachment.content === 'string' ? '; charset=utf-8' : '';
+
+  return [
+    `Content-Type: ${attachment.contentType}${charset}; name="${filename}"`,
+    `Content-Disposition: attachment; filename="${filename}"`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBase64(attachment.content),
+  ];
+}
+
+// The body on its own: plain text, or multipart/alternative when the draft has HTML
+function bodyParts(draft: EmailDraft): string[] {
+  if (!draft.html) {
+    return textPart('text/plain', draft.body);
+  }
+
+  const alternative = boundary();
+
+  return [
+    `Content-Type: multipart/alternative; boundary="${alternative}"`,
+    '',
+    `--${alternative}`,
+    ...textPart('text/plain', draft.body),
+    `--${alternative}`,
+    ...textPart('text/html', draft.html),
+    `--${alternative}--`,
+  ];
+}
+
+// Build an RFC 5322 message, wrapped in multipart/mixed when there are attachments
+export function buildMimeMessage(draft: EmailDraft, from?: string): string {
+  const domain = from?.match(/@([^>\s]+)/)?.[1] || 'highlight-workflow';
+
+  const headers = [
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomBytes(16).toString('hex')}@${domain}>`,
+    from ? `From: ${formatAddress(from)}` : '',
+    `To: ${formatAddressList(draft.to)}`,
+    draft.cc?.length ? `Cc: ${formatAddressList(draft.cc)}` : '',
+    draft.bcc?.length ? `Bcc: ${formatAddressList(draft.bcc)}` : '',
+    `Subject: ${encodeHeader(draft.subject)}`,
+    'MIME-Version: 1.0',
+  ].filter(Boolean);
+
+  if (!draft.attachments?.length) {
+    return [...headers, ...bodyParts(draft), ''].join('\r\n');
+  }
+
+  const mixed = boundary();
+
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${mixed}"`,
+    '',
+    `--${mixed}`,
+    ...bodyParts(draft),
+    ...draft.attachments.flatMap(attachment => [`--${mixed}`, ...attachmentPart(attachment)]),
+    `--${mixed}--`,
+    '',
+  ].join('\r\n');
+}
@@ -2,26 +2,18 @@ import { existsSync, readFileSync, writeFileSync, readdirSync } from 'fs';
 import { join, basename } from 'path';
 import matter from 'gray-matter';
 import { loadConfig, getProject, listProjects } from '../utils/config.js';
-import { getNote, updateNote, listNotes } from './notes.js';
+import { getNote, updateNote, listNotes, listNoteSummaries } from './notes.js';
+import { getLanguagePack, detectLanguage } from './languages/index.js';
 import type { Note, NoteLink, ProjectConfig } from '../types.js';
 
-// Extract keywords from text for similarity matching
-function extractKeywords(text: string): Set<string> {
-  const stopWords = new Set([
-    'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for',
-    'of', 'with', 'by', 'from', 'as', 'is', 'was', 'are', 'were', 'been',
-    'be', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could',
-    'should', 'may', 'might', 'must', 'shall', 'can', 'need', 'dare', 'ought',
-    'used', 'this', 'that', 'these', 'those', 'i', 'you', 'he', 'she', 'it',
-    'we', 'they', 'what', 'which', 'who', 'whom', 'whose', 'where', 'when',
-    'why', 'how', 'all', 'each', 'every', 'both', 'few', 'more', 'most',
-    'other', 'some', 'such', 'no', 'nor', 'not', 'only', 'own', 'same', 'so',
-    'than', 'too', 'very', 'just', 'also', 'now', 'here', 'there', 'then',
-  ]);
+// Extract keywords from text for similarity matching, dropping the stopwords
+// of the given (or detected) language
+export function extractKeywords(text: string, language?: string): Set<string> {
+  const stopWords = new Set(getLanguagePack(language || detectLanguage(text)).stopwords);
 
   const words = text
     .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
     .split(/\s+/)
     .filter(word => word.length > 2 && !stopWords.has(word));
 
@@ -39,8 +31,8 @@ function calculateSimilarity(note1: Note, note2: Note): number {
   score += commonTags.length * 20;
 
   // Keyword overlap in content
-  const keywords1 = extractKeywords(note1.content + ' ' + note1.title);
-  const keywords2 = extractKeywords(note2.content + ' ' + note2.title);
+  const keywords1 = extractKeywords(note1.content + ' ' + note1.title, note1.lang);
+  const keywords2 = extractKeywords(note2.content + ' ' + note2.title, note2.lang);
 
   let overlap = 0;
   keywords1.forEach(k => {
@@ -76,13 +68,13 @@ function calculateSimilarity(note1: Note, note2: Note): number {
 }
 
 // Find related notes across all projects
-export function findRelatedNotes(
+export async function findRelatedNotes(
   projectName: string,
   noteId: string,
   limit: number = 5,
   minScore: number = 15
-): NoteLink[] {
-  const sourceNote = getNote(projectName, noteId);
+): Promise<NoteLink[]> {
+  const sourceNote = await getNote(projectName, noteId);
   if (!sourceNote) return [];
 
   const config = loadConfig();
@@ -90,7 +82,7 @@ export function findRelatedNotes(
 
   // Gather all notes from all projects
   for (const project of config.projects) {
-    const notes = listNotes(project.name);
+    const notes = await listNotes(project.name);
     allNotes.push(...notes);
   }
 
@@ -114,14 +106,14 @@ export function findRelatedNotes(
 }
 
 // Manually link two notes (bidirectional)
-export function linkNotes(
+export async function linkNotes(
   sourceProject: string,
   sourceNoteId: string,
   targetProject: string,
   targetNoteId: string
-): { success: boolean; message: string } {
-  const sourceNote = getNote(sourceProject, sourceNoteId);
-  const targetNote = getNote(targetProject, targetNoteId);
+): Promise<{ success: boolean; message: string }> {
+  const sourceNote = await getNote(sourceProject, sourceNoteId);
+  const targetNote = await getNote(targetProject, targetNoteId);
 
   if (!sourceNote || !targetNote) {
     return { success: false, message: 'One or both notes not found' };
@@ -154,21 +146,21 @@ export function linkNotes(
   });
 
   // Update both notes
-  updateNote(sourceProject, sourceNoteId, { linkedNotes: sourceNote.linkedNotes });
-  updateNote(targetProject, targetNoteId, { linkedNotes: targetNote.linkedNotes });
+  await updateNote(sourceProject, sourceNoteId, { linkedNotes: sourceNote.linkedNotes });
+  await updateNote(targetProject, targetNoteId, { linkedNotes: targetNote.linkedNotes });
 
   return { success: true, message: `Linked "${sourceNote.title}" ↔ "${targetNote.title}"` };
 }
 
 // Unlink two notes
-export function unlinkNotes(
+export async function unlinkNotes(
   sourceProject: string,
   sourceNoteId: string,
   targetProject: string,
   targetNoteId: string
-): { success: boolean; message: string } {
-  const sourceNote = getNote(sourceProject, sourceNoteId);
-  const targetNote = getNote(targetProject, targetNoteId);
+): Promise<{ success: boolean; message: string }> {
+  const sourceNote = await getNote(sourceProject, sourceNoteId);
+  const targetNote = await getNote(targetProject, targetNoteId);
 
   if (!sourceNote || !targetNote) {
     return { success: false, message: 'One or both notes not found' };
@@ -177,37 +169,37 @@ export function unlinkNotes(
   // Remove from source
   if (sourceNote.linkedNotes) {
     sourceNote.linkedNotes = sourceNote.linkedNotes.filter(l => l.noteId !== targetNoteId);
-    updateNote(sourceProject, sourceNoteId, { linkedNotes: sourceNote.linkedNotes });
+    await updateNote(sourceProject, sourceNoteId, { linkedNotes: sourceNote.linkedNotes });
   }
 
   // Remove from target
   if (targetNote.linkedNotes) {
     targetNote.linkedNotes = targetNote.linkedNotes.filter(l => l.noteId !== sourceNoteId);
-    updateNote(targetProject, targetNoteId, { linkedNotes: targetNote.linkedNotes });
+    await updateNote(targetProject, targetNoteId, { linkedNotes: targetNote.linkedNotes });
   }
 
   return { success: true, message: 'Notes unlinked' };
 }
 
 // Get all linked notes for a note
-export function getLinkedNotes(projectName: string, noteId: string): NoteLink[] {
-  const note = getNote(projectName, noteId);
+export async function getLinkedNotes(projectName: string, noteId: string): Promise<NoteLink[]> {
+  const note = await getNote(projectName, noteId);
   if (!note) return [];
   return note.linkedNotes || [];
 }
 
 // Auto-link related notes and add them to the note
-export function autoLinkRelatedNotes(
+export async function autoLinkRelatedNotes(
   projectName: string,
   noteId: string,
   limit: number = 3,
   minScore: number = 20
-): NoteLink[] {
-  const related = findRelatedNotes(projectName, noteId, limit, minScore);
+): Promise<NoteLink[]> {
+  const related = await findRelatedNotes(projectName, noteId, limit, minScore);
 
   if (related.length === 0) return [];
 
-  const note = getNote(projectName, noteId);
+  const note = await getNote(projectName, noteId);
   if (!note) return [];
 
   // Initialize linkedNotes if not present
@@ -224,7 +216,7 @@ export function autoLinkRelatedNotes(
   }
 
   if (newLinks.length > 0) {
-    updateNote(projectName, noteId, { linkedNotes: note.linkedNotes });
+    await updateNote(projectName, noteId, { linkedNotes: note.linkedNotes });
   }
 
   return newLinks;
@@ -260,8 +252,8 @@ export function generateObsidianLinks(note: Note): string {
 }
 
 // Update note content with Obsidian wikilinks
-export function updateNoteWithObsidianLinks(projectName: string, noteId: string): Note | null {
-  const note = getNote(projectName, noteId);
+export async function updateNoteWithObsidianLinks(projectName: string, noteId: string): Promise<Note | null> {
+  const note = await getNote(projectName, noteId);
   if (!note) return null;
 
   const updatedContent = generateObsidianLinks(note);
@@ -269,15 +261,15 @@ export function updateNoteWithObsidianLinks(projectName: string, noteId: string)
 }
 
 // Find all notes that mention a specific note (by title)
-export function findBacklinks(projectName: string, noteId: string): NoteLink[] {
-  const targetNote = getNote(projectName, noteId);
+export async function findBacklinks(projectName: string, noteId: string): Promise<NoteLink[]> {
+  const targetNote = await getNote(projectName, noteId);
   if (!targetNote) return [];
 
   const config = loadConfig();
   const backlinks: NoteLink[] = [];
 
   for (const project of config.projects) {
-    const notes = listNotes(project.name);
+    const notes = await listNotes(project.name);
     for (const note of notes) {
       if (note.id === noteId) continue;
 
@@ -300,10 +292,10 @@ export function findBacklinks(projectName: string, noteId: string): NoteLink[] {
 }
 
 // Get a graph representation of note connections
-export function getNoteGraph(projectName?: string): {
+export async function getNoteGraph(projectName?: string): Promise<{
   nodes: Array<{ id: string; title: string; project: string }>;
   edges: Array<{ source: string; target: string; type: string }>;
-} {
+}> {
   const config = loadConfig();
   const projects = projectName
     ? config.projects.filter(p => p.name === projectName)
@@ -314,7 +306,7 @@ export function getNoteGraph(projectName?: string): {
   const seenEdges = new Set<string>();
 
   for (const project of projects) {
-    const notes = listNotes(project.name);
+    const notes = await listNoteSummaries(project.name);
     for (const note of notes) {
       nodes.push({
         id: note.id,
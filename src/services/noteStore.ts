@@ -0,0 +1,67 @@
+import type { Note, NoteSummary, ProjectConfig } from '../types.js';
+import { createMarkdownStore } from './stores/markdownStore.js';
+import { createNotionStore } from './stores/notionStore.js';
+
+export interface NoteQuery {
+  text?: string;
+  tags?: string[];
+  from?: string;
+  to?: string;
+}
+
+// Storage backend for the notes of a single project
+export interface NoteStore {
+  create(note: Note): Promise<void>;
+  get(noteId: string): Promise<Note | null>;
+  update(note: Note): Promise<boolean>;
+  delete(noteId: string): Promise<boolean>;
+  list(): Promise<Note[]>;
+  // Notes without their body, for callers that only need frontmatter
+  listSummaries(): Promise<NoteSummary[]>;
+  query(query: NoteQuery): Promise<Note[]>;
+}
+
+export type NoteStoreFactory = (project: ProjectConfig) => NoteStore;
+
+const storeFactories = new Map<string, NoteStoreFactory>([
+  ['local', createMarkdownStore],
+  ['obsidian', createMarkdownStore],
+  ['notion', createNotionStore],
+]);
+
+export function registerNoteStore(storage: string, factory: NoteStoreFactory): void {
+  storeFactories.set(storage, factory);
+}
+
+export function getNoteStore(project: ProjectConfig): NoteStore {
+  const factory = storeFactories.get(project.storage);
+  if (!factory) {
+    throw new Error(`No note store registered for storage "${project.storage}"`);
+  }
+  return factory(project);
+}
+
+// Fallback filter for stores that cannot query natively
+export function matchesQuery(note: Note, query: NoteQuery): boolean {
+  if (query.tags?.length && !query.tags.every(tag => note.tags.includes(tag))) {
+    return false;
+  }
+
+  if (query.from && note.date < query.from) {
+    return false;
+  }
+
+  if (query.to && note.date > query.to) {
+    return false;
+  }
+
+  if (query.text) {
+    const text = query.text.toLowerCase();
+    const haystack = `${note.title}\n${note.content}`.toLowerCase();
+    if (!haystack.includes(text)) {
+      return false;
+    }
+  }
+
+  return true;
+}
@@ -1,216 +1,483 @@
-import { existsSync, mkdirSync, writeFileSync, readFileSync, readdirSync } from 'fs';
-import { join, basename } from 'path';
-import matter from 'gray-matter';
 import { format } from 'date-fns';
-import { loadConfig, getProject } from '../utils/config.js';
-import type { Note, ActionPoint, ProjectConfig, NoteLink } from '../types.js';
-
-function generateId(): string {
+import { loadConfig, getProject, getCurrentUser } from '../utils/config.js';
+import { getNoteStore } from './noteStore.js';
+import { clearNoteIndex } from './stores/noteIndex.js';
+import { getTemplate, renderTemplate } from './templates.js';
+import { resolveDueDate, isIsoDate } from './dueDates.js';
+import { extractActionPoints } from './actionExtractor.js';
+import type { ExtractOptions, ExtractedAction } from './actionExtractor.js';
+import { queueForReview, getReviewItem, removeReviewItem } from './reviewQueue.js';
+import type { ReviewItem } from './reviewQueue.js';
+import type { NoteStore, NoteQuery } from './noteStore.js';
+import type {
+  Note,
+  NoteSummary,
+  NoteLink,
+  ActionPoint,
+  ActionPointChange,
+  ActionPointField,
+  CalendarEventRef,
+} from '../types.js';
+
+export const ACTION_PRIORITIES: ActionPoint['priority'][] = ['low', 'medium', 'high'];
+export const ACTION_STATUSES: ActionPoint['status'][] = ['pending', 'in_progress', 'completed'];
+
+export function generateId(): string {
   return Date.now().toString(36) + Math.random().toString(36).substr(2);
 }
 
-function getProjectPath(project: ProjectConfig): string {
-  const config = loadConfig();
-
-  switch (project.storage) {
-    case 'obsidian':
-      return join(config.obsidianVaultPath || config.storageBasePath, project.path);
-    case 'notion':
-      return join(config.storageBasePath, 'notion-cache', project.path);
-    case 'local':
-    default:
-      return join(config.storageBasePath, project.path);
-  }
-}
-
-function ensureProjectDir(project: ProjectConfig): string {
-  const path = getProjectPath(project);
-  if (!existsSync(path)) {
-    mkdirSync(path, { recursive: true });
-  }
-  return path;
-}
-
-function noteToMarkdown(note: Note): string {
-  const frontmatter = {
-    id: note.id,
-    title: note.title,
-    date: note.date,
-    project: note.project,
-    tags: note.tags || [],
-    linkedNotes: note.linkedNotes || [],
-    createdAt: note.createdAt,
-    updatedAt: note.updatedAt,
-    actionPoints: note.actionPoints || [],
-  };
-
-  return matter.stringify(note.content, frontmatter);
+function getStore(projectName: string): NoteStore | null {
+  const project = getProject(projectName);
+  return project ? getNoteStore(project) : null;
 }
 
-function markdownToNote(content: string, filename: string): Note {
-  const parsed = matter(content);
-  const data = parsed.data as Partial<Note>;
+export type CreateNoteOptions = Partial<Pick<Note, 'date' | 'series' | 'template' | 'attendees' | 'speakers' | 'lang' | 'location' | 'calendarEvent' | 'actionPoints'>> & {
+  // Extra values for template placeholders
+  variables?: Record<string, string>;
+};
 
-  return {
-    id: data.id || generateId(),
-    title: data.title || basename(filename, '.md'),
-    date: data.date || format(new Date(), 'yyyy-MM-dd'),
-    project: data.project || '',
-    content: parsed.content,
-    actionPoints: (data.actionPoints as ActionPoint[]) || [],
-    tags: data.tags || [],
-    linkedNotes: (data.linkedNotes as NoteLink[]) || [],
-    createdAt: data.createdAt || new Date().toISOString(),
-    updatedAt: data.updatedAt || new Date().toISOString(),
-  };
-}
-
-export function createNote(
+export async function createNote(
   projectName: string,
   title: string,
   content: string,
-  tags: string[] = []
-): Note {
-  const project = getProject(projectName);
-  if (!project) {
+  tags: string[] = [],
+  options: CreateNoteOptions = {}
+): Promise<Note> {
+  const store = getStore(projectName);
+  if (!store) {
     throw new Error(`Project "${projectName}" not found`);
   }
 
-  const projectPath = ensureProjectDir(project);
-  const date = format(new Date(), 'yyyy-MM-dd');
+  const date = options.date || format(new Date(), 'yyyy-MM-dd');
   const now = new Date().toISOString();
+  const id = generateId();
+
+  if (options.template) {
+    const template = getTemplate(options.template);
+    if (!template) {
+      throw new Error(`Template "${options.template}" not found`);
+    }
+
+    content = renderTemplate(template, {
+      ...options.variables,
+      title,
+      date,
+      project: projectName,
+      attendees: (options.attendees || []).join(', '),
+      content,
+    });
+    tags = [...new Set([...template.tags, ...tags])];
+  }
 
   const note: Note = {
-    id: generateId(),
+    id,
     title,
     date,
     project: projectName,
     content,
-    actionPoints: [],
+    actionPoints: (options.actionPoints || []).map(ap => ({ ...ap, noteId: id })),
     tags,
     linkedNotes: [],
+    ...(options.series ? { series: options.series } : {}),
+    ...(options.template ? { template: options.template } : {}),
+    ...(options.attendees?.length ? { attendees: options.attendees } : {}),
+    ...(options.speakers?.length ? { speakers: options.speakers } : {}),
+    ...(options.lang ? { lang: options.lang } : {}),
+    ...(options.location ? { location: options.location } : {}),
+    ...(options.calendarEvent ? { calendarEvent: options.calendarEvent } : {}),
     createdAt: now,
     updatedAt: now,
   };
 
-  const filename = `${date}-${sanitizeFilename(title)}.md`;
-  const filepath = join(projectPath, filename);
-
-  writeFileSync(filepath, noteToMarkdown(note));
+  await store.create(note);
 
   return note;
 }
 
-export function updateNote(
+export async function updateNote(
   projectName: string,
   noteId: string,
-  updates: Partial<Pick<Note, 'title' | 'content' | 'tags' | 'actionPoints' | 'linkedNotes'>>
-): Note | null {
-  const project = getProject(projectName);
-  if (!project) {
+  updates: Partial<Pick<Note, 'title' | 'content' | 'tags' | 'actionPoints' | 'linkedNotes' | 'archived'>>
+): Promise<Note | null> {
+  const store = getStore(projectName);
+  if (!store) {
     throw new Error(`Project "${projectName}" not found`);
   }
 
-  const projectPath = getProjectPath(project);
-  const files = readdirSync(projectPath).filter(f => f.endsWith('.md'));
+  const note = await store.get(noteId);
+  if (!note) {
+    return null;
+  }
+
+  const updatedNote: Note = {
+    ...note,
+    ...updates,
+    updatedAt: new Date().toISOString(),
+  };
 
-  for (const file of files) {
-    const filepath = join(projectPath, file);
-    const content = readFileSync(filepath, 'utf-8');
-    const note = markdownToNote(content, file);
+  await store.update(updatedNote);
 
-    if (note.id === noteId) {
-      const updatedNote: Note = {
-        ...note,
-        ...updates,
-        updatedAt: new Date().toISOString(),
-      };
+  if (updates.title && updates.title !== note.title) {
+    await updateLinksTo(noteId, link => ({ ...link, noteTitle: updatedNote.title }));
+  }
+
+  return updatedNote;
+}
 
-      writeFileSync(filepath, noteToMarkdown(updatedNote));
-      return updatedNote;
+// Rewrite, or drop by returning null, the links other notes hold to a note
+async function updateLinksTo(
+  noteId: string,
+  rewrite: (link: NoteLink) => NoteLink | null
+): Promise<number> {
+  const config = loadConfig();
+  let updated = 0;
+
+  for (const project of config.projects) {
+    for (const note of await listNoteSummaries(project.name, true)) {
+      if (note.id === noteId || !note.linkedNotes.some(l => l.noteId === noteId)) continue;
+
+      const linkedNotes = note.linkedNotes.flatMap(link => {
+        if (link.noteId !== noteId) return [link];
+        const rewritten = rewrite(link);
+        return rewritten ? [rewritten] : [];
+      });
+
+      await updateNote(project.name, note.id, { linkedNotes });
+      updated++;
     }
   }
 
-  return null;
+  return updated;
 }
 
-export function getNote(projectName: string, noteId: string): Note | null {
-  const project = getProject(projectName);
-  if (!project) {
+export async function deleteNote(
+  projectName: string,
+  noteId: string
+): Promise<{ note: Note; updatedLinks: number } | null> {
+  const store = getStore(projectName);
+  if (!store) {
+    throw new Error(`Project "${projectName}" not found`);
+  }
+
+  const note = await store.get(noteId);
+  if (!note || !(await store.delete(noteId))) {
     return null;
   }
 
-  const projectPath = getProjectPath(project);
-  if (!existsSync(projectPath)) {
+  const updatedLinks = await updateLinksTo(noteId, () => null);
+  return { note, updatedLinks };
+}
+
+export async function archiveNote(
+  projectName: string,
+  noteId: string,
+  archived: boolean = true
+): Promise<Note | null> {
+  return updateNote(projectName, noteId, { archived });
+}
+
+export async function moveNote(
+  projectName: string,
+  noteId: string,
+  targetProject: string,
+  title?: string
+): Promise<{ note: Note; updatedLinks: number } | null> {
+  const source = getStore(projectName);
+  if (!source) {
+    throw new Error(`Project "${projectName}" not found`);
+  }
+
+  const target = getStore(targetProject);
+  if (!target) {
+    throw new Error(`Project "${targetProject}" not found`);
+  }
+
+  const note = await source.get(noteId);
+  if (!note) {
     return null;
   }
 
-  const files = readdirSync(projectPath).filter(f => f.endsWith('.md'));
+  if (targetProject === projectName) {
+    const renamed = title ? await updateNote(projectName, noteId, { title }) : note;
+    return renamed ? { note: renamed, updatedLinks: 0 } : null;
+  }
 
-  for (const file of files) {
-    const filepath = join(projectPath, file);
-    const content = readFileSync(filepath, 'utf-8');
-    const note = markdownToNote(content, file);
+  const moved: Note = {
+    ...note,
+    project: targetProject,
+    title: title || note.title,
+    updatedAt: new Date().toISOString(),
+  };
 
-    if (note.id === noteId) {
-      return note;
-    }
+  if (await target.get(noteId)) {
+    throw new Error(`Project "${targetProject}" already has a note with ID ${noteId}`);
   }
 
-  return null;
+  // Only drop the original once the copy exists, and drop the copy again if that fails
+  await target.create(moved);
+  try {
+    await source.delete(noteId);
+  } catch (error) {
+    await target.delete(noteId);
+    throw error;
+  }
+
+  const updatedLinks = await updateLinksTo(noteId, link => ({
+    ...link,
+    project: targetProject,
+    noteTitle: moved.title,
+  }));
+
+  return { note: moved, updatedLinks };
 }
 
-export function listNotes(projectName: string): Note[] {
-  const project = getProject(projectName);
-  if (!project) {
+export async function getNote(projectName: string, noteId: string): Promise<Note | null> {
+  const store = getStore(projectName);
+  if (!store) {
+    return null;
+  }
+
+  return store.get(noteId);
+}
+
+export async function listNotes(projectName: string, includeArchived: boolean = false): Promise<Note[]> {
+  const store = getStore(projectName);
+  if (!store) {
     return [];
   }
 
-  const projectPath = getProjectPath(project);
-  if (!existsSync(projectPath)) {
+  const notes = (await store.list()).filter(n => includeArchived || !n.archived);
+
+  return notes.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
+
+export async function listNoteSummaries(
+  projectName: string,
+  includeArchived: boolean = false
+): Promise<NoteSummary[]> {
+  const store = getStore(projectName);
+  if (!store) {
     return [];
   }
 
-  const files = readdirSync(projectPath).filter(f => f.endsWith('.md'));
-  const notes: Note[] = [];
+  const notes = (await store.listSummaries()).filter(n => includeArchived || !n.archived);
 
-  for (const file of files) {
-    const filepath = join(projectPath, file);
-    const content = readFileSync(filepath, 'utf-8');
-    notes.push(markdownToNote(content, file));
+  return notes.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
+
+// Drop the note index and re-read every project's notes from storage
+export async function rebuildNoteIndex(): Promise<Array<{ project: string; notes: number }>> {
+  const config = loadConfig();
+  clearNoteIndex();
+
+  const results: Array<{ project: string; notes: number }> = [];
+  for (const project of config.projects) {
+    const notes = await listNoteSummaries(project.name, true);
+    results.push({ project: project.name, notes: notes.length });
+  }
+
+  return results;
+}
+
+export async function queryNotes(projectName: string, query: NoteQuery): Promise<Note[]> {
+  const store = getStore(projectName);
+  if (!store) {
+    return [];
   }
 
+  const notes = (await store.query(query)).filter(n => !n.archived);
+
   return notes.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 }
 
-export function addActionPoint(
-  projectName: string,
-  noteId: string,
-  actionPoint: Omit<ActionPoint, 'id' | 'noteId'>
-): ActionPoint | null {
-  const note = getNote(projectName, noteId);
-  if (!note) {
-    return null;
+// Typed-in due dates are resolved against the note's date, like extracted ones; phrases that need a guess are rejected
+function normaliseDueDate(
+  input: string,
+  note: Pick<Note, 'date' | 'lang'>
+): { dueDate: string; dueDatePhrase?: string } {
+  if (isIsoDate(input)) {
+    return { dueDate: input };
+  }
+
+  const resolved = resolveDueDate(input, note.date, note.lang);
+  if (!resolved.date) {
+    throw new Error(`Could not resolve due date "${input}": ${resolved.ambiguous}`);
   }
 
+  return { dueDate: resolved.date, dueDatePhrase: input };
+}
+
+function newActionPointFor(note: Note, actionPoint: Omit<ActionPoint, 'id' | 'noteId'>): ActionPoint {
+  const due = actionPoint.dueDate ? normaliseDueDate(actionPoint.dueDate, note) : undefined;
+  const dueDatePhrase = actionPoint.dueDatePhrase || due?.dueDatePhrase;
+
   // Clean undefined values to avoid YAML serialization issues
-  const newActionPoint: ActionPoint = {
+  return {
     id: generateId(),
-    noteId,
+    noteId: note.id,
     description: actionPoint.description,
     priority: actionPoint.priority,
     status: actionPoint.status,
     ...(actionPoint.assignee ? { assignee: actionPoint.assignee } : {}),
-    ...(actionPoint.dueDate ? { dueDate: actionPoint.dueDate } : {}),
+    ...(due ? { dueDate: due.dueDate } : {}),
+    ...(dueDatePhrase ? { dueDatePhrase } : {}),
   };
+}
 
+export async function addActionPoint(
+  projectName: string,
+  noteId: string,
+  actionPoint: Omit<ActionPoint, 'id' | 'noteId'>
+): Promise<ActionPoint | null> {
+  const note = await getNote(projectName, noteId);
+  if (!note) {
+    return null;
+  }
+
+  const newActionPoint = newActionPointFor(note, actionPoint);
   note.actionPoints.push(newActionPoint);
-  updateNote(projectName, noteId, { actionPoints: note.actionPoints });
+  await updateNote(projectName, noteId, { actionPoints: note.actionPoints });
 
   return newActionPoint;
 }
 
-export function getAllActionPoints(projectName?: string): ActionPoint[] {
+export interface UnresolvedDueDate {
+  description: string;
+  phrase: string;
+  reason: string;
+}
+
+// Older notes store due dates as free text; interpret them against the note's date and language
+export async function resolveLegacyDueDates<T extends ActionPoint>(
+  actionPoints: T[],
+  unresolved: UnresolvedDueDate[] = []
+): Promise<Array<T & { resolvedDueDate?: string }>> {
+  let notes: Map<string, Pick<Note, 'date' | 'lang'>> | null = null;
+  const items: Array<T & { resolvedDueDate?: string }> = [];
+
+  for (const ap of actionPoints) {
+    if (!ap.dueDate || isIsoDate(ap.dueDate)) {
+      items.push({ ...ap, resolvedDueDate: ap.dueDate });
+      continue;
+    }
+
+    if (!notes) {
+      notes = new Map();
+      for (const project of loadConfig().projects) {
+        for (const summary of await listNoteSummaries(project.name, true)) {
+          notes.set(summary.id, summary);
+        }
+      }
+    }
+
+    const note = notes.get(ap.noteId);
+    const resolved = resolveDueDate(ap.dueDate, note?.date, note?.lang);
+    if (!resolved.date) {
+      unresolved.push({
+        description: ap.description,
+        phrase: ap.dueDate,
+        reason: resolved.ambiguous || 'not a recognised date',
+      });
+    }
+    items.push({ ...ap, resolvedDueDate: resolved.date });
+  }
+
+  return items;
+}
+
+const DEFAULT_REVIEW_THRESHOLD = 0.6;
+
+// Extract action points from text and attach them to a note; low-confidence ones wait for review
+export async function extractActionPointsIntoNote(
+  projectName: string,
+  noteId: string,
+  content: string,
+  options: ExtractOptions = {}
+): Promise<{ added: ActionPoint[]; queued: ReviewItem[]; unresolvedDates: UnresolvedDueDate[] }> {
+  const threshold = Number(loadConfig().extractor?.reviewThreshold ?? DEFAULT_REVIEW_THRESHOLD);
+  const note = await getNote(projectName, noteId);
+  const added: ActionPoint[] = [];
+  const queued: ReviewItem[] = [];
+  const unresolvedDates: UnresolvedDueDate[] = [];
+
+  for (const action of await extractActionPoints(content, options)) {
+    if (action.dueDatePhrase && action.dueDateIssue) {
+      unresolvedDates.push({
+        description: action.description,
+        phrase: action.dueDatePhrase,
+        reason: action.dueDateIssue,
+      });
+    }
+
+    if (action.confidence < threshold) {
+      queued.push({
+        id: generateId(),
+        project: projectName,
+        noteId,
+        action,
+        queuedAt: new Date().toISOString(),
+      });
+      continue;
+    }
+
+    if (note) {
+      added.push(
+        newActionPointFor(note, {
+          description: action.description,
+          assignee: action.assignee,
+          dueDate: action.dueDate,
+          dueDatePhrase: action.dueDatePhrase,
+          priority: action.priority,
+          status: 'pending',
+        })
+      );
+    }
+  }
+
+  // One write for the whole batch
+  if (note && added.length > 0) {
+    await updateNote(projectName, noteId, { actionPoints: [...note.actionPoints, ...added] });
+  }
+  queueForReview(queued);
+
+  return { added, queued, unresolvedDates };
+}
+
+export type ReviewEdits = Partial<Pick<ExtractedAction, 'description' | 'assignee' | 'dueDate' | 'priority'>>;
+
+// Add a queued extraction to its note, with any corrections applied
+export async function acceptReviewItem(reviewId: string, edits: ReviewEdits = {}): Promise<ActionPoint | null> {
+  const item = getReviewItem(reviewId);
+  if (!item) {
+    return null;
+  }
+
+  const { action } = item;
+  const dueDateEdited = edits.dueDate !== undefined && edits.dueDate !== action.dueDate;
+
+  const actionPoint = await addActionPoint(item.project, item.noteId, {
+    description: edits.description || action.description,
+    assignee: edits.assignee ?? action.assignee,
+    dueDate: edits.dueDate ?? action.dueDate,
+    // An edited due date replaces the phrase it was extracted from
+    dueDatePhrase: dueDateEdited ? undefined : action.dueDatePhrase,
+    priority: edits.priority || action.priority,
+    status: 'pending',
+  });
+
+  if (!actionPoint) {
+    throw new Error(`Note "${item.noteId}" for this action no longer exists; reject it instead`);
+  }
+
+  removeReviewItem(reviewId);
+  return actionPoint;
+}
+
+export function rejectReviewItem(reviewId: string): boolean {
+  return removeReviewItem(reviewId);
+}
+
+export async function getAllActionPoints(projectName?: string, includeArchived: boolean = false): Promise<ActionPoint[]> {
   const config = loadConfig();
   const projects = projectName
     ? config.projects.filter(p => p.name === projectName)
@@ -219,23 +486,171 @@ export function getAllActionPoints(projectName?: string): ActionPoint[] {
   const actionPoints: ActionPoint[] = [];
 
   for (const project of projects) {
-    const notes = listNotes(project.name);
+    const notes = await listNoteSummaries(project.name, includeArchived);
     for (const note of notes) {
-      actionPoints.push(...note.actionPoints);
+      // Actions taken over by a later series note are counted there
+      actionPoints.push(...note.actionPoints.filter(ap => !ap.carriedOverTo));
+    }
+  }
+
+  return actionPoints;
+}
+
+export async function getPendingActionPoints(projectName?: string): Promise<ActionPoint[]> {
+  return (await getAllActionPoints(projectName)).filter(ap => ap.status !== 'completed');
+}
+
+export interface ActionPointWithNote extends ActionPoint {
+  project: string;
+  noteTitle: string;
+}
+
+// Pending actions with the note they came from, for messages that cite their source
+export async function getPendingActionPointsWithNotes(projectName?: string): Promise<ActionPointWithNote[]> {
+  const config = loadConfig();
+  const projects = projectName
+    ? config.projects.filter(p => p.name === projectName)
+    : config.projects;
+
+  const actionPoints: ActionPointWithNote[] = [];
+
+  for (const project of projects) {
+    for (const note of await listNoteSummaries(project.name)) {
+      for (const ap of note.actionPoints) {
+        if (ap.status !== 'completed' && !ap.carriedOverTo) {
+          actionPoints.push({ ...ap, project: project.name, noteTitle: note.title });
+        }
+      }
     }
   }
 
   return actionPoints;
 }
 
-export function getPendingActionPoints(projectName?: string): ActionPoint[] {
-  return getAllActionPoints(projectName).filter(ap => ap.status !== 'completed');
+export async function findActionPoint(
+  actionId: string
+): Promise<{ project: string; note: NoteSummary; actionPoint: ActionPoint } | null> {
+  const config = loadConfig();
+
+  for (const project of config.projects) {
+    for (const note of await listNoteSummaries(project.name, true)) {
+      const actionPoint = note.actionPoints.find(ap => ap.id === actionId);
+      if (actionPoint) {
+        return { project: project.name, note, actionPoint };
+      }
+    }
+  }
+
+  return null;
+}
+
+// Summaries can lag behind the store (a to-do ticked in Notion), so writes start from the full note
+async function loadActionPointForUpdate(
+  actionId: string
+): Promise<{ project: string; note: Note; actionPoint: ActionPoint } | null> {
+  const found = await findActionPoint(actionId);
+  if (!found) {
+    return null;
+  }
+
+  const note = await getNote(found.project, found.note.id);
+  const actionPoint = note?.actionPoints.find(ap => ap.id === actionId);
+  return note && actionPoint ? { project: found.project, note, actionPoint } : null;
 }
 
-function sanitizeFilename(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-+|-+$/g, '')
-    .substring(0, 50);
+export type ActionPointUpdates = Partial<Pick<ActionPoint, ActionPointField>>;
+
+export async function updateActionPoint(
+  actionId: string,
+  updates: ActionPointUpdates,
+  updatedBy: string = getCurrentUser()
+): Promise<ActionPoint | null> {
+  const found = await loadActionPointForUpdate(actionId);
+  if (!found) {
+    return null;
+  }
+
+  const { project, note, actionPoint } = found;
+  const now = new Date().toISOString();
+  const changes: ActionPointChange[] = [];
+  const updated: ActionPoint = { ...actionPoint };
+
+  for (const field of Object.keys(updates) as ActionPointField[]) {
+    let value = updates[field];
+    let dueDatePhrase: string | undefined;
+
+    if (field === 'dueDate' && value) {
+      const due = normaliseDueDate(value, note);
+      value = due.dueDate;
+      dueDatePhrase = due.dueDatePhrase;
+    }
+
+    // The phrase stays as written unless the date itself changes
+    if (value === undefined || value === actionPoint[field]) continue;
+
+    if (field === 'dueDate') {
+      if (dueDatePhrase) {
+        updated.dueDatePhrase = dueDatePhrase;
+      } else {
+        delete updated.dueDatePhrase;
+      }
+    }
+
+    // An empty string clears optional fields (assignee, dueDate)
+    if (value === '') {
+      if (field === 'assignee' || field === 'dueDate') {
+        delete updated[field];
+        if (field === 'dueDate') delete updated.dueDatePhrase;
+      } else {
+        continue;
+      }
+    } else {
+      (updated as Record<ActionPointField, string>)[field] = value;
+    }
+
+    changes.push({
+      field,
+      ...(actionPoint[field] ? { from: actionPoint[field] } : {}),
+      ...(value ? { to: value } : {}),
+      by: updatedBy,
+      at: now,
+    });
+  }
+
+  if (changes.length === 0) {
+    return actionPoint;
+  }
+
+  updated.updatedAt = now;
+  updated.updatedBy = updatedBy;
+  updated.history = [...(actionPoint.history || []), ...changes];
+
+  const actionPoints = note.actionPoints.map(ap => (ap.id === actionId ? updated : ap));
+  await updateNote(project, note.id, { actionPoints });
+
+  return updated;
+}
+
+// Remember (or forget) the calendar entry made for an action; not a tracked edit, so no history
+export async function setActionCalendarEvent(
+  actionId: string,
+  calendarEvent: CalendarEventRef | undefined
+): Promise<ActionPoint | null> {
+  const found = await loadActionPointForUpdate(actionId);
+  if (!found) {
+    return null;
+  }
+
+  const { project, note, actionPoint } = found;
+  const updated: ActionPoint = { ...actionPoint };
+  if (calendarEvent) {
+    updated.calendarEvent = calendarEvent;
+  } else {
+    delete updated.calendarEvent;
+  }
+
+  const actionPoints = note.actionPoints.map(ap => (ap.id === actionId ? updated : ap));
+  await updateNote(project, note.id, { actionPoints });
+
+  return updated;
 }
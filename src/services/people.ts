@@ -0,0 +1,76 @@
+import { listPeople } from '../utils/config.js';
+import type { ActionPoint, Person } from '../types.js';
+
+function normaliseName(name: string): string {
+  return name.trim().replace(/^@/, '').toLowerCase();
+}
+
+// Match a handle, alias, full name or email address against the team directory
+export function findPerson(name: string, people: Person[] = listPeople()): Person | undefined {
+  const key = normaliseName(name);
+  if (!key) return undefined;
+
+  return people.find(person =>
+    [person.handle, person.name, person.email, ...(person.aliases || [])]
+      .filter((value): value is string => Boolean(value))
+      .some(value => normaliseName(value) === key)
+  );
+}
+
+// Map an assignee onto its directory handle, or just drop the "@" when unknown
+export function normaliseAssignee(name: string, people: Person[] = listPeople()): string {
+  return findPerson(name, people)?.handle || name.trim().replace(/^@/, '');
+}
+
+function isEmailAddress(value: string): boolean {
+  return /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(value);
+}
+
+export interface ResolvedRecipients {
+  emails: string[];
+  people: Person[];
+  // Names with no directory entry or no email address
+  missing: string[];
+}
+
+// Turn handles, names and literal addresses into email addresses
+export function resolveRecipients(names: string[], people: Person[] = listPeople()): ResolvedRecipients {
+  const emails = new Set<string>();
+  const found = new Map<string, Person>();
+  const missing = new Set<string>();
+
+  for (const name of names) {
+    if (isEmailAddress(name)) {
+      emails.add(name);
+      continue;
+    }
+
+    const person = findPerson(name, people);
+    if (person?.email) {
+      emails.add(person.email);
+      found.set(person.handle, person);
+    } else {
+      missing.add(person?.handle || name.replace(/^@/, ''));
+    }
+  }
+
+  return { emails: [...emails], people: [...found.values()], missing: [...missing] };
+}
+
+// Everyone with at least one open action, by directory handle where known
+export function getAssigneesWithOpenActions(actionPoints: ActionPoint[], people: Person[] = listPeople()): string[] {
+  const assignees = actionPoints
+    .filter(ap => ap.status !== 'completed' && ap.assignee)
+    .map(ap => normaliseAssignee(ap.assignee!, people));
+
+  return [...new Set(assignees)].sort();
+}
+
+export function filterByAssignee(
+  actionPoints: ActionPoint[],
+  assignee: string,
+  people: Person[] = listPeople()
+): ActionPoint[] {
+  const handle = normaliseAssignee(assignee, people).toLowerCase();
+  return actionPoints.filter(ap => ap.assignee && normaliseAssignee(ap.assignee, people).toLowerCase() === handle);
+}
@@ -0,0 +1,61 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { getConfigDir, ensureConfigDir } from '../utils/config.js';
+import type { ExtractedAction } from './actionExtractor.js';
+
+// A low-confidence extraction waiting to be accepted, edited or rejected
+export interface ReviewItem {
+  id: string;
+  project: string;
+  noteId: string;
+  action: ExtractedAction;
+  queuedAt: string;
+}
+
+function getQueuePath(): string {
+  return join(getConfigDir(), 'review-queue.json');
+}
+
+function loadQueue(): ReviewItem[] {
+  const queuePath = getQueuePath();
+  if (!existsSync(queuePath)) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(readFileSync(queuePath, 'utf-8')) as ReviewItem[];
+  } catch {
+    return [];
+  }
+}
+
+function saveQueue(items: ReviewItem[]): void {
+  ensureConfigDir();
+  writeFileSync(getQueuePath(), JSON.stringify(items, null, 2));
+}
+
+export function queueForReview(items: ReviewItem[]): void {
+  if (items.length === 0) return;
+  saveQueue([...loadQueue(), ...items]);
+}
+
+export function listReviewItems(project?: string): ReviewItem[] {
+  const items = loadQueue();
+  return project ? items.filter(item => item.project === project) : items;
+}
+
+export function getReviewItem(id: string): ReviewItem | undefined {
+  return loadQueue().find(item => item.id === id);
+}
+
+export function removeReviewItem(id: string): boolean {
+  const items = loadQueue();
+  const remaining = items.filter(item => item.id !== id);
+
+  if (remaining.length === items.length) {
+    return false;
+  }
+
+  saveQueue(remaining);
+  return true;
+}
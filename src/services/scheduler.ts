@@ -0,0 +1,233 @@
+import { addDays, addMinutes, format, isBefore, max, min, parseISO } from 'date-fns';
+import { loadConfig } from '../utils/config.js';
+import { formatInTimeZone, getDefaultTimeZone, isDateOnly, parseInTimeZone } from '../utils/timezone.js';
+import { listCalendarEvents } from './calendar.js';
+import { saveActionEvent } from './calendarSync.js';
+import { isIsoDate } from './dueDates.js';
+import { resolveLegacyDueDates } from './notes.js';
+import { findPerson } from './people.js';
+import type { ActionPoint, CalendarEvent, WorkingHours } from '../types.js';
+
+export interface ScheduleOptions {
+  // First moment an action may be placed (ISO date or date-time, read in the default timezone without an offset)
+  startDate: string;
+  // Minutes per action
+  slotDuration: number;
+  provider?: string;
+  // Days to look ahead for actions without a due date
+  horizonDays?: number;
+  // Return the plan without creating events
+  dryRun?: boolean;
+}
+
+export interface ScheduledAction {
+  actionPoint: ActionPoint;
+  startTime: string;
+  endTime: string;
+  provider: string;
+  attendees: string[];
+  link?: string;
+  error?: string;
+}
+
+export interface SchedulePlan {
+  scheduled: ScheduledAction[];
+  unscheduled: Array<{ actionPoint: ActionPoint; reason: string }>;
+  busyEvents: number;
+}
+
+interface Interval {
+  start: Date;
+  end: Date;
+}
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = {
+  start: '09:00',
+  end: '17:00',
+  days: [1, 2, 3, 4, 5],
+};
+
+const DEFAULT_HORIZON_DAYS = 14;
+const PRIORITY_ORDER: Record<ActionPoint['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+export function getWorkingHours(): WorkingHours {
+  return { ...DEFAULT_WORKING_HOURS, ...loadConfig().workingHours };
+}
+
+// Days are walked as calendar dates; the clock times on them belong to the timezone
+function atTime(day: Date, time: string, timeZone: string): Date {
+  return parseInTimeZone(`${format(day, 'yyyy-MM-dd')}T${time}`, timeZone);
+}
+
+// The date it is in the timezone at that moment, as a local midnight to step through
+function calendarDay(date: Date, timeZone: string): Date {
+  return parseISO(formatInTimeZone(date, timeZone).substring(0, 10));
+}
+
+// Midnight in the timezone, some days after the given calendar day
+function dayBoundary(day: Date, days: number, timeZone: string): Date {
+  return parseInTimeZone(format(addDays(day, days), 'yyyy-MM-dd'), timeZone);
+}
+
+// The due date to plan against; free-text dates that were not resolved count as undated
+function dueDateOf(actionPoint: ActionPoint & { resolvedDueDate?: string }): string | undefined {
+  const due = actionPoint.resolvedDueDate ?? actionPoint.dueDate;
+  return due && isIsoDate(due) ? due : undefined;
+}
+
+// Highest priority first, then earliest due date; undated actions go last
+function sortForScheduling(actionPoints: ActionPoint[]): ActionPoint[] {
+  return [...actionPoints].sort(
+    (a, b) =>
+      PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] ||
+      (dueDateOf(a) || '\uffff').localeCompare(dueDateOf(b) || '\uffff')
+  );
+}
+
+// First free stretch of the given length inside working hours, between from and until
+function findFreeSlot(
+  busy: Interval[],
+  from: Date,
+  until: Date,
+  minutes: number,
+  hours: WorkingHours,
+  timeZone: string
+): Interval | undefined {
+  for (let day = calendarDay(from, timeZone); isBefore(atTime(day, '00:00', timeZone), until); day = addDays(day, 1)) {
+    if (!hours.days.includes(day.getDay())) continue;
+
+    let cursor = max([from, atTime(day, hours.start, timeZone)]);
+    const dayEnd = min([until, atTime(day, hours.end, timeZone)]);
+
+    // Busy intervals are sorted by start, so one pass moves the cursor past each clash
+    for (const interval of busy) {
+      if (!isBefore(interval.start, addMinutes(cursor, minutes))) break;
+      if (isBefore(cursor, interval.end)) {
+        cursor = interval.end;
+      }
+    }
+
+    if (!isBefore(dayEnd, addMinutes(cursor, minutes))) {
+      return { start: cursor, end: addMinutes(cursor, minutes) };
+    }
+  }
+
+  return undefined;
+}
+
+function insertBusy(busy: Interval[], interval: Interval): void {
+  const index = busy.findIndex(b => isBefore(interval.start, b.start));
+  busy.splice(index === -1 ? busy.length : index, 0, interval);
+}
+
+// Place actions into free working time, never later than their due date
+export function planActionSchedule(
+  actionPoints: Array<ActionPoint & { resolvedDueDate?: string }>,
+  busyEvents: CalendarEvent[],
+  options: ScheduleOptions,
+  hours: WorkingHours = getWorkingHours(),
+  timeZone: string = getDefaultTimeZone()
+): SchedulePlan {
+  const from = parseInTimeZone(options.startDate, timeZone);
+  const horizon = dayBoundary(calendarDay(from, timeZone), options.horizonDays ?? DEFAULT_HORIZON_DAYS, timeZone);
+
+  // Free-marked events don't take time, nor do all-day entries such as holidays, birthdays and reminders
+  const busy: Interval[] = busyEvents
+    .filter(e => e.startTime && e.endTime && !e.transparent && !isDateOnly(e.startTime))
+    .map(e => ({
+      start: parseInTimeZone(e.startTime, e.timeZone || timeZone),
+      end: parseInTimeZone(e.endTime, e.timeZone || timeZone),
+    }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const plan: SchedulePlan = { scheduled: [], unscheduled: [], busyEvents: busy.length };
+
+  for (const actionPoint of sortForScheduling(actionPoints.filter(ap => ap.status !== 'completed'))) {
+    const dueDate = dueDateOf(actionPoint);
+    const until = dueDate ? dayBoundary(parseISO(dueDate), 1, timeZone) : horizon;
+
+    if (dueDate && !isBefore(from, until)) {
+      plan.unscheduled.push({ actionPoint, reason: `Overdue (due ${dueDate})` });
+      continue;
+    }
+
+    const slot = findFreeSlot(busy, from, until, options.slotDuration, hours, timeZone);
+    if (!slot) {
+      plan.unscheduled.push({
+        actionPoint,
+        reason: dueDate
+          ? `No free slot before the due date (${dueDate})`
+          : `No free slot in the next ${options.horizonDays ?? DEFAULT_HORIZON_DAYS} days`,
+      });
+      continue;
+    }
+
+    insertBusy(busy, slot);
+
+    const person = actionPoint.assignee ? findPerson(actionPoint.assignee) : undefined;
+    plan.scheduled.push({
+      actionPoint,
+      startTime: formatInTimeZone(slot.start, timeZone),
+      endTime: formatInTimeZone(slot.end, timeZone),
+      provider: options.provider || person?.calendar || loadConfig().defaultCalendar,
+      attendees: person?.email ? [person.email] : [],
+    });
+  }
+
+  plan.scheduled.sort((a, b) => a.startTime.localeCompare(b.startTime));
+
+  return plan;
+}
+
+// Read busy time from every calendar that will receive events, plan, then create or move the events
+export async function scheduleActionPoints(
+  actionPoints: ActionPoint[],
+  options: ScheduleOptions
+): Promise<SchedulePlan> {
+  const config = loadConfig();
+  const timeZone = getDefaultTimeZone();
+  const from = parseInTimeZone(options.startDate, timeZone);
+  const resolved = await resolveLegacyDueDates(actionPoints);
+
+  const latestDue = resolved
+    .map(dueDateOf)
+    .filter((d): d is string => !!d)
+    .sort()
+    .pop();
+  const horizon = dayBoundary(calendarDay(from, timeZone), options.horizonDays ?? DEFAULT_HORIZON_DAYS, timeZone);
+  const windowEnd = latestDue ? max([horizon, dayBoundary(parseISO(latestDue), 1, timeZone)]) : horizon;
+
+  const providers = new Set<string>(
+    actionPoints.map(ap => {
+      const person = ap.assignee ? findPerson(ap.assignee) : undefined;
+      return options.provider || person?.calendar || config.defaultCalendar;
+    })
+  );
+
+  // An action's own earlier event is about to move, so it doesn't count as busy
+  const ownEvents = new Set(actionPoints.flatMap(ap => (ap.calendarEvent ? [ap.calendarEvent.eventId] : [])));
+
+  const busyEvents: CalendarEvent[] = [];
+  for (const provider of providers) {
+    const events = await listCalendarEvents(from.toISOString(), windowEnd.toISOString(), provider);
+    busyEvents.push(...events.filter(e => !e.id || !ownEvents.has(e.id)));
+  }
+
+  const plan = planActionSchedule(resolved, busyEvents, options, getWorkingHours(), timeZone);
+
+  if (options.dryRun) {
+    return plan;
+  }
+
+  // Actions scheduled before keep their event; it is moved rather than duplicated
+  for (const item of plan.scheduled) {
+    try {
+      const ref = await saveActionEvent(item.actionPoint, item, item.provider);
+      item.link = ref.link || ref.eventId;
+    } catch (error) {
+      item.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
+  return plan;
+}
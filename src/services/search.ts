@@ -0,0 +1,167 @@
+import { loadConfig } from '../utils/config.js';
+import { queryNotes } from './notes.js';
+import { extractKeywords } from './noteLinking.js';
+import { filterByAssignee } from './people.js';
+import type { Note } from '../types.js';
+
+export interface SearchOptions {
+  query?: string;
+  project?: string;
+  tags?: string[];
+  from?: string;
+  to?: string;
+  assignee?: string;
+  hasOpenActions?: boolean;
+  limit?: number;
+}
+
+export interface SearchResult {
+  noteId: string;
+  title: string;
+  project: string;
+  date: string;
+  tags: string[];
+  score: number;
+  openActionPoints: number;
+  snippets: string[];
+}
+
+const SNIPPET_RADIUS = 60;
+const MAX_SNIPPETS = 3;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Words starting with a term, so "decide" finds "decided"; \b only knows ASCII word characters,
+// so accented and non-Latin words need their own boundary
+function wordPattern(terms: string[], flags: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])(${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*`, `${flags}u`);
+}
+
+function countMatches(text: string, pattern: RegExp): number {
+  return (text.match(pattern) || []).length;
+}
+
+function openActions(note: Note) {
+  return note.actionPoints.filter(ap => ap.status !== 'completed');
+}
+
+// Term frequency weighted by where the term appears, plus a bonus for the exact phrase
+function scoreNote(note: Note, terms: string[], phrase: string): number {
+  let score = 0;
+  let matchedTerms = 0;
+
+  const title = note.title.toLowerCase();
+  const content = note.content.toLowerCase();
+  const actions = note.actionPoints.map(ap => ap.description).join('\n').toLowerCase();
+  const tags = note.tags.map(t => t.toLowerCase());
+
+  for (const term of terms) {
+    const pattern = wordPattern([term], 'g');
+    const termScore =
+      countMatches(title, pattern) * 10 +
+      (tags.some(t => t.startsWith(term)) ? 8 : 0) +
+      countMatches(actions, pattern) * 3 +
+      Math.min(countMatches(content, pattern), 10);
+
+    if (termScore > 0) {
+      matchedTerms++;
+      score += termScore;
+    }
+  }
+
+  if (matchedTerms === 0) {
+    return 0;
+  }
+
+  // Notes matching more of the query rank above notes repeating one term
+  score *= matchedTerms / terms.length;
+
+  if (phrase.includes(' ') && `${title}\n${content}`.includes(phrase)) {
+    score += 15;
+  }
+
+  return Math.round(score * 10) / 10;
+}
+
+function buildSnippets(content: string, terms: string[]): string[] {
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const pattern = wordPattern(terms, 'gi');
+  const snippets: string[] = [];
+  let lastEnd = -1;
+  let match;
+
+  while ((match = pattern.exec(content)) !== null && snippets.length < MAX_SNIPPETS) {
+    // Skip hits already covered by the previous snippet
+    if (match.index < lastEnd) continue;
+
+    const start = Math.max(0, match.index - SNIPPET_RADIUS);
+    const end = Math.min(content.length, match.index + match[0].length + SNIPPET_RADIUS);
+    lastEnd = end;
+
+    const window = content.substring(start, end).replace(/\s+/g, ' ').trim();
+    const highlighted = window.replace(pattern, '**$&**');
+    snippets.push(`${start > 0 ? '…' : ''}${highlighted}${end < content.length ? '…' : ''}`);
+  }
+
+  return snippets;
+}
+
+export async function searchNotes(options: SearchOptions): Promise<SearchResult[]> {
+  const config = loadConfig();
+  const projects = options.project
+    ? config.projects.filter(p => p.name === options.project)
+    : config.projects;
+
+  const phrase = (options.query || '').toLowerCase().trim();
+  const terms = [...extractKeywords(phrase)];
+  const people = config.people || [];
+
+  // A query made only of stopwords would otherwise match every note
+  if (phrase && terms.length === 0) {
+    return [];
+  }
+
+  const results: SearchResult[] = [];
+
+  for (const project of projects) {
+    const notes = await queryNotes(project.name, {
+      tags: options.tags,
+      from: options.from,
+      to: options.to,
+    });
+
+    for (const note of notes) {
+      const open = openActions(note);
+
+      if (options.hasOpenActions && open.length === 0) continue;
+
+      // Aliases in the team directory count as the same person
+      if (options.assignee && filterByAssignee(note.actionPoints, options.assignee, people).length === 0) {
+        continue;
+      }
+
+      const score = terms.length > 0 ? scoreNote(note, terms, phrase) : 1;
+      if (score === 0) continue;
+
+      results.push({
+        noteId: note.id,
+        title: note.title,
+        project: project.name,
+        date: note.date,
+        tags: note.tags,
+        score,
+        openActionPoints: open.length,
+        snippets: buildSnippets(note.content, terms),
+      });
+    }
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || b.date.localeCompare(a.date))
+    .slice(0, options.limit ?? 10);
+}
@@ -0,0 +1,101 @@
+import { addDays, addWeeks, addMonths, format, parseISO } from 'date-fns';
+import { getSeries } from '../utils/config.js';
+import { createNote, getNote, updateNote, listNoteSummaries, generateId } from './notes.js';
+import { linkNotes } from './noteLinking.js';
+import type { Note, NoteSummary, ActionPoint, MeetingSeries } from '../types.js';
+
+export function getNextSeriesDate(series: MeetingSeries, lastDate: string): string {
+  const last = parseISO(lastDate);
+
+  switch (series.cadence) {
+    case 'daily':
+      return format(addDays(last, 1), 'yyyy-MM-dd');
+    case 'biweekly':
+      return format(addWeeks(last, 2), 'yyyy-MM-dd');
+    case 'monthly':
+      return format(addMonths(last, 1), 'yyyy-MM-dd');
+    case 'weekly':
+    default:
+      return format(addWeeks(last, 1), 'yyyy-MM-dd');
+  }
+}
+
+export async function getLatestSeriesNote(series: MeetingSeries): Promise<NoteSummary | null> {
+  const notes = await listNoteSummaries(series.project);
+  const instances = notes
+    .filter(n => n.series === series.name)
+    .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt));
+
+  return instances[0] || null;
+}
+
+function formatCarriedOver(actionPoints: ActionPoint[], previous: NoteSummary): string {
+  const lines = ['## Carried over', '', `_From [[${previous.title}]]_`, ''];
+
+  for (const ap of actionPoints) {
+    let line = `- [ ] ${ap.description}`;
+    if (ap.assignee) line += ` (@${ap.assignee})`;
+    if (ap.dueDate) line += ` - Due: ${ap.dueDate}`;
+    lines.push(line);
+  }
+
+  return lines.join('\n');
+}
+
+// Create the next note in a series, linked to the previous one and taking over its open actions.
+// The previous note keeps its actions as a record, each pointing at the note that took it over.
+export async function startSeriesNote(
+  seriesName: string,
+  options: { content?: string; date?: string } = {}
+): Promise<{ note: Note; previous: NoteSummary | null; carriedOver: ActionPoint[] }> {
+  const series = getSeries(seriesName);
+  if (!series) {
+    throw new Error(`Series "${seriesName}" not found`);
+  }
+
+  const previous = await getLatestSeriesNote(series);
+  const open = previous ? previous.actionPoints.filter(ap => ap.status !== 'completed' && !ap.carriedOverTo) : [];
+  // The copies get their own IDs so both notes can be updated; the calendar event moves with the open copy
+  const carriedOver = previous ? open.map(ap => ({ ...ap, id: generateId(), carriedOverFrom: previous.id })) : [];
+
+  const date = options.date || (previous ? getNextSeriesDate(series, previous.date) : format(new Date(), 'yyyy-MM-dd'));
+  const sections = [options.content || ''];
+  if (previous && carriedOver.length > 0) {
+    sections.push(formatCarriedOver(carriedOver, previous));
+  }
+
+  const note = await createNote(
+    series.project,
+    `${series.name} ${date}`,
+    sections.filter(Boolean).join('\n\n'),
+    series.tags,
+    {
+      date,
+      series: series.name,
+      attendees: series.attendees,
+      actionPoints: carriedOver,
+      // Each instance is written in the language of the one before
+      lang: previous?.lang,
+    }
+  );
+
+  if (!previous) {
+    return { note, previous, carriedOver };
+  }
+
+  if (open.length > 0) {
+    const openIds = new Set(open.map(ap => ap.id));
+    await updateNote(series.project, previous.id, {
+      actionPoints: previous.actionPoints.map(ap => {
+        if (!openIds.has(ap.id)) return ap;
+        const { calendarEvent: _calendarEvent, ...original } = ap;
+        return { ...original, carriedOverTo: note.id };
+      }),
+    });
+  }
+
+  await linkNotes(series.project, note.id, series.project, previous.id);
+
+  const linked = await getNote(series.project, note.id);
+  return { note: linked || note, previous, carriedOver };
+}
@@ -0,0 +1,200 @@
+import { connect as netConnect } from 'net';
+import type { Socket } from 'net';
+import { connect as tlsConnect } from 'tls';
+import { hostname } from 'os';
+import { EMAIL_ADDRESS } from './mime.js';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Implicit TLS (usually port 465); otherwise STARTTLS is used when the server offers it
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  // Accept self-signed certificates, e.g. on an internal relay
+  allowSelfSigned?: boolean;
+  // Fail instead of sending in the clear when the server does not offer STARTTLS
+  requireTLS?: boolean;
+  // Allow logging in over an unencrypted connection, e.g. to a relay on localhost
+  allowInsecureAuth?: boolean;
+}
+
+export interface SmtpEnvelope {
+  from: string;
+  recipients: string[];
+  // Complete RFC 5322 message with CRLF line endings
+  message: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const TIMEOUT_MS = 30000;
+
+// "Sam <sam@company.com>" -> "sam@company.com"; it goes into a command line, so nothing else may get through
+function envelopeAddress(address: string): string {
+  const bare = (address.match(/<([^<>]*)>\s*$/)?.[1] ?? address).trim();
+  if (/[\r\n]/.test(address) || !EMAIL_ADDRESS.test(bare)) {
+    throw new Error(`Invalid email address "${address.replace(/[\r\n]+/g, ' ')}"`);
+  }
+  return bare;
+}
+
+// Collects server replies; a reply ends at the first "NNN " line, "NNN-" lines continue it
+function createReplyReader(socket: Socket) {
+  let buffer = '';
+  let lines: string[] = [];
+  let failure: Error | undefined;
+  const replies: SmtpReply[] = [];
+  const waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf-8');
+    let index;
+    while ((index = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, index).replace(/\r$/, '');
+      buffer = buffer.slice(index + 1);
+      lines.push(line.slice(4));
+
+      if (line[3] !== '-') {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines };
+        lines = [];
+        const next = waiting.shift();
+        if (next) next.resolve(reply);
+        else replies.push(reply);
+      }
+    }
+  };
+
+  const onError = (error: Error) => {
+    failure = error;
+    waiting.splice(0).forEach(w => w.reject(error));
+  };
+  const onClose = () => onError(failure || new Error('SMTP connection closed'));
+
+  socket.on('data', onData);
+  socket.on('error', onError);
+  socket.on('close', onClose);
+
+  return {
+    read(): Promise<SmtpReply> {
+      const reply = replies.shift();
+      if (reply) return Promise.resolve(reply);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+    },
+    // Stop listening before the socket is handed over to TLS
+    detach(): void {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+    },
+  };
+}
+
+function waitFor(socket: Socket, event: 'connect' | 'secureConnect'): Promise<void> {
+  return new Promise((resolve, reject) => {
+    socket.once(event, () => {
+      socket.off('error', reject);
+      resolve();
+    });
+    socket.once('error', reject);
+  });
+}
+
+// Send one message through an SMTP server; resolves with the server's acceptance reply
+export async function sendSmtpMessage(options: SmtpOptions, envelope: SmtpEnvelope): Promise<string> {
+  // Checked before connecting, so a bad recipient never leaves a half-sent message
+  const from = envelopeAddress(envelope.from);
+  const recipients = envelope.recipients.map(envelopeAddress);
+
+  const port = Number(options.port) || (options.secure ? 465 : 587);
+  const tlsOptions = { servername: options.host, rejectUnauthorized: !options.allowSelfSigned };
+
+  let socket: Socket = options.secure
+    ? tlsConnect({ host: options.host, port, ...tlsOptions })
+    : netConnect({ host: options.host, port });
+  socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error('SMTP server timed out')));
+  await waitFor(socket, options.secure ? 'secureConnect' : 'connect');
+
+  let reader = createReplyReader(socket);
+
+  // The label names the step in errors, so credentials and message content never end up there
+  const command = async (line: string | undefined, expected: number[], label?: string): Promise<SmtpReply> => {
+    if (line !== undefined) {
+      socket.write(`${line}\r\n`);
+    }
+
+    const reply = await reader.read();
+    if (!expected.includes(reply.code)) {
+      const step = label || line?.split(' ')[0] || 'connect';
+      throw new Error(`SMTP ${step} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  };
+
+  const ehlo = async (): Promise<string[]> => {
+    const reply = await command(`EHLO ${hostname() || 'localhost'}`, [250]);
+    return reply.lines.slice(1).map(l => l.toUpperCase());
+  };
+
+  try {
+    await command(undefined, [220]);
+    let extensions = await ehlo();
+    let encrypted = !!options.secure;
+
+    if (!encrypted && extensions.some(e => e.startsWith('STARTTLS'))) {
+      await command('STARTTLS', [220]);
+      reader.detach();
+      socket = tlsConnect({ socket, ...tlsOptions });
+      socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error('SMTP server timed out')));
+      await waitFor(socket, 'secureConnect');
+      reader = createReplyReader(socket);
+      extensions = await ehlo();
+      encrypted = true;
+    }
+
+    if (!encrypted && options.requireTLS) {
+      throw new Error(`SMTP server ${options.host} does not offer STARTTLS and requireTLS is set`);
+    }
+
+    if (options.user && !encrypted && !options.allowInsecureAuth) {
+      throw new Error(
+        `SMTP server ${options.host} does not offer STARTTLS; refusing to send the password unencrypted. ` +
+          'Set smtp.allowInsecureAuth to true to allow it'
+      );
+    }
+
+    if (options.user) {
+      const auth = extensions.find(e => e.startsWith('AUTH')) || '';
+      const encode = (value: string) => Buffer.from(value).toString('base64');
+
+      if (auth.includes('PLAIN') || !auth.includes('LOGIN')) {
+        await command(`AUTH PLAIN ${encode(`\0${options.user}\0${options.password || ''}`)}`, [235], 'AUTH');
+      } else {
+        await command('AUTH LOGIN', [334]);
+        await command(encode(options.user), [334], 'AUTH');
+        await command(encode(options.password || ''), [235], 'AUTH');
+      }
+    }
+
+    await command(`MAIL FROM:<${from}>`, [250]);
+    for (const recipient of recipients) {
+      await command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+
+    await command('DATA', [354]);
+    // Lines starting with a dot are escaped so they can't end the message early
+    const body = envelope.message.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    const accepted = await command(`${body.replace(/\r\n$/, '')}\r\n.`, [250], 'DATA');
+
+    await command('QUIT', [221]).catch(() => undefined);
+
+    return accepted.lines.join(' ');
+  } finally {
+    reader.detach();
+    socket.destroy();
+  }
+}
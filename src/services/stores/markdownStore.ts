@@ -0,0 +1,185 @@
+import { existsSync, mkdirSync, writeFileSync, readFileSync, readdirSync, unlinkSync } from 'fs';
+import { join, basename } from 'path';
+import matter from 'gray-matter';
+import { format } from 'date-fns';
+import { loadConfig } from '../../utils/config.js';
+import { matchesQuery } from '../noteStore.js';
+import type { NoteStore, NoteQuery } from '../noteStore.js';
+import { findIndexedNote, isEntryFresh, recordNote, forgetNote, refreshProjectIndex } from './noteIndex.js';
+import type { Note, ActionPoint, ProjectConfig, NoteLink } from '../../types.js';
+
+function getProjectPath(project: ProjectConfig): string {
+  const config = loadConfig();
+
+  switch (project.storage) {
+    case 'obsidian':
+      return join(config.obsidianVaultPath || config.storageBasePath, project.path);
+    case 'local':
+    default:
+      return join(config.storageBasePath, project.path);
+  }
+}
+
+function ensureProjectDir(project: ProjectConfig): string {
+  const path = getProjectPath(project);
+  if (!existsSync(path)) {
+    mkdirSync(path, { recursive: true });
+  }
+  return path;
+}
+
+function noteToMarkdown(note: Note): string {
+  const frontmatter = {
+    id: note.id,
+    title: note.title,
+    date: note.date,
+    project: note.project,
+    tags: note.tags || [],
+    linkedNotes: note.linkedNotes || [],
+    ...(note.series ? { series: note.series } : {}),
+    ...(note.template ? { template: note.template } : {}),
+    ...(note.attendees?.length ? { attendees: note.attendees } : {}),
+    ...(note.speakers?.length ? { speakers: note.speakers } : {}),
+    ...(note.lang ? { lang: note.lang } : {}),
+    ...(note.location ? { location: note.location } : {}),
+    ...(note.calendarEvent ? { calendarEvent: note.calendarEvent } : {}),
+    ...(note.archived ? { archived: true } : {}),
+    createdAt: note.createdAt,
+    updatedAt: note.updatedAt,
+    actionPoints: note.actionPoints || [],
+  };
+
+  return matter.stringify(note.content, frontmatter);
+}
+
+function markdownToNote(content: string, filename: string): Note {
+  const parsed = matter(content);
+  const data = parsed.data as Partial<Note>;
+
+  return {
+    id: data.id || basename(filename, '.md'),
+    title: data.title || basename(filename, '.md'),
+    date: data.date || format(new Date(), 'yyyy-MM-dd'),
+    project: data.project || '',
+    content: parsed.content,
+    actionPoints: (data.actionPoints as ActionPoint[]) || [],
+    tags: data.tags || [],
+    linkedNotes: (data.linkedNotes as NoteLink[]) || [],
+    ...(data.series ? { series: data.series } : {}),
+    ...(data.template ? { template: data.template } : {}),
+    ...(data.attendees ? { attendees: data.attendees } : {}),
+    ...(data.speakers ? { speakers: data.speakers } : {}),
+    ...(data.lang ? { lang: data.lang } : {}),
+    ...(data.location ? { location: data.location } : {}),
+    ...(data.calendarEvent ? { calendarEvent: data.calendarEvent } : {}),
+    ...(data.archived ? { archived: true } : {}),
+    createdAt: data.createdAt || new Date().toISOString(),
+    updatedAt: data.updatedAt || new Date().toISOString(),
+  };
+}
+
+function sanitizeFilename(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 50);
+}
+
+// Markdown files with YAML frontmatter, one per note (local folders and Obsidian vaults)
+export function createMarkdownStore(project: ProjectConfig): NoteStore {
+  const projectPath = getProjectPath(project);
+
+  function listFiles(): string[] {
+    if (!existsSync(projectPath)) {
+      return [];
+    }
+    return readdirSync(projectPath).filter(f => f.endsWith('.md'));
+  }
+
+  function getFilepath(note: Note): string {
+    return join(projectPath, `${note.date}-${sanitizeFilename(note.title)}.md`);
+  }
+
+  function readNote(filepath: string): Note {
+    return markdownToNote(readFileSync(filepath, 'utf-8'), basename(filepath));
+  }
+
+  // Resolve a note through the index, rescanning the directory only when it is stale
+  function findFile(noteId: string): { filepath: string; note: Note } | null {
+    let entry = findIndexedNote(project.name, noteId);
+    if (!entry || !isEntryFresh(entry)) {
+      refreshProjectIndex(project.name, projectPath, readNote);
+      entry = findIndexedNote(project.name, noteId);
+    }
+
+    if (!entry) {
+      return null;
+    }
+
+    const note = readNote(entry.path);
+    return note.id === noteId ? { filepath: entry.path, note } : null;
+  }
+
+  const store: NoteStore = {
+    async create(note: Note) {
+      ensureProjectDir(project);
+      const filepath = getFilepath(note);
+      // Same date and title would otherwise overwrite another note
+      if (existsSync(filepath)) {
+        throw new Error(`A note already exists at ${filepath}`);
+      }
+      writeFileSync(filepath, noteToMarkdown(note));
+      recordNote(project.name, filepath, note);
+    },
+
+    async get(noteId: string) {
+      return findFile(noteId)?.note || null;
+    },
+
+    async update(note: Note) {
+      const found = findFile(note.id);
+      if (!found) {
+        return false;
+      }
+      // A new title gets a new filename, unless another note already has it
+      const renamedPath = getFilepath(note);
+      if (found.note.title !== note.title && renamedPath !== found.filepath && !existsSync(renamedPath)) {
+        writeFileSync(renamedPath, noteToMarkdown(note));
+        unlinkSync(found.filepath);
+        forgetNote(found.filepath);
+        recordNote(project.name, renamedPath, note);
+        return true;
+      }
+
+      writeFileSync(found.filepath, noteToMarkdown(note));
+      recordNote(project.name, found.filepath, note);
+      return true;
+    },
+
+    async delete(noteId: string) {
+      const found = findFile(noteId);
+      if (!found) {
+        return false;
+      }
+      unlinkSync(found.filepath);
+      forgetNote(found.filepath);
+      return true;
+    },
+
+    async list() {
+      return listFiles().map(file => readNote(join(projectPath, file)));
+    },
+
+    async listSummaries() {
+      return refreshProjectIndex(project.name, projectPath, readNote).map(entry => entry.metadata);
+    },
+
+    async query(query: NoteQuery) {
+      const notes = await store.list();
+      return notes.filter(note => matchesQuery(note, query));
+    },
+  };
+
+  return store;
+}
@@ -0,0 +1,148 @@
+import { existsSync, readFileSync, writeFileSync, readdirSync, statSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import { getConfigDir, ensureConfigDir } from '../../utils/config.js';
+import type { NoteSummary } from '../../types.js';
+
+const INDEX_VERSION = 1;
+
+export interface IndexEntry {
+  id: string;
+  project: string;
+  path: string;
+  mtime: number;
+  metadata: NoteSummary;
+}
+
+interface NoteIndexFile {
+  version: number;
+  // Keyed by absolute file path
+  entries: Record<string, IndexEntry>;
+}
+
+let cached: { index: NoteIndexFile; mtime: number } | null = null;
+
+function getIndexPath(): string {
+  return join(getConfigDir(), 'index.json');
+}
+
+function emptyIndex(): NoteIndexFile {
+  return { version: INDEX_VERSION, entries: {} };
+}
+
+function loadIndex(): NoteIndexFile {
+  const indexPath = getIndexPath();
+  if (!existsSync(indexPath)) {
+    cached = null;
+    return emptyIndex();
+  }
+
+  // The CLI and the MCP server share the file, so reload whenever it changes on disk
+  const mtime = statSync(indexPath).mtimeMs;
+  if (cached && cached.mtime === mtime) {
+    return cached.index;
+  }
+
+  try {
+    const index = JSON.parse(readFileSync(indexPath, 'utf-8')) as NoteIndexFile;
+    if (index.version !== INDEX_VERSION || !index.entries) {
+      return emptyIndex();
+    }
+    cached = { index, mtime };
+    return index;
+  } catch {
+    return emptyIndex();
+  }
+}
+
+function saveIndex(index: NoteIndexFile): void {
+  ensureConfigDir();
+  const indexPath = getIndexPath();
+  writeFileSync(indexPath, JSON.stringify(index));
+  cached = { index, mtime: statSync(indexPath).mtimeMs };
+}
+
+function getMtime(filepath: string): number | null {
+  return existsSync(filepath) ? statSync(filepath).mtimeMs : null;
+}
+
+function toSummary(metadata: NoteSummary & { content?: string }): NoteSummary {
+  const { content: _content, ...summary } = metadata;
+  return summary;
+}
+
+export function isEntryFresh(entry: IndexEntry): boolean {
+  return getMtime(entry.path) === entry.mtime;
+}
+
+export function findIndexedNote(projectName: string, noteId: string): IndexEntry | undefined {
+  const index = loadIndex();
+  return Object.values(index.entries).find(e => e.project === projectName && e.id === noteId);
+}
+
+export function recordNote(projectName: string, filepath: string, note: NoteSummary): void {
+  const mtime = getMtime(filepath);
+  if (mtime === null) return;
+
+  const index = loadIndex();
+  index.entries[filepath] = {
+    id: note.id,
+    project: projectName,
+    path: filepath,
+    mtime,
+    metadata: toSummary(note),
+  };
+  saveIndex(index);
+}
+
+export function forgetNote(filepath: string): void {
+  const index = loadIndex();
+  if (index.entries[filepath]) {
+    delete index.entries[filepath];
+    saveIndex(index);
+  }
+}
+
+// Bring the entries for one project directory up to date, re-parsing only changed files
+export function refreshProjectIndex(
+  projectName: string,
+  dir: string,
+  parse: (filepath: string) => NoteSummary
+): IndexEntry[] {
+  const index = loadIndex();
+  const files = existsSync(dir)
+    ? readdirSync(dir).filter(f => f.endsWith('.md')).map(f => join(dir, f))
+    : [];
+  const present = new Set(files);
+  let changed = false;
+
+  for (const [path, entry] of Object.entries(index.entries)) {
+    if (entry.project === projectName && !present.has(path)) {
+      delete index.entries[path];
+      changed = true;
+    }
+  }
+
+  for (const filepath of files) {
+    const mtime = statSync(filepath).mtimeMs;
+    const entry = index.entries[filepath];
+    if (entry && entry.mtime === mtime && entry.project === projectName) continue;
+
+    const metadata = toSummary(parse(filepath));
+    index.entries[filepath] = { id: metadata.id, project: projectName, path: filepath, mtime, metadata };
+    changed = true;
+  }
+
+  if (changed) {
+    saveIndex(index);
+  }
+
+  return files.map(f => index.entries[f]);
+}
+
+export function clearNoteIndex(): void {
+  const indexPath = getIndexPath();
+  if (existsSync(indexPath)) {
+    unlinkSync(indexPath);
+  }
+  cached = null;
+}
@@ -0,0 +1,412 @@
+import { loadConfig } from '../../utils/config.js';
+import { matchesQuery } from '../noteStore.js';
+import type { NoteStore, NoteQuery } from '../noteStore.js';
+import type { Note, NoteSummary, ActionPoint, ProjectConfig } from '../../types.js';
+
+const NOTION_API_URL = 'https://api.notion.com/v1';
+const NOTION_VERSION = '2022-06-28';
+
+// Notion caps a single rich text object at 2000 characters and a request at 100 blocks
+const MAX_TEXT_LENGTH = 2000;
+const MAX_BLOCKS_PER_REQUEST = 100;
+// Notion allows about three requests a second per integration
+const MAX_CONCURRENT_REQUESTS = 3;
+
+// To-do blocks end with the action point ID, so ticks map back to the right action
+const ACTION_ID_PATTERN = /\s*\[([a-z0-9]+)\]$/i;
+
+// Database property names used for notes
+const PROPERTIES = {
+  title: 'Name',
+  noteId: 'Note ID',
+  project: 'Project',
+  date: 'Date',
+  tags: 'Tags',
+  metadata: 'Metadata',
+};
+
+interface RichText {
+  type?: 'text';
+  text?: { content: string };
+  plain_text?: string;
+}
+
+interface NotionBlock {
+  id: string;
+  type: string;
+  object?: 'block';
+  paragraph?: { rich_text: RichText[] };
+  to_do?: { rich_text: RichText[]; checked: boolean };
+  heading_2?: { rich_text: RichText[] };
+}
+
+interface NotionPage {
+  id: string;
+  properties: Record<string, {
+    title?: RichText[];
+    rich_text?: RichText[];
+    select?: { name: string } | null;
+    multi_select?: Array<{ name: string }>;
+    date?: { start: string } | null;
+  }>;
+}
+
+interface NotionList<T> {
+  results: T[];
+  has_more: boolean;
+  next_cursor: string | null;
+}
+
+// Structured note fields that have no native Notion property
+type NoteMetadata = Omit<Note, 'id' | 'title' | 'date' | 'project' | 'tags' | 'content'>;
+
+function getNotionSettings(): { apiKey: string; databaseId: string; baseUrl: string } {
+  const config = loadConfig();
+
+  if (!config.notionApiKey || !config.notionDatabaseId) {
+    throw new Error('Notion credentials not configured. Run: highlight-workflow config:set notionApiKey <key>');
+  }
+
+  return {
+    apiKey: config.notionApiKey,
+    databaseId: config.notionDatabaseId,
+    baseUrl: (config.notionApiUrl || NOTION_API_URL).replace(/\/+$/, ''),
+  };
+}
+
+async function notionRequest<T>(method: string, path: string, body?: unknown): Promise<T> {
+  const { apiKey, baseUrl } = getNotionSettings();
+
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Notion-Version': NOTION_VERSION,
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Notion API error (${response.status}): ${text}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+function toRichText(text: string): RichText[] {
+  const chunks: RichText[] = [];
+  for (let i = 0; i < text.length; i += MAX_TEXT_LENGTH) {
+    chunks.push({ type: 'text', text: { content: text.substring(i, i + MAX_TEXT_LENGTH) } });
+  }
+  return chunks;
+}
+
+function fromRichText(richText: RichText[] = []): string {
+  return richText.map(rt => rt.plain_text ?? rt.text?.content ?? '').join('');
+}
+
+// Run the calls a few at a time, keeping the order of the results
+async function mapConcurrent<T, R>(items: T[], fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += MAX_CONCURRENT_REQUESTS) {
+    results.push(...(await Promise.all(items.slice(i, i + MAX_CONCURRENT_REQUESTS).map(fn))));
+  }
+  return results;
+}
+
+function describeActionPoint(ap: ActionPoint): string {
+  let text = ap.description;
+  if (ap.assignee) text += ` (@${ap.assignee})`;
+  if (ap.dueDate) text += ` - Due: ${ap.dueDate}`;
+  return text;
+}
+
+function formatActionPointText(ap: ActionPoint): string {
+  return `${describeActionPoint(ap)} [${ap.id}]`;
+}
+
+// Pages written before to-dos carried an ID are matched on their text instead
+function findTodoActionPoint(todo: NotionBlock, actionPoints: ActionPoint[]): ActionPoint | undefined {
+  const text = fromRichText(todo.to_do?.rich_text);
+  const id = text.match(ACTION_ID_PATTERN)?.[1];
+
+  return id
+    ? actionPoints.find(ap => ap.id === id)
+    : actionPoints.find(ap => describeActionPoint(ap) === text.trim());
+}
+
+function toMetadata(note: Note): NoteMetadata {
+  const {
+    id: _id,
+    title: _title,
+    date: _date,
+    project: _project,
+    tags: _tags,
+    content: _content,
+    ...metadata
+  } = note;
+  return metadata;
+}
+
+function noteToProperties(note: Note): Record<string, unknown> {
+  const metadata = toMetadata(note);
+
+  return {
+    [PROPERTIES.title]: { title: toRichText(note.title) },
+    [PROPERTIES.noteId]: { rich_text: toRichText(note.id) },
+    [PROPERTIES.project]: { select: { name: note.project } },
+    [PROPERTIES.date]: { date: { start: note.date } },
+    [PROPERTIES.tags]: { multi_select: note.tags.map(name => ({ name })) },
+    [PROPERTIES.metadata]: { rich_text: toRichText(JSON.stringify(metadata)) },
+  };
+}
+
+// Content lines become paragraphs; action points become to-do blocks under a heading
+function noteToBlocks(note: Note): Array<Omit<NotionBlock, 'id'>> {
+  const blocks: Array<Omit<NotionBlock, 'id'>> = note.content
+    .split('\n')
+    .map(line => ({
+      object: 'block',
+      type: 'paragraph',
+      paragraph: { rich_text: toRichText(line) },
+    }));
+
+  if (note.actionPoints.length > 0) {
+    blocks.push({
+      object: 'block',
+      type: 'heading_2',
+      heading_2: { rich_text: toRichText('Action Points') },
+    });
+
+    for (const ap of note.actionPoints) {
+      blocks.push({
+        object: 'block',
+        type: 'to_do',
+        to_do: {
+          rich_text: toRichText(formatActionPointText(ap)),
+          checked: ap.status === 'completed',
+        },
+      });
+    }
+  }
+
+  return blocks;
+}
+
+async function listBlocks(pageId: string): Promise<NotionBlock[]> {
+  const blocks: NotionBlock[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const query = cursor ? `?page_size=100&start_cursor=${cursor}` : '?page_size=100';
+    const response: NotionList<NotionBlock> = await notionRequest('GET', `/blocks/${pageId}/children${query}`);
+    blocks.push(...response.results);
+    cursor = response.has_more ? response.next_cursor : null;
+  } while (cursor);
+
+  return blocks;
+}
+
+// What a block shows, to tell which existing blocks can stay when a note is rewritten
+function blockSignature(block: Omit<NotionBlock, 'id'>): string {
+  const body = block.paragraph || block.to_do || block.heading_2;
+  return JSON.stringify([block.type, fromRichText(body?.rich_text), block.to_do?.checked ?? null]);
+}
+
+async function appendBlocks(pageId: string, blocks: Array<Omit<NotionBlock, 'id'>>): Promise<void> {
+  for (let i = 0; i < blocks.length; i += MAX_BLOCKS_PER_REQUEST) {
+    await notionRequest('PATCH', `/blocks/${pageId}/children`, {
+      children: blocks.slice(i, i + MAX_BLOCKS_PER_REQUEST),
+    });
+  }
+}
+
+async function queryPages(filter: Record<string, unknown>): Promise<NotionPage[]> {
+  const { databaseId } = getNotionSettings();
+  const pages: NotionPage[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const response: NotionList<NotionPage> = await notionRequest('POST', `/databases/${databaseId}/query`, {
+      filter,
+      page_size: 100,
+      ...(cursor ? { start_cursor: cursor } : {}),
+    });
+    pages.push(...response.results);
+    cursor = response.has_more ? response.next_cursor : null;
+  } while (cursor);
+
+  return pages;
+}
+
+async function findPage(projectName: string, noteId: string): Promise<NotionPage | null> {
+  const pages = await queryPages({
+    and: [
+      { property: PROPERTIES.project, select: { equals: projectName } },
+      { property: PROPERTIES.noteId, rich_text: { equals: noteId } },
+    ],
+  });
+
+  return pages[0] || null;
+}
+
+// Everything but the body comes from page properties, so no block requests are needed
+function pageToSummary(page: NotionPage): NoteSummary {
+  const props = page.properties;
+  const rawMetadata = fromRichText(props[PROPERTIES.metadata]?.rich_text);
+
+  let metadata: Partial<NoteMetadata> = {};
+  try {
+    metadata = rawMetadata ? JSON.parse(rawMetadata) : {};
+  } catch {
+    metadata = {};
+  }
+
+  const now = new Date().toISOString();
+
+  return {
+    ...metadata,
+    id: fromRichText(props[PROPERTIES.noteId]?.rich_text) || page.id,
+    title: fromRichText(props[PROPERTIES.title]?.title),
+    date: props[PROPERTIES.date]?.date?.start || now.substring(0, 10),
+    project: props[PROPERTIES.project]?.select?.name || '',
+    actionPoints: metadata.actionPoints || [],
+    tags: (props[PROPERTIES.tags]?.multi_select || []).map(tag => tag.name),
+    linkedNotes: metadata.linkedNotes || [],
+    createdAt: metadata.createdAt || now,
+    updatedAt: metadata.updatedAt || now,
+  };
+}
+
+// Ticking a to-do in Notion completes the matching action point
+function applyTodoStatus(actionPoints: ActionPoint[], todos: NotionBlock[]): ActionPoint[] {
+  const checked = new Map<string, boolean>();
+  for (const todo of todos) {
+    const ap = findTodoActionPoint(todo, actionPoints);
+    if (ap && todo.to_do) {
+      checked.set(ap.id, todo.to_do.checked);
+    }
+  }
+
+  return actionPoints.map(ap => {
+    if (checked.get(ap.id) === true && ap.status !== 'completed') {
+      return { ...ap, status: 'completed' as const };
+    }
+    if (checked.get(ap.id) === false && ap.status === 'completed') {
+      return { ...ap, status: 'pending' as const };
+    }
+    return ap;
+  });
+}
+
+function blocksToNote(summary: NoteSummary, blocks: NotionBlock[]): Note {
+  const contentLines = blocks
+    .filter(block => block.type === 'paragraph')
+    .map(block => fromRichText(block.paragraph?.rich_text));
+
+  return {
+    ...summary,
+    content: contentLines.join('\n'),
+    actionPoints: applyTodoStatus(summary.actionPoints, blocks.filter(block => block.type === 'to_do')),
+  };
+}
+
+async function pageToNote(page: NotionPage): Promise<Note> {
+  return blocksToNote(pageToSummary(page), await listBlocks(page.id));
+}
+
+// Notes as pages in a Notion database, filtered by the Project select property
+export function createNotionStore(project: ProjectConfig): NoteStore {
+  const projectFilter = { property: PROPERTIES.project, select: { equals: project.name } };
+
+  return {
+    async create(note: Note) {
+      const { databaseId } = getNotionSettings();
+      const blocks = noteToBlocks(note);
+
+      const page = await notionRequest<NotionPage>('POST', '/pages', {
+        parent: { database_id: databaseId },
+        properties: noteToProperties(note),
+        children: blocks.slice(0, MAX_BLOCKS_PER_REQUEST),
+      });
+
+      if (blocks.length > MAX_BLOCKS_PER_REQUEST) {
+        await appendBlocks(page.id, blocks.slice(MAX_BLOCKS_PER_REQUEST));
+      }
+    },
+
+    async get(noteId: string) {
+      const page = await findPage(project.name, noteId);
+      return page ? pageToNote(page) : null;
+    },
+
+    async update(note: Note) {
+      const page = await findPage(project.name, note.id);
+      if (!page) {
+        return false;
+      }
+
+      await notionRequest('PATCH', `/pages/${page.id}`, {
+        properties: noteToProperties(note),
+      });
+
+      // Notion has no bulk replace: keep the unchanged leading blocks and rewrite the rest
+      const existing = await listBlocks(page.id);
+      const blocks = noteToBlocks(note);
+      let kept = 0;
+      while (
+        kept < existing.length &&
+        kept < blocks.length &&
+        blockSignature(existing[kept]) === blockSignature(blocks[kept])
+      ) {
+        kept++;
+      }
+
+      await mapConcurrent(existing.slice(kept), block => notionRequest('DELETE', `/blocks/${block.id}`));
+      await appendBlocks(page.id, blocks.slice(kept));
+
+      return true;
+    },
+
+    async delete(noteId: string) {
+      const page = await findPage(project.name, noteId);
+      if (!page) {
+        return false;
+      }
+
+      await notionRequest('PATCH', `/pages/${page.id}`, { archived: true });
+      return true;
+    },
+
+    async list() {
+      const pages = await queryPages(projectFilter);
+      return mapConcurrent(pages, pageToNote);
+    },
+
+    // To-dos ticked in Notion are picked up once the full note is read
+    async listSummaries() {
+      const pages = await queryPages(projectFilter);
+      return pages.map(pageToSummary);
+    },
+
+    async query(query: NoteQuery) {
+      // Tags and dates are filtered by Notion; free text needs the page body
+      const filters: Array<Record<string, unknown>> = [projectFilter];
+      for (const tag of query.tags || []) {
+        filters.push({ property: PROPERTIES.tags, multi_select: { contains: tag } });
+      }
+      if (query.from) {
+        filters.push({ property: PROPERTIES.date, date: { on_or_after: query.from } });
+      }
+      if (query.to) {
+        filters.push({ property: PROPERTIES.date, date: { on_or_before: query.to } });
+      }
+
+      const pages = await queryPages({ and: filters });
+      const notes = await mapConcurrent(pages, pageToNote);
+      return notes.filter(note => matchesQuery(note, query));
+    },
+  };
+}
@@ -0,0 +1,195 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync, readdirSync } from 'fs';
+import { join, basename } from 'path';
+import matter from 'gray-matter';
+import { getConfigDir } from '../utils/config.js';
+import { renderPlaceholders } from '../utils/placeholders.js';
+
+export interface NoteTemplate {
+  name: string;
+  description: string;
+  tags: string[];
+  // Headings whose sections the action extractor scans; all content when empty
+  extractSections: string[];
+  body: string;
+}
+
+const DEFAULT_TEMPLATES: NoteTemplate[] = [
+  {
+    name: 'standup',
+    description: 'Daily standup',
+    tags: ['standup'],
+    extractSections: ['Blockers', 'Action Items'],
+    body: [
+      '# {{title}}',
+      '',
+      '**Date:** {{date}}  ',
+      '**Attendees:** {{attendees}}',
+      '',
+      '## Yesterday',
+      '',
+      '## Today',
+      '',
+      '## Blockers',
+      '',
+      '## Action Items',
+      '',
+      '{{content}}',
+    ].join('\n'),
+  },
+  {
+    name: 'retro',
+    description: 'Sprint retrospective',
+    tags: ['retro'],
+    extractSections: ['Action Items'],
+    body: [
+      '# {{title}}',
+      '',
+      '**Date:** {{date}}  ',
+      '**Attendees:** {{attendees}}',
+      '',
+      '## What went well',
+      '',
+      '## What could be better',
+      '',
+      '## Action Items',
+      '',
+      '{{content}}',
+    ].join('\n'),
+  },
+  {
+    name: 'one-on-one',
+    description: '1:1 meeting',
+    tags: ['1on1'],
+    extractSections: ['Action Items'],
+    body: [
+      '# {{title}}',
+      '',
+      '**Date:** {{date}}  ',
+      '**With:** {{attendees}}',
+      '',
+      '## Check-in',
+      '',
+      '## Topics',
+      '',
+      '{{content}}',
+      '',
+      '## Feedback',
+      '',
+      '## Action Items',
+      '',
+    ].join('\n'),
+  },
+  {
+    name: 'client-call',
+    description: 'Client call',
+    tags: ['client'],
+    extractSections: ['Next Steps'],
+    body: [
+      '# {{title}}',
+      '',
+      '**Date:** {{date}}  ',
+      '**Project:** {{project}}  ',
+      '**Attendees:** {{attendees}}',
+      '',
+      '## Agenda',
+      '',
+      '## Notes',
+      '',
+      '{{content}}',
+      '',
+      '## Decisions',
+      '',
+      '## Next Steps',
+      '',
+    ].join('\n'),
+  },
+  {
+    name: 'design-review',
+    description: 'Design review',
+    tags: ['design'],
+    extractSections: ['Feedback', 'Follow-ups'],
+    body: [
+      '# {{title}}',
+      '',
+      '**Date:** {{date}}  ',
+      '**Reviewers:** {{attendees}}',
+      '',
+      '## Context',
+      '',
+      '{{content}}',
+      '',
+      '## Feedback',
+      '',
+      '## Decisions',
+      '',
+      '## Follow-ups',
+      '',
+    ].join('\n'),
+  },
+];
+
+function getTemplatesDir(): string {
+  return join(getConfigDir(), 'templates');
+}
+
+function templateToMarkdown(template: NoteTemplate): string {
+  return matter.stringify(template.body, {
+    name: template.name,
+    description: template.description,
+    tags: template.tags,
+    extractSections: template.extractSections,
+  });
+}
+
+// Write the built-in templates on first use so they can be edited in place
+function ensureTemplatesDir(): string {
+  const dir = getTemplatesDir();
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+    for (const template of DEFAULT_TEMPLATES) {
+      writeFileSync(join(dir, `${template.name}.md`), templateToMarkdown(template));
+    }
+  }
+  return dir;
+}
+
+function parseTemplate(filepath: string): NoteTemplate {
+  const parsed = matter(readFileSync(filepath, 'utf-8'));
+  const data = parsed.data as Partial<NoteTemplate>;
+
+  return {
+    name: data.name || basename(filepath, '.md'),
+    description: data.description || '',
+    tags: data.tags || [],
+    extractSections: data.extractSections || [],
+    body: parsed.content.trim(),
+  };
+}
+
+export function listTemplates(): NoteTemplate[] {
+  const dir = ensureTemplatesDir();
+  return readdirSync(dir)
+    .filter(f => f.endsWith('.md'))
+    .map(f => parseTemplate(join(dir, f)));
+}
+
+export function getTemplate(name: string): NoteTemplate | undefined {
+  return listTemplates().find(t => t.name === name);
+}
+
+export function renderTemplate(
+  template: NoteTemplate,
+  variables: Record<string, string | undefined>
+): string {
+  // Templates without a {{content}} slot get the content appended
+  const body = /\{\{\s*content\s*\}\}/.test(template.body)
+    ? template.body
+    : `${template.body}\n\n{{content}}`;
+
+  return renderPlaceholders(body, variables).trim() + '\n';
+}
+
+export function getExtractSections(templateName?: string): string[] {
+  if (!templateName) return [];
+  return getTemplate(templateName)?.extractSections || [];
+}
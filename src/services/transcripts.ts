@@ -0,0 +1,237 @@
+import { extname } from 'path';
+import { createNote } from './notes.js';
+import { isNoteLabel } from './languages/index.js';
+import type { CreateNoteOptions } from './notes.js';
+import type { Note } from '../types.js';
+
+export type TranscriptFormat = 'vtt' | 'srt' | 'zoom' | 'teams' | 'speaker';
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['vtt', 'srt', 'zoom', 'teams', 'speaker'];
+
+export interface TranscriptSegment {
+  speaker?: string;
+  // HH:MM:SS offset (or wall-clock time for Zoom exports)
+  start?: string;
+  text: string;
+}
+
+export interface ParsedTranscript {
+  format: TranscriptFormat;
+  segments: TranscriptSegment[];
+  speakers: string[];
+}
+
+// "00:00:01.000 --> 00:00:04.000", "0:0:0.0 --> 0:0:5.120", "00:00:01,000 --> ..."
+const CUE_TIMING = /^((?:\d{1,2}:)?\d{1,2}:\d{1,2}(?:[.,]\d{1,3})?)\s*-->\s*/;
+// "[Sarah Lee] 10:02:15"
+const ZOOM_HEADER = /^\[([^\]]+)\]\s+(\d{1,2}:\d{2}(?::\d{2})?)$/;
+// "Sarah Lee   0:03"
+const TEAMS_HEADER = /^([^:\t]+?)(?:\s{2,}|\t+)(\d{1,2}:\d{2}(?::\d{2})?)$/;
+// "Sarah: text", "[00:01:02] Sarah: text", "00:01:02 Sarah: text"
+const SPEAKER_LINE = /^(?:\[?(\d{1,2}:\d{2}(?::\d{2})?(?:[.,]\d+)?)\]?\s+)?([^:[\]]{1,40}):\s+(.+)$/;
+// Speaker prefix inside a subtitle cue
+const CUE_SPEAKER = /^([A-Z][\w.'-]*(?:\s+[A-Z][\w.'-]*){0,3}):\s+(.+)$/;
+
+function normaliseTimestamp(value: string): string {
+  const parts = value.split(/[.,]/)[0].split(':').map(p => p.padStart(2, '0'));
+  while (parts.length < 3) parts.unshift('00');
+  return parts.join(':');
+}
+
+function splitLines(text: string): string[] {
+  return text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n').map(l => l.trim());
+}
+
+// WebVTT and SRT share the cue layout: optional id, timing line, text lines
+function parseCues(text: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  const blocks = splitLines(text).join('\n').split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(Boolean);
+    const timingIndex = lines.findIndex(l => CUE_TIMING.test(l));
+
+    // Header, NOTE and STYLE blocks have no timing line
+    if (timingIndex === -1) continue;
+
+    const start = lines[timingIndex].match(CUE_TIMING)![1];
+    const body = lines.slice(timingIndex + 1).join(' ');
+    const voice = body.match(/<v(?:\.[\w.-]+)?\s+([^>]+)>/);
+
+    let speaker = voice?.[1].trim();
+    let content = body.replace(/<[^>]+>/g, '').trim();
+
+    if (!speaker) {
+      const prefixed = content.match(CUE_SPEAKER);
+      if (prefixed && !isNoteLabel(prefixed[1])) {
+        speaker = prefixed[1];
+        content = prefixed[2];
+      }
+    }
+
+    if (content) {
+      segments.push({ speaker, start: normaliseTimestamp(start), text: content });
+    }
+  }
+
+  return segments;
+}
+
+// Zoom and Teams text exports put the speaker and time on a header line above the text
+function parseHeaderBlocks(text: string, header: RegExp): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  let current: TranscriptSegment | null = null;
+
+  for (const line of splitLines(text)) {
+    const match = line.match(header);
+
+    if (match) {
+      current = { speaker: match[1].trim(), start: normaliseTimestamp(match[2]), text: '' };
+      segments.push(current);
+    } else if (line && current) {
+      current.text = current.text ? `${current.text} ${line}` : line;
+    }
+  }
+
+  return segments.filter(s => s.text);
+}
+
+function parseSpeakerLog(text: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+
+  for (const line of splitLines(text)) {
+    if (!line) continue;
+
+    // "Action: ..." and "Decision: ..." lines are notes, not a speaker's turn
+    const match = line.match(SPEAKER_LINE);
+    if (match && isNoteLabel(match[2])) {
+      segments.push({
+        ...(match[1] ? { start: normaliseTimestamp(match[1]) } : {}),
+        text: `${match[2].trim()}: ${match[3].trim()}`,
+      });
+    } else if (match) {
+      segments.push({
+        speaker: match[2].trim(),
+        ...(match[1] ? { start: normaliseTimestamp(match[1]) } : {}),
+        text: match[3].trim(),
+      });
+    } else if (segments.length > 0) {
+      // Continuation of the previous speaker's turn
+      segments[segments.length - 1].text += ` ${line}`;
+    } else {
+      segments.push({ text: line });
+    }
+  }
+
+  return segments;
+}
+
+// Subtitle formats split one turn into many short cues
+function mergeTurns(segments: TranscriptSegment[]): TranscriptSegment[] {
+  const merged: TranscriptSegment[] = [];
+
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.text = `${last.text} ${segment.text}`;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+
+  return merged;
+}
+
+export function detectTranscriptFormat(text: string, filename?: string): TranscriptFormat {
+  const ext = filename ? extname(filename).toLowerCase() : '';
+  const lines = splitLines(text);
+
+  if (ext === '.vtt' || lines[0]?.startsWith('WEBVTT')) return 'vtt';
+  if (ext === '.srt' || lines.some((l, i) => /^\d+$/.test(l) && CUE_TIMING.test(lines[i + 1] || ''))) {
+    return 'srt';
+  }
+  if (lines.some(l => ZOOM_HEADER.test(l))) return 'zoom';
+  if (lines.some(l => TEAMS_HEADER.test(l))) return 'teams';
+  return 'speaker';
+}
+
+export function parseTranscript(text: string, format: TranscriptFormat = detectTranscriptFormat(text)): ParsedTranscript {
+  let segments: TranscriptSegment[];
+
+  switch (format) {
+    case 'vtt':
+    case 'srt':
+      segments = parseCues(text);
+      break;
+    case 'zoom':
+      segments = parseHeaderBlocks(text, ZOOM_HEADER);
+      break;
+    case 'teams':
+      segments = parseHeaderBlocks(text, TEAMS_HEADER);
+      break;
+    case 'speaker':
+    default:
+      segments = parseSpeakerLog(text);
+  }
+
+  segments = mergeTurns(segments);
+  const speakers = [...new Set(segments.map(s => s.speaker).filter((s): s is string => !!s))];
+
+  return { format, segments, speakers };
+}
+
+// One paragraph per turn: "**[00:01:02] Sarah:** text"
+export function transcriptToMarkdown(transcript: ParsedTranscript): string {
+  const lines: string[] = [];
+
+  if (transcript.speakers.length > 0) {
+    lines.push(`**Speakers:** ${transcript.speakers.join(', ')}`, '');
+  }
+
+  lines.push('## Transcript', '');
+
+  for (const segment of transcript.segments) {
+    const time = segment.start ? `[${segment.start}] ` : '';
+    const speaker = segment.speaker ? `**${time}${segment.speaker}:** ` : time;
+    lines.push(`${speaker}${segment.text}`, '');
+  }
+
+  return lines.join('\n').trim() + '\n';
+}
+
+export interface ImportTranscriptOptions extends Pick<CreateNoteOptions, 'date' | 'attendees' | 'lang'> {
+  format?: TranscriptFormat;
+  // Used to detect the format from the file extension
+  filename?: string;
+  tags?: string[];
+}
+
+// Parse a transcript and store it as a note with its speakers as attendees
+export async function importTranscript(
+  projectName: string,
+  title: string,
+  text: string,
+  options: ImportTranscriptOptions = {}
+): Promise<{ note: Note; transcript: ParsedTranscript }> {
+  const format = options.format || detectTranscriptFormat(text, options.filename);
+  const transcript = parseTranscript(text, format);
+
+  if (transcript.segments.length === 0) {
+    throw new Error(`No transcript lines found (format: ${format})`);
+  }
+
+  const note = await createNote(
+    projectName,
+    title,
+    transcriptToMarkdown(transcript),
+    [...new Set(['transcript', ...(options.tags || [])])],
+    {
+      date: options.date,
+      attendees: [...new Set([...(options.attendees || []), ...transcript.speakers])],
+      speakers: transcript.speakers,
+      lang: options.lang,
+    }
+  );
+
+  return { note, transcript };
+}
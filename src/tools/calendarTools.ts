@@ -1,46 +1,76 @@
 import { z } from 'zod';
-import { createCalendarEvent, listCalendarEvents } from '../services/calendar.js';
+import { createCalendarEvent, listCalendarEvents, listCalendarProviders } from '../services/calendar.js';
+import { scheduleActionPoints } from '../services/scheduler.js';
+import { saveActionEvent, syncCalendar } from '../services/calendarSync.js';
 import { getPendingActionPoints } from '../services/notes.js';
-import { actionPointsToCalendarEvents } from '../services/actionExtractor.js';
-import { addHours, format, parseISO } from 'date-fns';
+import { filterByAssignee, resolveRecipients } from '../services/people.js';
+import { addMinutes } from 'date-fns';
+import { formatInTimeZone, getDefaultTimeZone, parseInTimeZone, requireTimeZone } from '../utils/timezone.js';
+
+const providerNames = listCalendarProviders().join(', ');
+
+const timeZoneSchema = z
+  .string()
+  .optional()
+  .describe('IANA timezone for times without an offset, e.g. "Europe/Amsterdam" (defaults to the configured timezone)');
+
+// Start plus a duration, keeping the start's timezone and offset
+function endAfter(startTime: string, minutes: number, timeZone: string): string {
+  return formatInTimeZone(addMinutes(parseInTimeZone(startTime, timeZone), minutes), timeZone);
+}
 
 export const calendarToolSchemas = {
   create_calendar_event: z.object({
     title: z.string().describe('Title of the event'),
     description: z.string().optional().describe('Event description'),
-    startTime: z.string().describe('Start time in ISO format (e.g., 2024-01-15T10:00:00)'),
+    startTime: z.string().describe('Start time in ISO format, with or without offset (e.g., 2024-01-15T10:00:00 or 2024-01-15T10:00:00-05:00)'),
     endTime: z.string().optional().describe('End time in ISO format (defaults to 1 hour after start)'),
-    attendees: z.array(z.string()).optional().describe('List of attendee email addresses'),
+    timeZone: timeZoneSchema,
+    attendees: z.array(z.string()).optional().describe('Attendee email addresses or people handles'),
     location: z.string().optional().describe('Event location'),
-    provider: z.enum(['google', 'outlook']).optional().describe('Calendar provider (uses default if not specified)'),
+    provider: z.string().optional().describe(`Calendar provider: ${providerNames} (uses default if not specified)`),
   }),
 
   list_calendar_events: z.object({
     startDate: z.string().describe('Start date in ISO format'),
     endDate: z.string().describe('End date in ISO format'),
-    provider: z.enum(['google', 'outlook']).optional().describe('Calendar provider'),
+    provider: z.string().optional().describe(`Calendar provider: ${providerNames}`),
+    timeZone: z.string().optional().describe('IANA timezone to read the dates in and return event times in (defaults to the configured timezone)'),
   }),
 
   add_action_to_calendar: z.object({
     actionPointId: z.string().optional().describe('Specific action point ID to add'),
     project: z.string().optional().describe('Filter by project'),
-    scheduleTime: z.string().describe('When to schedule the action (ISO format)'),
+    scheduleTime: z.string().describe('When to schedule the action (ISO format, with or without offset)'),
     duration: z.number().default(60).describe('Duration in minutes'),
-    provider: z.enum(['google', 'outlook']).optional().describe('Calendar provider'),
+    timeZone: timeZoneSchema,
+    provider: z.string().optional().describe(`Calendar provider: ${providerNames} (defaults to the assignee's calendar)`),
   }),
 
   schedule_action_points: z.object({
     project: z.string().optional().describe('Filter by project'),
+    assignee: z.string().optional().describe('Only schedule actions for this person (handle, alias or name)'),
     startDate: z.string().describe('Start scheduling from this date (ISO format)'),
     slotDuration: z.number().default(30).describe('Duration per action point in minutes'),
-    provider: z.enum(['google', 'outlook']).optional().describe('Calendar provider'),
+    horizonDays: z.number().optional().describe('Days to look ahead for actions without a due date (default 14)'),
+    provider: z.string().optional().describe(`Calendar provider: ${providerNames} (defaults to each assignee's calendar)`),
+    dryRun: z.boolean().default(false).describe('Return the proposed slots without creating events'),
+  }),
+
+  sync_calendar: z.object({
+    project: z.string().optional().describe('Only reconcile actions in this project'),
+    completed: z.enum(['mark', 'remove']).optional().describe('Mark completed actions\' events as done or remove them (defaults to config)'),
+    removeOrphans: z.boolean().default(false).describe('Delete events this tool made for actions that no longer exist'),
+    dryRun: z.boolean().default(false).describe('Report what would change without touching the calendar or notes'),
   }),
 };
 
 export const calendarToolHandlers = {
   async create_calendar_event(args: z.infer<typeof calendarToolSchemas.create_calendar_event>) {
+    const timeZone = requireTimeZone(args.timeZone || getDefaultTimeZone());
     const startTime = args.startTime;
-    const endTime = args.endTime || format(addHours(parseISO(startTime), 1), "yyyy-MM-dd'T'HH:mm:ss");
+    const endTime = args.endTime || endAfter(startTime, 60, timeZone);
+    const attendees = args.attendees ? resolveRecipients(args.attendees) : undefined;
 
     const result = await createCalendarEvent(
       {
@@ -48,7 +78,8 @@ export const calendarToolHandlers = {
         description: args.description,
         startTime,
         endTime,
-        attendees: args.attendees,
+        timeZone,
+        attendees: attendees?.emails,
         location: args.location,
       },
       args.provider
@@ -58,16 +89,20 @@ export const calendarToolHandlers = {
       success: true,
       message: 'Calendar event created',
       link: result,
+      ...(attendees?.missing.length ? { missingAddresses: attendees.missing } : {}),
     };
   },
 
   async list_calendar_events(args: z.infer<typeof calendarToolSchemas.list_calendar_events>) {
-    const events = await listCalendarEvents(args.startDate, args.endDate, args.provider);
+    const timeZone = args.timeZone || getDefaultTimeZone();
+    const events = await listCalendarEvents(args.startDate, args.endDate, args.provider, timeZone);
 
     return {
       success: true,
       count: events.length,
+      timeZone,
       events: events.map(e => ({
+        id: e.id,
         title: e.title,
         startTime: e.startTime,
         endTime: e.endTime,
@@ -78,7 +113,7 @@ export const calendarToolHandlers = {
   },
 
   async add_action_to_calendar(args: z.infer<typeof calendarToolSchemas.add_action_to_calendar>) {
-    const actionPoints = getPendingActionPoints(args.project);
+    const actionPoints = await getPendingActionPoints(args.project);
 
     if (args.actionPointId) {
       const actionPoint = actionPoints.find(ap => ap.id === args.actionPointId);
@@ -86,26 +121,19 @@ export const calendarToolHandlers = {
         return { success: false, error: 'Action point not found' };
       }
 
+      const timeZone = requireTimeZone(args.timeZone || getDefaultTimeZone());
       const startTime = args.scheduleTime;
-      const endTime = format(
-        addHours(parseISO(startTime), args.duration / 60),
-        "yyyy-MM-dd'T'HH:mm:ss"
-      );
-
-      const result = await createCalendarEvent(
-        {
-          title: `[Action] ${actionPoint.description.substring(0, 50)}`,
-          description: `Priority: ${actionPoint.priority}\nAssignee: ${actionPoint.assignee || 'Unassigned'}\n\n${actionPoint.description}`,
-          startTime,
-          endTime,
-        },
-        args.provider
-      );
+      const endTime = endAfter(startTime, args.duration, timeZone);
+
+      // The assignee is invited and their preferred calendar is used; an earlier event is moved
+      const moved = !!actionPoint.calendarEvent;
+      const ref = await saveActionEvent(actionPoint, { startTime, endTime, timeZone }, args.provider);
 
       return {
         success: true,
-        message: 'Action point added to calendar',
-        link: result,
+        message: moved ? 'Calendar event moved' : 'Action point added to calendar',
+        link: ref.link || ref.eventId,
+        calendarEvent: ref,
       };
     }
 
@@ -121,10 +149,12 @@ export const calendarToolHandlers = {
   },
 
   async schedule_action_points(args: z.infer<typeof calendarToolSchemas.schedule_action_points>) {
-    const actionPoints = getPendingActionPoints(args.project);
-    const calendarItems = actionPointsToCalendarEvents(actionPoints);
+    let actionPoints = await getPendingActionPoints(args.project);
+    if (args.assignee) {
+      actionPoints = filterByAssignee(actionPoints, args.assignee);
+    }
 
-    if (calendarItems.length === 0) {
+    if (actionPoints.length === 0) {
       return {
         success: true,
         message: 'No pending action points to schedule',
@@ -132,40 +162,60 @@ export const calendarToolHandlers = {
       };
     }
 
-    const results: string[] = [];
-    let currentTime = parseISO(args.startDate);
-
-    for (const item of calendarItems) {
-      const startTime = format(currentTime, "yyyy-MM-dd'T'HH:mm:ss");
-      const endTime = format(
-        addHours(currentTime, args.slotDuration / 60),
-        "yyyy-MM-dd'T'HH:mm:ss"
-      );
-
-      try {
-        const link = await createCalendarEvent(
-          {
-            title: item.title,
-            description: item.description,
-            startTime,
-            endTime,
-          },
-          args.provider
-        );
-        results.push(link);
-      } catch (error) {
-        results.push(`Failed: ${item.title}`);
-      }
+    const plan = await scheduleActionPoints(actionPoints, {
+      startDate: args.startDate,
+      slotDuration: args.slotDuration,
+      provider: args.provider,
+      horizonDays: args.horizonDays,
+      dryRun: args.dryRun,
+    });
 
-      // Move to next slot
-      currentTime = addHours(currentTime, args.slotDuration / 60);
-    }
+    const created = plan.scheduled.filter(item => item.link).length;
 
     return {
       success: true,
-      message: `Scheduled ${results.length} action points`,
-      scheduled: results.length,
-      links: results,
+      message: args.dryRun
+        ? `Proposed slots for ${plan.scheduled.length} of ${actionPoints.length} action points`
+        : `Scheduled ${created} of ${actionPoints.length} action points`,
+      scheduled: args.dryRun ? plan.scheduled.length : created,
+      dryRun: args.dryRun,
+      busyEventsConsidered: plan.busyEvents,
+      plan: plan.scheduled.map(item => ({
+        actionPointId: item.actionPoint.id,
+        description: item.actionPoint.description.substring(0, 100),
+        priority: item.actionPoint.priority,
+        dueDate: item.actionPoint.dueDate,
+        startTime: item.startTime,
+        endTime: item.endTime,
+        provider: item.provider,
+        ...(item.link ? { link: item.link } : {}),
+        ...(item.error ? { error: item.error } : {}),
+      })),
+      unscheduled: plan.unscheduled.map(item => ({
+        actionPointId: item.actionPoint.id,
+        description: item.actionPoint.description.substring(0, 100),
+        dueDate: item.actionPoint.dueDate,
+        reason: item.reason,
+      })),
+    };
+  },
+
+  async sync_calendar(args: z.infer<typeof calendarToolSchemas.sync_calendar>) {
+    const result = await syncCalendar({
+      project: args.project,
+      completed: args.completed,
+      removeOrphans: args.removeOrphans,
+      dryRun: args.dryRun,
+    });
+    const verb = args.dryRun ? 'Would update' : 'Updated';
+    const kept = result.orphans.length - result.orphansRemoved;
+
+    return {
+      success: result.errors.length === 0,
+      message:
+        `${verb} ${result.updated.length}, mark ${result.marked.length}, remove ${result.removed.length + result.orphansRemoved} events` +
+        (kept > 0 ? `; ${kept} orphaned events kept (set removeOrphans to delete them)` : ''),
+      ...result,
     };
   },
 };
@@ -3,41 +3,69 @@ import {
   sendEmail,
   openEmailDraft,
   sendGmail,
-  createGmailDraft,
   sendOutlookEmail,
-  createOutlookDraft,
+  createEmailDraft,
   generateActionPointsEmail,
+  generateAssigneeEmails,
+  generateMeetingSummaryEmail,
+  generateComposedEmail,
 } from '../services/email.js';
-import { getPendingActionPoints, getNote } from '../services/notes.js';
+import { listEmailTemplates } from '../services/emailTemplates.js';
+import { icsAttachment, noteAttachment, noteFolderAttachment } from '../services/attachments.js';
+import { parseVariables } from '../utils/placeholders.js';
+import { getPendingActionPoints, getPendingActionPointsWithNotes, getNote } from '../services/notes.js';
+import { filterByAssignee, getAssigneesWithOpenActions, resolveRecipients } from '../services/people.js';
+import { getMeetingRecipients } from '../services/eventNotes.js';
 
 export const emailToolSchemas = {
   compose_email: z.object({
     to: z.array(z.string()).describe('List of recipient email addresses'),
     cc: z.array(z.string()).optional().describe('CC recipients'),
     bcc: z.array(z.string()).optional().describe('BCC recipients'),
-    subject: z.string().describe('Email subject'),
-    body: z.string().describe('Email body content'),
-    method: z.enum(['draft', 'gmail', 'outlook']).optional().describe('Send method (uses default if not specified)'),
+    subject: z.string().optional().describe('Email subject (defaults to the template subject)'),
+    body: z.string().describe('Email body content, inserted as {{content}} when a template is used'),
+    template: z.string().optional().describe('Email template name (see list_email_templates)'),
+    project: z.string().optional().describe('Project whose default email template applies'),
+    variables: z.array(z.string()).optional().describe('Extra template variables as "key=value" strings'),
+    attachments: z.array(z.string()).optional().describe('Paths of files to attach, from the notes storage folder or Obsidian vault'),
+    method: z.enum(['draft', 'gmail', 'outlook', 'smtp', 'eml']).optional().describe('Send method (uses default if not specified)'),
     sendImmediately: z.boolean().default(false).describe('If true, sends immediately; otherwise creates draft'),
   }),
 
   email_action_points: z.object({
-    to: z.array(z.string()).describe('Recipient email addresses'),
+    to: z.array(z.string()).optional().describe('Recipient email addresses or people handles (defaults to everyone with open actions)'),
     project: z.string().optional().describe('Filter action points by project'),
+    assignee: z.string().optional().describe('Only include actions for this person (handle, alias or name)'),
     subject: z.string().optional().describe('Custom email subject'),
-    method: z.enum(['draft', 'gmail', 'outlook']).optional().describe('Send method'),
+    template: z.string().optional().describe('Email template name (defaults to the project default or "action-points")'),
+    attachIcs: z.boolean().default(false).describe('Attach an .ics file with a calendar entry for each dated action'),
+    method: z.enum(['draft', 'gmail', 'outlook', 'smtp', 'eml']).optional().describe('Send method'),
     sendImmediately: z.boolean().default(false).describe('Send immediately or create draft'),
   }),
 
+  email_action_points_by_assignee: z.object({
+    project: z.string().optional().describe('Filter action points by project'),
+    subject: z.string().optional().describe('Custom email subject'),
+    template: z.string().optional().describe('Email template name (defaults to the project default or "assignee-actions")'),
+    attachIcs: z.boolean().default(false).describe('Attach an .ics file with each person\'s dated actions'),
+    method: z.enum(['draft', 'gmail', 'outlook', 'smtp', 'eml']).optional().describe('Send method'),
+    sendImmediately: z.boolean().default(false).describe('Send immediately or create drafts'),
+  }),
+
   email_meeting_summary: z.object({
-    to: z.array(z.string()).describe('Recipient email addresses'),
+    to: z.array(z.string()).optional().describe('Recipient email addresses or people handles (defaults to the meeting attendees)'),
     project: z.string().describe('Project name'),
     noteId: z.string().describe('Note ID containing meeting summary'),
     includeActionPoints: z.boolean().default(true).describe('Include action points in email'),
-    method: z.enum(['draft', 'gmail', 'outlook']).optional().describe('Send method'),
+    template: z.string().optional().describe('Email template name (defaults to the project default or "meeting-summary")'),
+    attachNote: z.enum(['md', 'html']).optional().describe('Attach the note as a markdown file or HTML page'),
+    attachIcs: z.boolean().default(false).describe('Attach an .ics file with a calendar entry for each dated action'),
+    method: z.enum(['draft', 'gmail', 'outlook', 'smtp', 'eml']).optional().describe('Send method'),
     sendImmediately: z.boolean().default(false).describe('Send immediately or create draft'),
   }),
 
+  list_email_templates: z.object({}),
+
   open_email_draft: z.object({
     to: z.array(z.string()).describe('Recipient email addresses'),
     cc: z.array(z.string()).optional().describe('CC recipients'),
@@ -48,12 +76,25 @@ export const emailToolSchemas = {
 
 export const emailToolHandlers = {
   async compose_email(args: z.infer<typeof emailToolSchemas.compose_email>) {
+    // Without a template the body is sent as written
+    const composed = args.template || args.project
+      ? generateComposedEmail(args.subject, args.body, {
+          template: args.template,
+          project: args.project,
+          variables: parseVariables(args.variables),
+        })
+      : { to: [], subject: args.subject || '', body: args.body };
+
+    if (!composed.subject) {
+      return { success: false, error: 'Provide a subject or a template with one' };
+    }
+
     const draft = {
+      ...composed,
       to: args.to,
       cc: args.cc,
       bcc: args.bcc,
-      subject: args.subject,
-      body: args.body,
+      ...(args.attachments?.length ? { attachments: args.attachments.map(noteFolderAttachment) } : {}),
     };
 
     if (args.sendImmediately) {
@@ -65,19 +106,7 @@ export const emailToolHandlers = {
       };
     }
 
-    // Create draft based on method
-    let result: string;
-    switch (args.method) {
-      case 'gmail':
-        result = await createGmailDraft(draft);
-        break;
-      case 'outlook':
-        result = await createOutlookDraft(draft);
-        break;
-      case 'draft':
-      default:
-        result = await openEmailDraft(draft);
-    }
+    const result = await createEmailDraft(draft, args.method);
 
     return {
       success: true,
@@ -87,7 +116,10 @@ export const emailToolHandlers = {
   },
 
   async email_action_points(args: z.infer<typeof emailToolSchemas.email_action_points>) {
-    const actionPoints = getPendingActionPoints(args.project);
+    let actionPoints = await getPendingActionPoints(args.project);
+    if (args.assignee) {
+      actionPoints = filterByAssignee(actionPoints, args.assignee);
+    }
 
     if (actionPoints.length === 0) {
       return {
@@ -96,95 +128,176 @@ export const emailToolHandlers = {
       };
     }
 
-    const emailDraft = generateActionPointsEmail(actionPoints, args.subject);
-    emailDraft.to = args.to;
+    // Without explicit recipients, everyone with an action in the list gets the email
+    const recipients = resolveRecipients(args.to?.length ? args.to : getAssigneesWithOpenActions(actionPoints));
+    if (recipients.emails.length === 0) {
+      return {
+        success: false,
+        error: 'No email addresses found for the recipients. Add them with: highlight-workflow people:add',
+        missingAddresses: recipients.missing,
+      };
+    }
+
+    const emailDraft = generateActionPointsEmail(actionPoints, args.subject, {
+      template: args.template,
+      project: args.project,
+    });
+    emailDraft.to = recipients.emails;
+    const ics = args.attachIcs ? await icsAttachment(actionPoints) : undefined;
+    if (ics) {
+      emailDraft.attachments = [ics];
+    }
+    const missing = recipients.missing.length > 0 ? { missingAddresses: recipients.missing } : {};
 
     if (args.sendImmediately) {
       const result = await sendEmail(emailDraft, args.method);
       return {
         success: true,
         message: result,
+        recipients: emailDraft.to,
         actionPointCount: actionPoints.length,
+        ...missing,
         sent: true,
       };
     }
 
-    let result: string;
-    switch (args.method) {
-      case 'gmail':
-        result = await createGmailDraft(emailDraft);
-        break;
-      case 'outlook':
-        result = await createOutlookDraft(emailDraft);
-        break;
-      default:
-        result = await openEmailDraft(emailDraft);
-    }
+    const result = await createEmailDraft(emailDraft, args.method);
 
     return {
       success: true,
       message: result,
+      recipients: emailDraft.to,
       actionPointCount: actionPoints.length,
+      ...missing,
       sent: false,
     };
   },
 
+  async email_action_points_by_assignee(args: z.infer<typeof emailToolSchemas.email_action_points_by_assignee>) {
+    const actionPoints = await getPendingActionPointsWithNotes(args.project);
+
+    if (actionPoints.length === 0) {
+      return {
+        success: false,
+        error: 'No pending action points to email',
+      };
+    }
+
+    const { emails, missingAddresses, unassigned } = generateAssigneeEmails(actionPoints, args.subject, {
+      template: args.template,
+      project: args.project,
+    });
+    if (emails.length === 0) {
+      return {
+        success: false,
+        error: 'No assignee has a known email address. Add them with: highlight-workflow people:add',
+        missingAddresses,
+        unassignedCount: unassigned,
+      };
+    }
+
+    const results = [];
+
+    // One failed recipient should not stop the others
+    for (const email of emails) {
+      const ics = args.attachIcs ? await icsAttachment(email.actionPoints) : undefined;
+      if (ics) {
+        email.draft.attachments = [ics];
+      }
+
+      try {
+        const message = args.sendImmediately
+          ? await sendEmail(email.draft, args.method)
+          : await createEmailDraft(email.draft, args.method);
+        results.push({ assignee: email.assignee, to: email.draft.to, actionPointCount: email.actionPoints.length, message });
+      } catch (error) {
+        results.push({
+          assignee: email.assignee,
+          to: email.draft.to,
+          actionPointCount: email.actionPoints.length,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    const delivered = results.filter(r => !('error' in r)).length;
+
+    return {
+      success: delivered > 0,
+      message: `${args.sendImmediately ? 'Sent' : 'Drafted'} ${delivered} of ${emails.length} emails`,
+      emails: results,
+      missingAddresses,
+      unassignedCount: unassigned,
+      sent: args.sendImmediately,
+    };
+  },
+
   async email_meeting_summary(args: z.infer<typeof emailToolSchemas.email_meeting_summary>) {
-    const note = getNote(args.project, args.noteId);
+    const note = await getNote(args.project, args.noteId);
 
     if (!note) {
       return { success: false, error: 'Note not found' };
     }
 
-    let body = `Hi,\n\nHere's a summary from our meeting on ${note.date}:\n\n`;
-    body += note.content;
-
-    if (args.includeActionPoints && note.actionPoints.length > 0) {
-      body += '\n\n---\n\n## Action Points\n\n';
-      note.actionPoints.forEach((ap, i) => {
-        body += `${i + 1}. ${ap.description}`;
-        if (ap.assignee) body += ` (${ap.assignee})`;
-        if (ap.dueDate) body += ` - Due: ${ap.dueDate}`;
-        body += '\n';
-      });
+    // Without explicit recipients, the attendees of the meeting the note came from get the email
+    const recipients = resolveRecipients(args.to?.length ? args.to : await getMeetingRecipients(note));
+    if (recipients.emails.length === 0) {
+      return {
+        success: false,
+        error: 'No email addresses found for the recipients. Pass "to" or add attendees with: highlight-workflow people:add',
+        missingAddresses: recipients.missing,
+      };
     }
 
-    body += '\n\nBest regards';
+    const emailDraft = generateMeetingSummaryEmail(note, {
+      includeActionPoints: args.includeActionPoints,
+      template: args.template,
+    });
+    emailDraft.to = recipients.emails;
+    const missing = recipients.missing.length > 0 ? { missingAddresses: recipients.missing } : {};
 
-    const emailDraft = {
-      to: args.to,
-      subject: `Meeting Summary: ${note.title}`,
-      body,
-    };
+    const ics = args.attachIcs ? await icsAttachment(note.actionPoints, `${note.date}-actions.ics`) : undefined;
+    emailDraft.attachments = [
+      ...(args.attachNote ? [noteAttachment(note, args.attachNote)] : []),
+      ...(ics ? [ics] : []),
+    ];
 
     if (args.sendImmediately) {
       const result = await sendEmail(emailDraft, args.method);
       return {
         success: true,
         message: result,
+        recipients: emailDraft.to,
+        ...missing,
         sent: true,
       };
     }
 
-    let result: string;
-    switch (args.method) {
-      case 'gmail':
-        result = await createGmailDraft(emailDraft);
-        break;
-      case 'outlook':
-        result = await createOutlookDraft(emailDraft);
-        break;
-      default:
-        result = await openEmailDraft(emailDraft);
-    }
+    const result = await createEmailDraft(emailDraft, args.method);
 
     return {
       success: true,
       message: result,
+      recipients: emailDraft.to,
+      ...missing,
       sent: false,
     };
   },
 
+  async list_email_templates() {
+    const templates = listEmailTemplates();
+
+    return {
+      success: true,
+      count: templates.length,
+      templates: templates.map(t => ({
+        name: t.name,
+        description: t.description,
+        subject: t.subject,
+      })),
+    };
+  },
+
   async open_email_draft(args: z.infer<typeof emailToolSchemas.open_email_draft>) {
     const result = await openEmailDraft({
       to: args.to,
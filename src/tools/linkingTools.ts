@@ -61,7 +61,7 @@ export const linkingToolSchemas = {
 
 export const linkingToolHandlers = {
   async find_related_notes(args: z.infer<typeof linkingToolSchemas.find_related_notes>) {
-    const related = findRelatedNotes(args.project, args.noteId, args.limit, args.minScore);
+    const related = await findRelatedNotes(args.project, args.noteId, args.limit, args.minScore);
 
     return {
       success: true,
@@ -76,7 +76,7 @@ export const linkingToolHandlers = {
   },
 
   async link_notes(args: z.infer<typeof linkingToolSchemas.link_notes>) {
-    const result = linkNotes(
+    const result = await linkNotes(
       args.sourceProject,
       args.sourceNoteId,
       args.targetProject,
@@ -87,7 +87,7 @@ export const linkingToolHandlers = {
   },
 
   async unlink_notes(args: z.infer<typeof linkingToolSchemas.unlink_notes>) {
-    const result = unlinkNotes(
+    const result = await unlinkNotes(
       args.sourceProject,
       args.sourceNoteId,
       args.targetProject,
@@ -98,7 +98,7 @@ export const linkingToolHandlers = {
   },
 
   async get_linked_notes(args: z.infer<typeof linkingToolSchemas.get_linked_notes>) {
-    const links = getLinkedNotes(args.project, args.noteId);
+    const links = await getLinkedNotes(args.project, args.noteId);
 
     return {
       success: true,
@@ -114,7 +114,7 @@ export const linkingToolHandlers = {
   },
 
   async auto_link_notes(args: z.infer<typeof linkingToolSchemas.auto_link_notes>) {
-    const newLinks = autoLinkRelatedNotes(args.project, args.noteId, args.limit, args.minScore);
+    const newLinks = await autoLinkRelatedNotes(args.project, args.noteId, args.limit, args.minScore);
 
     return {
       success: true,
@@ -132,7 +132,7 @@ export const linkingToolHandlers = {
   },
 
   async find_backlinks(args: z.infer<typeof linkingToolSchemas.find_backlinks>) {
-    const backlinks = findBacklinks(args.project, args.noteId);
+    const backlinks = await findBacklinks(args.project, args.noteId);
 
     return {
       success: true,
@@ -146,7 +146,7 @@ export const linkingToolHandlers = {
   },
 
   async get_note_graph(args: z.infer<typeof linkingToolSchemas.get_note_graph>) {
-    const graph = getNoteGraph(args.project);
+    const graph = await getNoteGraph(args.project);
 
     return {
       success: true,
@@ -158,7 +158,7 @@ export const linkingToolHandlers = {
   },
 
   async update_obsidian_links(args: z.infer<typeof linkingToolSchemas.update_obsidian_links>) {
-    const note = updateNoteWithObsidianLinks(args.project, args.noteId);
+    const note = await updateNoteWithObsidianLinks(args.project, args.noteId);
 
     if (!note) {
       return { success: false, error: 'Note not found' };
@@ -1,15 +1,34 @@
 import { z } from 'zod';
+import { readFileSync } from 'fs';
 import {
   createNote,
   updateNote,
   getNote,
   listNotes,
+  deleteNote,
+  archiveNote,
+  moveNote,
   addActionPoint,
   getAllActionPoints,
   getPendingActionPoints,
+  updateActionPoint,
+  extractActionPointsIntoNote,
+  acceptReviewItem,
+  rejectReviewItem,
 } from '../services/notes.js';
+import { listReviewItems } from '../services/reviewQueue.js';
 import { extractActionPoints } from '../services/actionExtractor.js';
-import { addProject, listProjects, loadConfig } from '../utils/config.js';
+import { closeActionEvent } from '../services/calendarSync.js';
+import { searchNotes } from '../services/search.js';
+import { buildActionDigest, formatDigestMarkdown } from '../services/digest.js';
+import { generateDigestEmail } from '../services/email.js';
+import { startSeriesNote } from '../services/series.js';
+import { importTranscript } from '../services/transcripts.js';
+import { createNoteFromEvent, findMeetings, formatMeetingLine } from '../services/eventNotes.js';
+import { listCalendarProviders } from '../services/calendar.js';
+import { listTemplates, getExtractSections } from '../services/templates.js';
+import { parseVariables } from '../utils/placeholders.js';
+import { addProject, listProjects, loadConfig, addPerson, listPeople } from '../utils/config.js';
 import type { ActionPoint } from '../types.js';
 
 export const noteToolSchemas = {
@@ -19,8 +38,39 @@ export const noteToolSchemas = {
     content: z.string().describe('Content of the note (markdown supported)'),
     tags: z.array(z.string()).optional().describe('Optional tags for the note'),
     extractActions: z.boolean().optional().describe('Automatically extract action points from content'),
+    template: z.string().optional().describe('Name of a note template to render the note from (see list_templates)'),
+    attendees: z.array(z.string()).optional().describe('Meeting attendees, available to templates as {{attendees}}'),
+    lang: z.string().optional().describe('Note language for action extraction, e.g. "nl" or "de" (detected if omitted)'),
+    variables: z.array(z.string()).optional().describe('Extra template variables as "key=value" strings'),
   }),
 
+  import_transcript: z.object({
+    project: z.string().describe('Name of the project to add the note to'),
+    title: z.string().describe('Title of the note'),
+    transcript: z.string().optional().describe('Transcript text (WebVTT, SRT, Zoom/Teams export or "Speaker: text" lines)'),
+    path: z.string().optional().describe('Path to a transcript file, used when transcript is omitted'),
+    format: z.enum(['vtt', 'srt', 'zoom', 'teams', 'speaker']).optional().describe('Transcript format (detected if omitted)'),
+    date: z.string().optional().describe('Meeting date (YYYY-MM-DD, defaults to today)'),
+    tags: z.array(z.string()).optional().describe('Optional tags for the note'),
+    attendees: z.array(z.string()).optional().describe('Attendees in addition to the speakers found in the transcript'),
+    lang: z.string().optional().describe('Transcript language for action extraction, e.g. "nl" or "de" (detected if omitted)'),
+    extractActions: z.boolean().optional().describe('Extract action points, using the speaker as fallback assignee'),
+  }),
+
+  create_note_from_event: z.object({
+    project: z.string().describe('Name of the project to add the note to'),
+    eventId: z.string().optional().describe('Calendar event ID; otherwise the event is looked up by date and title'),
+    date: z.string().optional().describe('Day of the meeting (YYYY-MM-DD, defaults to today)'),
+    eventTitle: z.string().optional().describe('Part of the event title, to pick one of several meetings that day'),
+    provider: z.string().optional().describe(`Calendar to read: ${listCalendarProviders().join(', ')} (defaults to the configured calendar)`),
+    title: z.string().optional().describe('Note title (defaults to the event title)'),
+    template: z.string().optional().describe('Note template to render the note from (see list_templates)'),
+    tags: z.array(z.string()).optional().describe('Optional tags for the note'),
+    lang: z.string().optional().describe('Note language for action extraction, e.g. "nl" or "de" (detected if omitted)'),
+  }),
+
+  list_templates: z.object({}),
+
   get_note: z.object({
     project: z.string().describe('Project name'),
     noteId: z.string().describe('ID of the note to retrieve'),
@@ -28,6 +78,44 @@ export const noteToolSchemas = {
 
   list_notes: z.object({
     project: z.string().describe('Project name to list notes from'),
+    includeArchived: z.boolean().default(false).describe('Include archived notes'),
+  }),
+
+  update_note: z.object({
+    project: z.string().describe('Project name'),
+    noteId: z.string().describe('ID of the note to update'),
+    title: z.string().optional().describe('New title (renames the note file)'),
+    content: z.string().optional().describe('New content, replacing the existing content'),
+    tags: z.array(z.string()).optional().describe('New tags, replacing the existing tags'),
+  }),
+
+  delete_note: z.object({
+    project: z.string().describe('Project name'),
+    noteId: z.string().describe('ID of the note to delete'),
+  }),
+
+  archive_note: z.object({
+    project: z.string().describe('Project name'),
+    noteId: z.string().describe('ID of the note to archive'),
+    unarchive: z.boolean().default(false).describe('Restore an archived note instead'),
+  }),
+
+  move_note: z.object({
+    project: z.string().describe('Project the note is currently in'),
+    noteId: z.string().describe('ID of the note to move'),
+    targetProject: z.string().describe('Project to move the note to'),
+    title: z.string().optional().describe('Optional new title for the note'),
+  }),
+
+  search_notes: z.object({
+    query: z.string().optional().describe('Free-text query matched against note titles, content and action points'),
+    project: z.string().optional().describe('Limit the search to one project'),
+    tags: z.array(z.string()).optional().describe('Only notes with all of these tags'),
+    from: z.string().optional().describe('Only notes on or after this date (YYYY-MM-DD)'),
+    to: z.string().optional().describe('Only notes on or before this date (YYYY-MM-DD)'),
+    assignee: z.string().optional().describe('Only notes with an action point assigned to this person'),
+    hasOpenActions: z.boolean().optional().describe('Only notes that still have open action points'),
+    limit: z.number().default(10).describe('Maximum number of results'),
   }),
 
   add_action_point: z.object({
@@ -35,17 +123,53 @@ export const noteToolSchemas = {
     noteId: z.string().describe('ID of the note to add action point to'),
     description: z.string().describe('Description of the action point'),
     assignee: z.string().optional().describe('Person assigned to this action'),
-    dueDate: z.string().optional().describe('Due date for the action'),
+    dueDate: z.string().optional().describe('Due date as YYYY-MM-DD or a phrase like "next friday"'),
     priority: z.enum(['low', 'medium', 'high']).default('medium').describe('Priority level'),
   }),
 
+  update_action_point: z.object({
+    actionPointId: z.string().describe('ID of the action point to update'),
+    status: z.enum(['pending', 'in_progress', 'completed']).optional().describe('New status'),
+    description: z.string().optional().describe('New description'),
+    assignee: z.string().optional().describe('New assignee (empty string to unassign)'),
+    dueDate: z.string().optional().describe('New due date as YYYY-MM-DD or a phrase like "next friday" (empty string to clear)'),
+    priority: z.enum(['low', 'medium', 'high']).optional().describe('New priority level'),
+    updatedBy: z.string().optional().describe('Who made the change (defaults to the configured user)'),
+  }),
+
   list_action_points: z.object({
     project: z.string().optional().describe('Filter by project (optional, shows all if omitted)'),
     pendingOnly: z.boolean().default(true).describe('Show only pending action points'),
   }),
 
+  review_extracted_actions: z.object({
+    decision: z.enum(['list', 'accept', 'reject']).default('list').describe('List the queue, or accept or reject one item'),
+    reviewId: z.string().optional().describe('Review item to accept or reject'),
+    project: z.string().optional().describe('Only list items for this project'),
+    description: z.string().optional().describe('Corrected description when accepting'),
+    assignee: z.string().optional().describe('Corrected assignee when accepting (empty string to unassign)'),
+    dueDate: z.string().optional().describe('Corrected due date when accepting (empty string to clear)'),
+    priority: z.enum(['low', 'medium', 'high']).optional().describe('Corrected priority when accepting'),
+  }),
+
+  get_action_digest: z.object({
+    project: z.string().optional().describe('Filter by project (optional, covers all projects if omitted)'),
+    format: z.enum(['markdown', 'json', 'email']).default('markdown').describe('Output format'),
+    date: z.string().optional().describe('Date the digest is built for (YYYY-MM-DD, defaults to today)'),
+    to: z.array(z.string()).optional().describe('Recipients when format is email'),
+  }),
+
   extract_action_points: z.object({
     content: z.string().describe('Text content to extract action points from'),
+    referenceDate: z.string().optional().describe('Date relative due dates are resolved against (YYYY-MM-DD, defaults to today)'),
+    lang: z.string().optional().describe('Language of the content, e.g. "nl" or "de" (detected if omitted)'),
+  }),
+
+  start_series_note: z.object({
+    series: z.string().describe('Name of the meeting series'),
+    content: z.string().optional().describe('Content for the new instance (markdown supported)'),
+    date: z.string().optional().describe('Meeting date (YYYY-MM-DD, defaults to the next date in the cadence, or today for the first)'),
+    extractActions: z.boolean().optional().describe('Automatically extract action points from content'),
   }),
 
   add_project: z.object({
@@ -55,30 +179,42 @@ export const noteToolSchemas = {
   }),
 
   list_projects: z.object({}),
+
+  add_person: z.object({
+    handle: z.string().describe('Handle used as assignee (e.g., "sarah")'),
+    name: z.string().optional().describe('Full name'),
+    email: z.string().optional().describe('Email address'),
+    aliases: z.array(z.string()).optional().describe('Other spellings that should map to this person'),
+    calendar: z.string().optional().describe(`Preferred calendar for this person: ${listCalendarProviders().join(', ')}`),
+  }),
+
+  list_people: z.object({}),
 };
 
 export const noteToolHandlers = {
   async add_note(args: z.infer<typeof noteToolSchemas.add_note>) {
-    const note = createNote(args.project, args.title, args.content, args.tags);
+    const note = await createNote(args.project, args.title, args.content, args.tags, {
+      template: args.template,
+      attendees: args.attendees,
+      lang: args.lang,
+      variables: parseVariables(args.variables),
+    });
 
     if (args.extractActions) {
-      const extracted = extractActionPoints(args.content);
-      for (const action of extracted) {
-        addActionPoint(args.project, note.id, {
-          description: action.description,
-          assignee: action.assignee,
-          dueDate: action.dueDate,
-          priority: action.priority,
-          status: 'pending',
-        });
-      }
+      const { added, queued, unresolvedDates } = await extractActionPointsIntoNote(args.project, note.id, note.content, {
+        sections: getExtractSections(note.template),
+        referenceDate: note.date,
+        language: note.lang,
+      });
 
-      const updatedNote = getNote(args.project, note.id);
+      const updatedNote = await getNote(args.project, note.id);
       return {
         success: true,
         note: updatedNote,
-        extractedActions: extracted.length,
-        message: `Note created with ${extracted.length} action points extracted`,
+        extractedActions: added.length,
+        ...(queued.length > 0 ? { queuedForReview: queued } : {}),
+        ...(unresolvedDates.length > 0 ? { unresolvedDates } : {}),
+        message: `Note created with ${added.length} action points extracted`,
       };
     }
 
@@ -89,8 +225,96 @@ export const noteToolHandlers = {
     };
   },
 
+  async import_transcript(args: z.infer<typeof noteToolSchemas.import_transcript>) {
+    if (!args.transcript && !args.path) {
+      return { success: false, error: 'Provide either transcript text or a path' };
+    }
+
+    const text = args.transcript ?? readFileSync(args.path!, 'utf-8');
+    const { note, transcript } = await importTranscript(args.project, args.title, text, {
+      format: args.format,
+      filename: args.path,
+      date: args.date,
+      tags: args.tags,
+      attendees: args.attendees,
+      lang: args.lang,
+    });
+
+    const extraction = args.extractActions
+      ? await extractActionPointsIntoNote(args.project, note.id, note.content, {
+          referenceDate: note.date,
+          language: note.lang,
+        })
+      : { added: [], queued: [], unresolvedDates: [] };
+
+    return {
+      success: true,
+      note: extraction.added.length > 0 ? await getNote(args.project, note.id) : note,
+      format: transcript.format,
+      speakers: transcript.speakers,
+      segments: transcript.segments.length,
+      extractedActions: extraction.added.length,
+      ...(extraction.queued.length > 0 ? { queuedForReview: extraction.queued } : {}),
+      ...(extraction.unresolvedDates.length > 0 ? { unresolvedDates: extraction.unresolvedDates } : {}),
+      message: `Transcript imported as "${note.title}" with ${transcript.segments.length} turns`,
+    };
+  },
+
+  async create_note_from_event(args: z.infer<typeof noteToolSchemas.create_note_from_event>) {
+    const events = await findMeetings({
+      eventId: args.eventId,
+      date: args.date,
+      title: args.eventTitle,
+      provider: args.provider,
+    });
+
+    if (events.length === 0) {
+      return {
+        success: false,
+        error: args.eventId ? `Event "${args.eventId}" not found` : `No meetings found on ${args.date || 'today'}`,
+      };
+    }
+
+    if (events.length > 1) {
+      return {
+        success: false,
+        error: 'Several meetings match; pass eventId or eventTitle to pick one',
+        events: events.map(e => ({ id: e.id, title: e.title, start: e.startTime, summary: formatMeetingLine(e) })),
+      };
+    }
+
+    const note = await createNoteFromEvent(args.project, events[0], {
+      provider: args.provider,
+      title: args.title,
+      template: args.template,
+      tags: args.tags,
+      lang: args.lang,
+    });
+
+    return {
+      success: true,
+      note,
+      message: `Note "${note.title}" created from the ${formatMeetingLine(events[0])} meeting`,
+    };
+  },
+
+  async list_templates() {
+    const templates = listTemplates();
+
+    return {
+      success: true,
+      count: templates.length,
+      templates: templates.map(t => ({
+        name: t.name,
+        description: t.description,
+        tags: t.tags,
+        extractSections: t.extractSections,
+      })),
+    };
+  },
+
   async get_note(args: z.infer<typeof noteToolSchemas.get_note>) {
-    const note = getNote(args.project, args.noteId);
+    const note = await getNote(args.project, args.noteId);
     if (!note) {
       return { success: false, error: 'Note not found' };
     }
@@ -98,7 +322,7 @@ export const noteToolHandlers = {
   },
 
   async list_notes(args: z.infer<typeof noteToolSchemas.list_notes>) {
-    const notes = listNotes(args.project);
+    const notes = await listNotes(args.project, args.includeArchived);
     return {
       success: true,
       count: notes.length,
@@ -108,12 +332,80 @@ export const noteToolHandlers = {
         date: n.date,
         tags: n.tags,
         actionPointCount: n.actionPoints.length,
+        ...(n.archived ? { archived: true } : {}),
       })),
     };
   },
 
+  async update_note(args: z.infer<typeof noteToolSchemas.update_note>) {
+    const { project, noteId, ...updates } = args;
+    const note = await updateNote(project, noteId, updates);
+
+    if (!note) {
+      return { success: false, error: 'Note not found' };
+    }
+
+    return {
+      success: true,
+      note,
+      message: `Note "${note.title}" updated`,
+    };
+  },
+
+  async delete_note(args: z.infer<typeof noteToolSchemas.delete_note>) {
+    const result = await deleteNote(args.project, args.noteId);
+
+    if (!result) {
+      return { success: false, error: 'Note not found' };
+    }
+
+    return {
+      success: true,
+      message: `Note "${result.note.title}" deleted`,
+      updatedLinks: result.updatedLinks,
+    };
+  },
+
+  async archive_note(args: z.infer<typeof noteToolSchemas.archive_note>) {
+    const note = await archiveNote(args.project, args.noteId, !args.unarchive);
+
+    if (!note) {
+      return { success: false, error: 'Note not found' };
+    }
+
+    return {
+      success: true,
+      message: `Note "${note.title}" ${args.unarchive ? 'restored' : 'archived'}`,
+    };
+  },
+
+  async move_note(args: z.infer<typeof noteToolSchemas.move_note>) {
+    const result = await moveNote(args.project, args.noteId, args.targetProject, args.title);
+
+    if (!result) {
+      return { success: false, error: 'Note not found' };
+    }
+
+    return {
+      success: true,
+      note: result.note,
+      updatedLinks: result.updatedLinks,
+      message: `Note "${result.note.title}" moved to "${args.targetProject}"`,
+    };
+  },
+
+  async search_notes(args: z.infer<typeof noteToolSchemas.search_notes>) {
+    const results = await searchNotes(args);
+
+    return {
+      success: true,
+      count: results.length,
+      results,
+    };
+  },
+
   async add_action_point(args: z.infer<typeof noteToolSchemas.add_action_point>) {
-    const actionPoint = addActionPoint(args.project, args.noteId, {
+    const actionPoint = await addActionPoint(args.project, args.noteId, {
       description: args.description,
       assignee: args.assignee,
       dueDate: args.dueDate,
@@ -132,10 +424,37 @@ export const noteToolHandlers = {
     };
   },
 
+  async update_action_point(args: z.infer<typeof noteToolSchemas.update_action_point>) {
+    const { actionPointId, updatedBy, ...updates } = args;
+    const actionPoint = await updateActionPoint(actionPointId, updates, updatedBy);
+
+    if (!actionPoint) {
+      return { success: false, error: 'Action point not found' };
+    }
+
+    // Its calendar event is marked done or removed; a calendar error doesn't undo the update
+    let calendarEvent: string | undefined;
+    if (updates.status === 'completed' && actionPoint.calendarEvent) {
+      try {
+        calendarEvent = await closeActionEvent(actionPoint);
+        if (calendarEvent !== 'marked') delete actionPoint.calendarEvent;
+      } catch (error) {
+        calendarEvent = `not updated: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      }
+    }
+
+    return {
+      success: true,
+      actionPoint,
+      message: `Action point ${actionPoint.status === 'completed' ? 'completed' : 'updated'}`,
+      ...(calendarEvent ? { calendarEvent } : {}),
+    };
+  },
+
   async list_action_points(args: z.infer<typeof noteToolSchemas.list_action_points>) {
     const actions = args.pendingOnly
-      ? getPendingActionPoints(args.project)
-      : getAllActionPoints(args.project);
+      ? await getPendingActionPoints(args.project)
+      : await getAllActionPoints(args.project);
 
     return {
       success: true,
@@ -144,8 +463,68 @@ export const noteToolHandlers = {
     };
   },
 
+  async review_extracted_actions(args: z.infer<typeof noteToolSchemas.review_extracted_actions>) {
+    if (args.decision === 'list') {
+      const items = listReviewItems(args.project);
+      return { success: true, count: items.length, items };
+    }
+
+    if (!args.reviewId) {
+      return { success: false, error: `reviewId is required to ${args.decision} an item` };
+    }
+
+    if (args.decision === 'reject') {
+      return rejectReviewItem(args.reviewId)
+        ? { success: true, message: 'Extracted action rejected' }
+        : { success: false, error: 'Review item not found' };
+    }
+
+    const actionPoint = await acceptReviewItem(args.reviewId, {
+      description: args.description,
+      assignee: args.assignee,
+      dueDate: args.dueDate,
+      priority: args.priority,
+    });
+
+    if (!actionPoint) {
+      return { success: false, error: 'Review item not found' };
+    }
+
+    return {
+      success: true,
+      actionPoint,
+      message: 'Extracted action accepted',
+    };
+  },
+
+  async get_action_digest(args: z.infer<typeof noteToolSchemas.get_action_digest>) {
+    const digest = await buildActionDigest({ project: args.project, date: args.date });
+
+    if (args.format === 'json') {
+      return { success: true, digest };
+    }
+
+    const unresolved = digest.unresolvedDates.length > 0 ? { unresolvedDates: digest.unresolvedDates } : {};
+
+    if (args.format === 'email') {
+      const emailDraft = generateDigestEmail(digest);
+      emailDraft.to = args.to || [];
+      return { success: true, total: digest.total, emailDraft, ...unresolved };
+    }
+
+    return {
+      success: true,
+      total: digest.total,
+      markdown: formatDigestMarkdown(digest),
+      ...unresolved,
+    };
+  },
+
   async extract_action_points(args: z.infer<typeof noteToolSchemas.extract_action_points>) {
-    const extracted = extractActionPoints(args.content);
+    const extracted = await extractActionPoints(args.content, {
+      referenceDate: args.referenceDate,
+      language: args.lang,
+    });
     return {
       success: true,
       count: extracted.length,
@@ -153,6 +532,34 @@ export const noteToolHandlers = {
     };
   },
 
+  async start_series_note(args: z.infer<typeof noteToolSchemas.start_series_note>) {
+    const { note, previous, carriedOver } = await startSeriesNote(args.series, {
+      content: args.content,
+      date: args.date,
+    });
+
+    // Only the new content is scanned, not the carried-over section
+    const extraction = args.extractActions && args.content
+      ? await extractActionPointsIntoNote(note.project, note.id, args.content, {
+          referenceDate: note.date,
+          language: note.lang,
+        })
+      : { added: [], queued: [], unresolvedDates: [] };
+
+    return {
+      success: true,
+      note: extraction.added.length > 0 ? await getNote(note.project, note.id) : note,
+      previousNoteId: previous?.id,
+      carriedOver: carriedOver.length,
+      extractedActions: extraction.added.length,
+      ...(extraction.queued.length > 0 ? { queuedForReview: extraction.queued } : {}),
+      ...(extraction.unresolvedDates.length > 0 ? { unresolvedDates: extraction.unresolvedDates } : {}),
+      message: previous
+        ? `Started "${note.title}" with ${carriedOver.length} action points carried over`
+        : `Started "${note.title}", the first note in the series`,
+    };
+  },
+
   async add_project(args: z.infer<typeof noteToolSchemas.add_project>) {
     const config = addProject({
       name: args.name,
@@ -181,4 +588,27 @@ export const noteToolHandlers = {
       })),
     };
   },
+
+  async add_person(args: z.infer<typeof noteToolSchemas.add_person>) {
+    const config = addPerson({
+      handle: args.handle.replace(/^@/, ''),
+      ...(args.name ? { name: args.name } : {}),
+      ...(args.email ? { email: args.email } : {}),
+      ...(args.aliases?.length ? { aliases: args.aliases } : {}),
+      ...(args.calendar ? { calendar: args.calendar } : {}),
+    });
+
+    return {
+      success: true,
+      message: `${args.handle} saved to the team directory`,
+      peopleCount: config.people?.length || 0,
+    };
+  },
+
+  async list_people() {
+    return {
+      success: true,
+      people: listPeople(),
+    };
+  },
 };
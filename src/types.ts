@@ -1,7 +1,11 @@
+export type EmailTemplatePurpose = 'actions' | 'summary' | 'assignee' | 'compose';
+
 export interface ProjectConfig {
   name: string;
   path: string;
   storage: 'obsidian' | 'local' | 'notion';
+  // Email template names used by default for this project's emails
+  emailTemplates?: Partial<Record<EmailTemplatePurpose, string>>;
 }
 
 export interface NoteLink {
@@ -21,44 +25,151 @@ export interface Note {
   actionPoints: ActionPoint[];
   tags: string[];
   linkedNotes: NoteLink[];
+  series?: string;
+  template?: string;
+  attendees?: string[];
+  // People heard in an imported transcript
+  speakers?: string[];
+  // Language pack used for extraction, e.g. "nl"; detected when absent
+  lang?: string;
+  location?: string;
+  // The meeting this note was started from; summary emails go to its attendees
+  calendarEvent?: CalendarEventRef;
+  archived?: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+export type NoteSummary = Omit<Note, 'content'>;
+
 export interface ActionPoint {
   id: string;
   description: string;
   assignee?: string;
+  // ISO date (YYYY-MM-DD) when the due date could be resolved
   dueDate?: string;
+  // The due date as originally written, e.g. "next friday"
+  dueDatePhrase?: string;
   priority: 'low' | 'medium' | 'high';
   status: 'pending' | 'in_progress' | 'completed';
   noteId: string;
+  carriedOverFrom?: string;
+  // Set on the original once a later series note takes the action over; the copy there stays open
+  carriedOverTo?: string;
+  updatedAt?: string;
+  updatedBy?: string;
+  history?: ActionPointChange[];
+  // The calendar entry made for this action, so re-scheduling updates it instead of adding another
+  calendarEvent?: CalendarEventRef;
+}
+
+export interface CalendarEventRef {
+  // Name of a registered calendar provider: google, outlook, caldav, ics, ...
+  provider: string;
+  eventId: string;
+  link?: string;
+}
+
+export type ActionPointField = 'description' | 'assignee' | 'dueDate' | 'priority' | 'status';
+
+export interface ActionPointChange {
+  field: ActionPointField;
+  from?: string;
+  to?: string;
+  by: string;
+  at: string;
+}
+
+export interface MeetingSeries {
+  name: string;
+  project: string;
+  cadence: 'daily' | 'weekly' | 'biweekly' | 'monthly';
+  tags: string[];
+  attendees: string[];
+}
+
+// An entry in the team directory that assignees are matched against
+export interface Person {
+  handle: string;
+  name?: string;
+  email?: string;
+  // Other spellings seen in notes, e.g. "sarah.j" or "Sarah Jones"
+  aliases?: string[];
+  // Calendar that events for this person go to by default
+  calendar?: string;
 }
 
 export interface CalendarEvent {
+  // Provider's event ID, set on events read from a calendar
+  id?: string;
   title: string;
   description?: string;
   startTime: string;
   endTime: string;
+  // IANA zone, e.g. "Europe/Amsterdam"; times without an offset are read in it
+  timeZone?: string;
   attendees?: string[];
   location?: string;
+  // Shown as free, so it does not take up time when scheduling
+  transparent?: boolean;
 }
 
+export interface WorkingHours {
+  // HH:mm, local time
+  start: string;
+  end: string;
+  // 0 = Sunday ... 6 = Saturday
+  days: number[];
+}
+
+export type EmailMethod = 'draft' | 'gmail' | 'outlook' | 'smtp' | 'eml';
+
 export interface EmailDraft {
   to: string[];
   cc?: string[];
   bcc?: string[];
   subject: string;
   body: string;
+  // Rendered HTML alternative; the body stays as the plain-text part
+  html?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  // Text is sent as UTF-8
+  content: string | Buffer;
+}
+
+export interface ExtractorConfig {
+  // 'regex' (default) or 'llm'
+  strategy?: string;
+  // Extracted actions scoring below this (0-1, default 0.6) go to the review queue
+  reviewThreshold?: number;
+  // OpenAI-compatible chat completions endpoint used by the 'llm' strategy
+  llm?: {
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+    timeoutMs?: number;
+  };
 }
 
 export interface Config {
   projects: ProjectConfig[];
+  series?: MeetingSeries[];
+  people?: Person[];
   defaultProject: string;
   storageBasePath: string;
+  userName?: string;
   obsidianVaultPath?: string;
   notionApiKey?: string;
   notionDatabaseId?: string;
+  notionApiUrl?: string;
+  extractor?: ExtractorConfig;
+  // Replaces {{signature}} in email templates; defaults to "Best regards"
+  emailSignature?: string;
   google?: {
     clientId: string;
     clientSecret: string;
@@ -70,6 +181,34 @@ export interface Config {
     tenantId: string;
     refreshToken: string;
   };
-  defaultCalendar: 'google' | 'outlook';
-  defaultEmailMethod: 'draft' | 'gmail' | 'outlook';
+  // Calendar collection on a CalDAV server such as Nextcloud, Fastmail or Radicale
+  caldav?: {
+    url: string;
+    username?: string;
+    password?: string;
+  };
+  // Calendar file used by the 'ics' provider; defaults to ~/.highlight-workflow/calendar.ics
+  icsCalendarPath?: string;
+  // Plain SMTP relay for the 'smtp' email method
+  smtp?: {
+    host: string;
+    port: number;
+    secure?: boolean;
+    user?: string;
+    password?: string;
+    from: string;
+    allowSelfSigned?: boolean;
+    requireTLS?: boolean;
+    allowInsecureAuth?: boolean;
+  };
+  // Where the 'eml' method writes messages; defaults to ~/.highlight-workflow/outbox
+  emlOutputDir?: string;
+  // When scheduled action points may be placed; defaults to 09:00-17:00 on weekdays
+  workingHours?: Partial<WorkingHours>;
+  // What happens to the calendar entry of a completed action; defaults to 'mark'
+  completedActionEvents?: 'mark' | 'remove';
+  // IANA zone used for calendar times without an offset and for listed events; defaults to the machine's
+  timezone?: string;
+  defaultCalendar: string;
+  defaultEmailMethod: EmailMethod;
 }
@@ -1,7 +1,7 @@
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { join } from 'path';
-import { homedir } from 'os';
-import type { Config, ProjectConfig } from '../types.js';
+import { homedir, userInfo } from 'os';
+import type { Config, ProjectConfig, MeetingSeries, Person, EmailTemplatePurpose } from '../types.js';
 
 const CONFIG_DIR = join(homedir(), '.highlight-workflow');
 const CONFIG_FILE = join(CONFIG_DIR, 'config.json');
@@ -75,3 +75,97 @@ export function listProjects(): ProjectConfig[] {
   const config = loadConfig();
   return config.projects;
 }
+
+// Set or, without a template name, clear a project's default email template
+export function setProjectEmailTemplate(projectName: string, purpose: EmailTemplatePurpose, template?: string): boolean {
+  const config = loadConfig();
+  const project = config.projects.find(p => p.name === projectName);
+  if (!project) {
+    return false;
+  }
+
+  const templates = { ...project.emailTemplates };
+  if (template) {
+    templates[purpose] = template;
+  } else {
+    delete templates[purpose];
+  }
+
+  project.emailTemplates = templates;
+  saveConfig(config);
+  return true;
+}
+
+export function addSeries(series: MeetingSeries): Config {
+  const config = loadConfig();
+  const allSeries = config.series || [];
+  const existing = allSeries.findIndex(s => s.name === series.name);
+
+  if (existing >= 0) {
+    allSeries[existing] = series;
+  } else {
+    allSeries.push(series);
+  }
+
+  config.series = allSeries;
+  saveConfig(config);
+  return config;
+}
+
+export function getSeries(name: string): MeetingSeries | undefined {
+  const config = loadConfig();
+  return (config.series || []).find(s => s.name === name);
+}
+
+export function listSeries(): MeetingSeries[] {
+  const config = loadConfig();
+  return config.series || [];
+}
+
+export function addPerson(person: Person): Config {
+  const config = loadConfig();
+  const people = config.people || [];
+  const existing = people.findIndex(p => p.handle === person.handle);
+
+  if (existing >= 0) {
+    people[existing] = person;
+  } else {
+    people.push(person);
+  }
+
+  config.people = people;
+  saveConfig(config);
+  return config;
+}
+
+export function removePerson(handle: string): boolean {
+  const config = loadConfig();
+  const people = config.people || [];
+  const remaining = people.filter(p => p.handle !== handle);
+
+  if (remaining.length === people.length) {
+    return false;
+  }
+
+  config.people = remaining;
+  saveConfig(config);
+  return true;
+}
+
+export function listPeople(): Person[] {
+  const config = loadConfig();
+  return config.people || [];
+}
+
+export function getCurrentUser(): string {
+  const config = loadConfig();
+  if (config.userName) {
+    return config.userName;
+  }
+
+  try {
+    return userInfo().username;
+  } catch {
+    return 'unknown';
+  }
+}
@@ -0,0 +1,228 @@
+// Minimal markdown rendering for email bodies: headings, lists, task lists,
+// quotes, code, emphasis and links. Wikilinks become plain text.
+
+const WIKILINK = /\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g;
+const TASK_ITEM = /^\s*[-*+]\s+\[([ xX])\]\s+(.*)$/;
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*(?:-{3,}|\*{3,}|_{3,})\s*$/;
+const FENCE = /^\s*```/;
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// [[Note]] -> Note, [[Note|Alias]] -> Alias
+export function stripWikilinks(text: string): string {
+  return text.replace(WIKILINK, (_, target: string, alias?: string) => (alias || target).trim());
+}
+
+// Anything else (javascript:, data:, relative paths) is shown as plain text
+const LINK_SCHEMES = /^(?:https?:\/\/|mailto:)/i;
+
+function renderInline(text: string): string {
+  // Code spans are escaped but otherwise left alone
+  return stripWikilinks(text)
+    .split(/(`[^`]+`)/)
+    .map(part => {
+      if (/^`[^`]+`$/.test(part)) {
+        return `<code>${escapeHtml(part.slice(1, -1))}</code>`;
+      }
+
+      return escapeHtml(part)
+        .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label: string, href: string) =>
+          LINK_SCHEMES.test(href) ? `<a href="${href}">${label}</a>` : label
+        )
+        .replace(/\*\*([^*]+)\*\*|__([^_]+)__/g, (_, a?: string, b?: string) => `<strong>${a ?? b}</strong>`)
+        .replace(/(^|[^*\w])\*([^*\s][^*]*?)\*(?!\w)/g, '$1<em>$2</em>')
+        .replace(/(^|[^_\w])_([^_\s][^_]*?)_(?!\w)/g, '$1<em>$2</em>');
+    })
+    .join('');
+}
+
+interface TaskRow {
+  done: boolean;
+  description: string;
+  assignee?: string;
+  due?: string;
+}
+
+// Task lines as written by formatActionPointLine: "- [ ] Send deck (@sarah) - Due: 2025-03-07"
+function parseTask(checked: string, text: string): TaskRow {
+  let description = text.trim();
+  let due: string | undefined;
+  let assignee: string | undefined;
+
+  const dueMatch = description.match(/\s+-\s+Due:\s*(.+)$/i);
+  if (dueMatch) {
+    due = dueMatch[1].trim();
+    description = description.slice(0, dueMatch.index).trim();
+  }
+
+  const assigneeMatch = description.match(/\s*\(@([^)]+)\)$/);
+  if (assigneeMatch) {
+    assignee = assigneeMatch[1].trim();
+    description = description.slice(0, assigneeMatch.index).trim();
+  }
+
+  return { done: checked.toLowerCase() === 'x', description, assignee, due };
+}
+
+function renderTaskTable(rows: TaskRow[]): string {
+  const showAssignee = rows.some(r => r.assignee);
+  const showDue = rows.some(r => r.due);
+  const cell = 'style="border:1px solid #ddd;padding:4px 8px;text-align:left"';
+
+  const header = ['', 'Action', ...(showAssignee ? ['Assignee'] : []), ...(showDue ? ['Due'] : [])]
+    .map(h => `<th ${cell}>${h}</th>`)
+    .join('');
+
+  const body = rows
+    .map(row => {
+      const cells = [
+        row.done ? '&#9745;' : '&#9744;',
+        renderInline(row.description),
+        ...(showAssignee ? [escapeHtml(row.assignee || '')] : []),
+        ...(showDue ? [escapeHtml(row.due || '')] : []),
+      ];
+      return `<tr>${cells.map(c => `<td ${cell}>${c}</td>`).join('')}</tr>`;
+    })
+    .join('\n');
+
+  return `<table style="border-collapse:collapse">\n<thead><tr>${header}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+}
+
+// Render markdown to an HTML fragment
+export function markdownToHtml(markdown: string): string {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const blocks: string[] = [];
+  let i = 0;
+
+  // Consume consecutive lines matching a pattern
+  const collect = (pattern: RegExp): RegExpMatchArray[] => {
+    const matches: RegExpMatchArray[] = [];
+    let match;
+    while (i < lines.length && (match = lines[i].match(pattern))) {
+      matches.push(match);
+      i++;
+    }
+    return matches;
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) {
+        code.push(lines[i++]);
+      }
+      i++;
+      blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const level = heading[1].length;
+      blocks.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (TASK_ITEM.test(line)) {
+      blocks.push(renderTaskTable(collect(TASK_ITEM).map(m => parseTask(m[1], m[2]))));
+      continue;
+    }
+
+    if (BULLET_ITEM.test(line)) {
+      const items = collect(BULLET_ITEM).map(m => `<li>${renderInline(m[1])}</li>`);
+      blocks.push(`<ul>\n${items.join('\n')}\n</ul>`);
+      continue;
+    }
+
+    if (ORDERED_ITEM.test(line)) {
+      const items = collect(ORDERED_ITEM).map(m => `<li>${renderInline(m[1])}</li>`);
+      blocks.push(`<ol>\n${items.join('\n')}\n</ol>`);
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      const quoted = collect(/^\s*>\s?(.*)$/).map(m => m[1]);
+      blocks.push(`<blockquote>${markdownToHtml(quoted.join('\n'))}</blockquote>`);
+      continue;
+    }
+
+    // A paragraph runs until a blank line or the start of another block
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !(paragraph.length > 0 && [FENCE, HEADING, RULE, BULLET_ITEM, ORDERED_ITEM].some(p => p.test(lines[i])))
+    ) {
+      paragraph.push(renderInline(lines[i].trim()));
+      i++;
+    }
+    blocks.push(`<p>${paragraph.join('<br>\n')}</p>`);
+  }
+
+  return blocks.join('\n');
+}
+
+// Wrap rendered markdown in a standalone HTML document for email clients
+export function markdownToHtmlDocument(markdown: string): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head><meta charset="utf-8"></head>',
+    '<body style="font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;font-size:14px;line-height:1.5">',
+    markdownToHtml(markdown),
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+// Plain-text fallback: markdown stays readable, but links lose their syntax
+export function markdownToPlainText(markdown: string): string {
+  return stripWikilinks(markdown).replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '$1 ($2)');
+}
+
+// Calendar descriptions often arrive as HTML; keep the line breaks and list items, drop the markup
+export function htmlToPlainText(html: string): string {
+  if (!/<[a-z][^>]*>/i.test(html)) {
+    return html.trim();
+  }
+
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<\/(p|div|li|h[1-6]|tr)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
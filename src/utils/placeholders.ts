@@ -0,0 +1,20 @@
+// Replace {{name}} placeholders; unknown placeholders are left in place so they stay visible
+export function renderPlaceholders(template: string, variables: Record<string, string | undefined>): string {
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (match, key: string) => {
+    const value = variables[key];
+    return value === undefined ? match : value;
+  });
+}
+
+// Parse "key=value" pairs as passed on the command line or through MCP string arrays
+export function parseVariables(pairs: string[] = []): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  for (const pair of pairs) {
+    const index = pair.indexOf('=');
+    if (index <= 0) continue;
+    variables[pair.substring(0, index).trim()] = pair.substring(index + 1).trim();
+  }
+
+  return variables;
+}
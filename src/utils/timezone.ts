@@ -0,0 +1,130 @@
+import { parseISO } from 'date-fns';
+import { loadConfig } from './config.js';
+
+const OFFSET_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/i;
+const LOCAL_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/;
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+export function getHostTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// The configured timezone, or the machine's own when none is set
+export function getDefaultTimeZone(): string {
+  return loadConfig().timezone || getHostTimeZone();
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function requireTimeZone(timeZone: string): string {
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown timezone "${timeZone}". Use an IANA name such as Europe/Amsterdam`);
+  }
+  return timeZone;
+}
+
+// All-day events are plain dates and belong to no timezone
+export function isDateOnly(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+export function hasOffset(value: string): boolean {
+  return OFFSET_PATTERN.test(value);
+}
+
+function wallClock(date: Date, timeZone: string): WallClock {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+// Minutes the zone is ahead of UTC at this instant
+function offsetMinutes(date: Date, timeZone: string): number {
+  const clock = wallClock(date, timeZone);
+  const asUtc = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+// An ISO date or date-time as an instant; values without an offset are wall-clock time in the zone
+export function parseInTimeZone(value: string, timeZone: string): Date {
+  if (hasOffset(value)) {
+    const date = parseISO(value);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid date-time "${value}"`);
+    }
+    return date;
+  }
+
+  const match = value.trim().match(LOCAL_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid date-time "${value}". Use ISO format, e.g. 2026-01-15T10:00 or 2026-01-15T10:00:00+01:00`);
+  }
+
+  const [year, month, day, hour, minute, second] = match.slice(1).map(part => Number(part || 0));
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  // The offset at the first guess can be on the other side of a DST change, so look again from there
+  const guess = offsetMinutes(new Date(asUtc), timeZone);
+  const offset = offsetMinutes(new Date(asUtc - guess * 60000), timeZone);
+
+  return new Date(asUtc - offset * 60000);
+}
+
+// "2026-10-19T09:30:00+02:00"
+export function formatInTimeZone(date: Date, timeZone: string): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const clock = wallClock(date, timeZone);
+  const offset = offsetMinutes(date, timeZone);
+  const sign = offset < 0 ? '-' : '+';
+
+  return (
+    `${clock.year}-${pad(clock.month)}-${pad(clock.day)}` +
+    `T${pad(clock.hour)}:${pad(clock.minute)}:${pad(clock.second)}` +
+    `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`
+  );
+}
+
+// The date it is right now in the zone (YYYY-MM-DD)
+export function todayInTimeZone(timeZone: string = getDefaultTimeZone()): string {
+  return formatInTimeZone(new Date(), timeZone).substring(0, 10);
+}
+
+// Re-express a time in the target zone with its offset; times without one are read in the source zone
+export function toTimeZone(value: string, timeZone: string, sourceTimeZone: string = timeZone): string {
+  if (!value || isDateOnly(value)) {
+    return value;
+  }
+  return formatInTimeZone(parseInTimeZone(value, sourceTimeZone), timeZone);
+}
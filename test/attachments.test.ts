@@ -0,0 +1,45 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { noteFolderAttachment as NoteFolderAttachment } from '../src/services/attachments.js';
+
+describe('noteFolderAttachment', () => {
+  const home = mkdtempSync(join(tmpdir(), 'hw-attach-'));
+  const notes = join(home, 'notes');
+  const secret = join(home, '.ssh', 'id_rsa');
+  let noteFolderAttachment: typeof NoteFolderAttachment;
+
+  before(async () => {
+    mkdirSync(join(notes, 'work'), { recursive: true });
+    mkdirSync(join(home, '.ssh'));
+    writeFileSync(join(notes, 'work', 'export.pdf'), 'pdf');
+    writeFileSync(secret, 'key');
+    symlinkSync(secret, join(notes, 'work', 'key.md'));
+
+    // The config directory is fixed when the config module loads, so HOME is set before importing it
+    process.env.HOME = home;
+    const { getDefaultConfig, saveConfig } = await import('../src/utils/config.js');
+    saveConfig({ ...getDefaultConfig(), storageBasePath: notes });
+
+    ({ noteFolderAttachment } = await import('../src/services/attachments.js'));
+  });
+
+  after(() => {
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  it('attaches files from the notes folder', () => {
+    const attachment = noteFolderAttachment(join(notes, 'work', 'export.pdf'));
+    assert.equal(attachment.filename, 'export.pdf');
+    assert.equal(attachment.contentType, 'application/pdf');
+    assert.equal(attachment.content.toString(), 'pdf');
+  });
+
+  it('refuses files outside it, however the path gets there', () => {
+    for (const path of [secret, join(notes, 'work', '..', '..', '.ssh', 'id_rsa'), join(notes, 'work', 'key.md')]) {
+      assert.throws(() => noteFolderAttachment(path), { message: `Only files in the notes folders can be attached: ${path}` });
+    }
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { CalendarProvider } from '../src/services/calendar.js';
+
+const AUTH = `Basic ${Buffer.from('sam:pw').toString('base64')}`;
+
+interface MockRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+// A Radicale-style collection at /sam/cal/ that keeps resources in memory
+function createMockCaldav() {
+  const resources = new Map<string, string>();
+  const requests: MockRequest[] = [];
+
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const url = req.url || '';
+      requests.push({ method: req.method || '', url, headers: req.headers, body });
+
+      if (req.headers.authorization !== AUTH) {
+        res.writeHead(401).end();
+        return;
+      }
+
+      if (req.method === 'REPORT' && url === '/sam/cal/') {
+        // Another server's prefixes, with the data escaped rather than in CDATA
+        const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+        const items = [...resources].map(([href, data]) =>
+          `<D:response><D:href>${href}</D:href><D:propstat><D:prop><C:calendar-data>${escape(data)}</C:calendar-data></D:prop></D:propstat></D:response>`
+        );
+        res.writeHead(207, { 'Content-Type': 'application/xml' });
+        res.end(`<?xml version="1.0"?><D:multistatus xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">${items.join('')}</D:multistatus>`);
+        return;
+      }
+
+      const stored = resources.get(url);
+      switch (req.method) {
+        case 'PUT':
+          if (req.headers['if-none-match'] === '*' && stored) {
+            res.writeHead(412).end();
+            return;
+          }
+          resources.set(url, body);
+          res.writeHead(stored ? 204 : 201).end();
+          return;
+        case 'GET':
+          if (!stored) {
+            res.writeHead(404).end();
+            return;
+          }
+          res.writeHead(200, { 'Content-Type': 'text/calendar' }).end(stored);
+          return;
+        case 'DELETE':
+          res.writeHead(resources.delete(url) ? 204 : 404).end();
+          return;
+        default:
+          res.writeHead(405).end();
+      }
+    });
+  });
+
+  return { server, resources, requests };
+}
+
+describe('caldav calendar provider', () => {
+  const home = mkdtempSync(join(tmpdir(), 'hw-caldav-'));
+  const mock = createMockCaldav();
+  let calendar: CalendarProvider;
+
+  before(async () => {
+    await new Promise<void>(resolve => mock.server.listen(0, '127.0.0.1', resolve));
+    const port = (mock.server.address() as AddressInfo).port;
+
+    // The config directory is fixed when the config module loads, so HOME is set before importing it
+    process.env.HOME = home;
+    const { getDefaultConfig, saveConfig } = await import('../src/utils/config.js');
+    saveConfig({
+      ...getDefaultConfig(),
+      caldav: { url: `http://127.0.0.1:${port}/sam/cal`, username: 'sam', password: 'pw' },
+    });
+
+    // Providers are loaded through the registry, as the app does
+    const { getCalendarProvider } = await import('../src/services/calendar.js');
+    calendar = getCalendarProvider('caldav');
+  });
+
+  after(() => {
+    mock.server.close();
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  it('creates events with PUT without overwriting an existing resource', async () => {
+    const ref = await calendar.save({
+      title: 'Pricing review',
+      startTime: '2026-10-20T09:00:00Z',
+      endTime: '2026-10-20T10:00:00Z',
+    });
+
+    assert.equal(ref.provider, 'caldav');
+    const put = mock.requests.at(-1);
+    assert.equal(put?.method, 'PUT');
+    assert.equal(put?.url, `/sam/cal/${ref.eventId}.ics`);
+    assert.equal(put?.headers['if-none-match'], '*');
+    assert.equal(put?.headers.authorization, AUTH);
+    assert.match(put?.body || '', /^BEGIN:VCALENDAR\r\n/);
+    assert.match(put?.body || '', /SUMMARY:Pricing review\r\n/);
+    assert.doesNotMatch(put?.body || '', /METHOD:/);
+  });
+
+  it('reads an event back and merges changes into it', async () => {
+    const { eventId } = await calendar.save({
+      title: 'Draft',
+      description: 'Agenda attached',
+      startTime: '2026-10-21T13:00:00Z',
+      endTime: '2026-10-21T13:30:00Z',
+    });
+
+    await calendar.save({ title: 'Final' }, eventId);
+    const put = mock.requests.at(-1);
+    assert.equal(put?.method, 'PUT');
+    assert.equal(put?.headers['if-none-match'], undefined);
+
+    const event = await calendar.get(eventId);
+    assert.equal(event?.id, eventId);
+    assert.equal(event?.title, 'Final');
+    assert.equal(event?.description, 'Agenda attached');
+    assert.equal(event?.startTime, '2026-10-21T13:00:00Z');
+    assert.equal(event?.endTime, '2026-10-21T13:30:00Z');
+  });
+
+  it('lists events in a time range from a REPORT, sorted by start', async () => {
+    const events = await calendar.list('2026-10-19T00:00:00Z', '2026-10-26T00:00:00Z');
+
+    const report = mock.requests.at(-1);
+    assert.equal(report?.method, 'REPORT');
+    assert.equal(report?.url, '/sam/cal/');
+    assert.equal(report?.headers.depth, '1');
+    assert.match(report?.body || '', /<c:time-range start="20261019T000000Z" end="20261026T000000Z"\/>/);
+
+    assert.deepEqual(events.map(e => e.title), ['Pricing review', 'Final']);
+    for (const event of events) {
+      assert.ok(mock.resources.has(`/sam/cal/${event.id}.ics`));
+    }
+  });
+
+  it('deletes events and ignores ones that are already gone', async () => {
+    const [event] = await calendar.list('2026-10-19T00:00:00Z', '2026-10-26T00:00:00Z');
+    const eventId = event.id as string;
+
+    await calendar.delete(eventId);
+    await calendar.delete(eventId);
+
+    assert.equal(mock.requests.at(-1)?.method, 'DELETE');
+    assert.equal(await calendar.get(eventId), undefined);
+    assert.equal(mock.resources.size, 1);
+  });
+
+  it('names the failed step without the URL', async () => {
+    const { getDefaultConfig, saveConfig, loadConfig } = await import('../src/utils/config.js');
+    const caldav = loadConfig().caldav;
+    saveConfig({ ...getDefaultConfig(), caldav: caldav && { ...caldav, password: 'wrong' } });
+
+    await assert.rejects(calendar.get('anything'), { message: 'CalDAV GET failed: 401 Unauthorized' });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { CalendarProvider } from '../src/services/calendar.js';
+
+// Exported from another calendar app, with parts the parser does not keep
+const FOREIGN_CALENDAR = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Example Corp//Calendar//EN',
+  'BEGIN:VEVENT',
+  'UID:weekly@example.com',
+  'DTSTAMP:20261001T080000Z',
+  'DTSTART:20261020T080000Z',
+  'DTEND:20261020T090000Z',
+  'RRULE:FREQ=WEEKLY',
+  'SUMMARY:Weekly sync',
+  'BEGIN:VALARM',
+  'ACTION:DISPLAY',
+  'TRIGGER:-PT15M',
+  'END:VALARM',
+  'END:VEVENT',
+  'END:VCALENDAR',
+  '',
+].join('\r\n');
+
+describe('ics calendar provider', () => {
+  const home = mkdtempSync(join(tmpdir(), 'hw-ics-'));
+  const ownPath = join(home, 'own.ics');
+  const foreignPath = join(home, 'foreign.ics');
+  let calendar: CalendarProvider;
+  let useCalendar: (path: string) => void;
+
+  before(async () => {
+    // The config directory is fixed when the config module loads, so HOME is set before importing it
+    process.env.HOME = home;
+    const { getDefaultConfig, saveConfig } = await import('../src/utils/config.js');
+    useCalendar = path => saveConfig({ ...getDefaultConfig(), icsCalendarPath: path });
+
+    // Providers are loaded through the registry, as the app does
+    const { getCalendarProvider } = await import('../src/services/calendar.js');
+    calendar = getCalendarProvider('ics');
+  });
+
+  after(() => {
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  it('creates, updates and deletes events in a file of its own', async () => {
+    useCalendar(ownPath);
+    const { eventId } = await calendar.save({
+      title: 'Pricing review',
+      startTime: '2026-10-20T09:00:00Z',
+      endTime: '2026-10-20T10:00:00Z',
+    });
+
+    await calendar.save({ title: 'Pricing decision' }, eventId);
+    assert.equal((await calendar.get(eventId))?.title, 'Pricing decision');
+
+    await calendar.delete(eventId);
+    assert.equal(await calendar.get(eventId), undefined);
+  });
+
+  it('reads a calendar another app wrote but refuses to rewrite it', async () => {
+    writeFileSync(foreignPath, FOREIGN_CALENDAR);
+    useCalendar(foreignPath);
+
+    const events = await calendar.list('2026-10-19T00:00:00Z', '2026-10-26T00:00:00Z');
+    assert.deepEqual(events.map(e => e.title), ['Weekly sync']);
+
+    const refused = { message: /was not created by highlight-workflow/ };
+    await assert.rejects(
+      calendar.save({ title: 'New', startTime: '2026-10-21T09:00:00Z', endTime: '2026-10-21T10:00:00Z' }),
+      refused
+    );
+    await assert.rejects(calendar.delete('weekly@example.com'), refused);
+    assert.equal(readFileSync(foreignPath, 'utf-8'), FOREIGN_CALENDAR);
+  });
+});
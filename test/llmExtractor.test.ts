@@ -0,0 +1,141 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createLlmExtractor } from '../src/services/extractors/llmExtractor.js';
+import type { ActionExtractor } from '../src/services/actionExtractor.js';
+
+interface MockReply {
+  status?: number;
+  // Message content the model "writes"
+  content?: string;
+}
+
+interface ChatRequest {
+  authorization?: string;
+  body: { model: string; messages: Array<{ role: string; content: string }> };
+}
+
+// An OpenAI-compatible chat completions endpoint that answers with whatever the test queued
+function startMockLlm() {
+  const replies: MockReply[] = [];
+  const requests: ChatRequest[] = [];
+
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      requests.push({ authorization: req.headers.authorization, body: JSON.parse(body) });
+      const reply = replies.shift() || { status: 500 };
+
+      res.statusCode = reply.status || 200;
+      res.setHeader('content-type', 'application/json');
+      res.end(
+        reply.status && reply.status >= 400
+          ? JSON.stringify({ error: { message: 'model overloaded' } })
+          : JSON.stringify({ choices: [{ message: { role: 'assistant', content: reply.content } }] })
+      );
+    });
+  });
+
+  return { server, replies, requests };
+}
+
+const notes = [
+  '## Notes',
+  '**[00:01:02] Sarah:** I will send the pricing deck by friday.',
+  '- Review the contract draft before next week',
+].join('\n');
+
+const deck = {
+  description: 'Send the pricing deck',
+  assignee: '@Sarah',
+  dueDate: 'friday',
+  priority: 'high',
+  confidence: 0.9,
+  source: 'I will send the pricing deck by friday.',
+};
+
+describe('LLM extractor', () => {
+  const mock = startMockLlm();
+  const home = mkdtempSync(join(tmpdir(), 'highlight-workflow-test-'));
+  let baseUrl: string;
+  let extractor: ActionExtractor;
+
+  before(async () => {
+    await new Promise<void>(resolve => mock.server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(mock.server.address() as AddressInfo).port}/v1/`;
+    extractor = createLlmExtractor({ strategy: 'llm', llm: { baseUrl, model: 'test-model', apiKey: 'k1' } });
+  });
+
+  after(() => {
+    mock.server.close();
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  it('maps a JSON reply onto extracted actions', async () => {
+    mock.replies.push({ content: JSON.stringify({ actionPoints: [deck] }) });
+
+    const [action, ...rest] = await extractor.extract(notes, { referenceDate: '2026-10-19', language: 'en' });
+
+    assert.equal(rest.length, 0);
+    assert.deepEqual(action, {
+      description: 'Send the pricing deck',
+      assignee: 'Sarah',
+      dueDate: '2026-10-23',
+      dueDatePhrase: 'friday',
+      dueDateIssue: undefined,
+      priority: 'high',
+      confidence: 0.9,
+      sourceSpan: { start: notes.indexOf(deck.source), end: notes.indexOf(deck.source) + deck.source.length, text: deck.source },
+    });
+
+    const [request] = mock.requests.slice(-1);
+    assert.equal(request.authorization, 'Bearer k1');
+    assert.equal(request.body.model, 'test-model');
+    assert.equal(request.body.messages[1].content, notes);
+  });
+
+  it('reads JSON wrapped in a code fence and fills in missing scores', async () => {
+    const reply = { actionPoints: [{ description: 'Review the contract draft', priority: 'urgent' }] };
+    mock.replies.push({ content: '```json\n' + JSON.stringify(reply) + '\n```' });
+
+    const [action] = await extractor.extract(notes, {});
+
+    assert.equal(action.description, 'Review the contract draft');
+    assert.equal(action.priority, 'medium');
+    assert.equal(action.confidence, 0.8);
+    assert.equal(action.sourceSpan, undefined);
+  });
+
+  it('rejects replies that do not match the schema', async () => {
+    mock.replies.push({ content: JSON.stringify({ actions: [deck] }) });
+    await assert.rejects(extractor.extract(notes, {}), /did not match the expected shape/);
+
+    mock.replies.push({ content: 'Sure! Here are the action points: ...' });
+    await assert.rejects(extractor.extract(notes, {}), /not valid JSON/);
+  });
+
+  it('falls back to the regex patterns when the endpoint fails', async t => {
+    // The config directory is fixed when the config module loads, so HOME is set before importing it
+    process.env.HOME = home;
+    const { getDefaultConfig, saveConfig } = await import('../src/utils/config.js');
+    saveConfig({ ...getDefaultConfig(), extractor: { strategy: 'llm', llm: { baseUrl, model: 'test-model' } } });
+    const { extractActionPoints } = await import('../src/services/actionExtractor.js');
+    const { extractWithPatterns } = await import('../src/services/extractors/regexExtractor.js');
+
+    const errors = t.mock.method(console, 'error', () => undefined);
+    mock.replies.push({ status: 500 });
+    const requestsBefore = mock.requests.length;
+
+    const actions = await extractActionPoints(notes, { referenceDate: '2026-10-19', language: 'en' });
+
+    assert.equal(mock.requests.length, requestsBefore + 1);
+    assert.match(String(errors.mock.calls[0]?.arguments[0]), /using regex fallback: LLM API error 500/);
+    assert.deepEqual(actions, extractWithPatterns(notes, { referenceDate: '2026-10-19', language: 'en' }));
+    assert.ok(actions.some(action => action.description === 'send the pricing deck by friday' && action.assignee === 'Sarah'));
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildMimeMessage } from '../src/services/mime.js';
+
+function header(message: string, name: string): string | undefined {
+  return message.split('\r\n').find(line => line.startsWith(`${name}: `))?.slice(name.length + 2);
+}
+
+// The decoded base64 parts of a message, in order
+function decodedParts(message: string): string[] {
+  return [...message.matchAll(/Content-Transfer-Encoding: base64\r\n\r\n([A-Za-z0-9+/=\r\n]+?)(?:\r\n--|\r\n$)/g)].map(
+    match => Buffer.from(match[1].replace(/\r\n/g, ''), 'base64').toString('utf-8')
+  );
+}
+
+describe('buildMimeMessage', () => {
+  it('writes a plain-text message with CRLF line endings', () => {
+    const message = buildMimeMessage(
+      { to: ['ann@example.com'], subject: 'Weekly sync', body: 'Hello\nthere' },
+      'sam@example.com'
+    );
+
+    assert.equal(header(message, 'From'), 'sam@example.com');
+    assert.equal(header(message, 'To'), 'ann@example.com');
+    assert.equal(header(message, 'Subject'), 'Weekly sync');
+    assert.equal(header(message, 'MIME-Version'), '1.0');
+    assert.match(header(message, 'Message-ID') || '', /^<[0-9a-f]{32}@example\.com>$/);
+    assert.equal(header(message, 'Content-Type'), 'text/plain; charset=utf-8');
+    assert.deepEqual(decodedParts(message), ['Hello\nthere']);
+    assert.ok(!/[^\r]\n/.test(message));
+  });
+
+  it('quotes ASCII display names and encodes only non-ASCII ones', () => {
+    const message = buildMimeMessage(
+      {
+        to: ['Jones, Ann <ann@example.com>', 'Zoë Müller <zoe@example.com>'],
+        cc: ['bob@example.com'],
+        subject: 'Überblick',
+        body: '',
+      },
+      'Sam S. <sam@example.com>'
+    );
+
+    assert.equal(header(message, 'From'), '"Sam S." <sam@example.com>');
+    assert.equal(
+      header(message, 'To'),
+      `"Jones, Ann" <ann@example.com>, =?UTF-8?B?${Buffer.from('Zoë Müller').toString('base64')}?= <zoe@example.com>`
+    );
+    assert.equal(header(message, 'Cc'), 'bob@example.com');
+    assert.equal(header(message, 'Subject'), `=?UTF-8?B?${Buffer.from('Überblick').toString('base64')}?=`);
+  });
+
+  it('rejects addresses that are not addresses', () => {
+    assert.throws(
+      () => buildMimeMessage({ to: ['ann@example.com\r\nBcc: eve@example.com'], subject: 'x', body: '' }),
+      /Invalid email address/
+    );
+    assert.throws(() => buildMimeMessage({ to: ['not an address'], subject: 'x', body: '' }), /Invalid email address/);
+  });
+
+  it('wraps HTML as an alternative and attachments in multipart/mixed', () => {
+    const message = buildMimeMessage({
+      to: ['ann@example.com'],
+      subject: 'Notes',
+      body: 'Plain',
+      html: '<p>Rich</p>',
+      attachments: [{ filename: 'notes.md', contentType: 'text/markdown', content: '# Notes' }],
+    });
+
+    const mixed = header(message, 'Content-Type')?.match(/^multipart\/mixed; boundary="(.+)"$/)?.[1];
+    assert.ok(mixed);
+    assert.match(message, /Content-Type: multipart\/alternative; boundary="[^"]+"/);
+    assert.match(message, /Content-Disposition: attachment; filename="notes\.md"/);
+    assert.ok(message.endsWith(`--${mixed}--\r\n`));
+    assert.deepEqual(decodedParts(message), ['Plain', '<p>Rich</p>', '# Notes']);
+  });
+
+  it('wraps base64 bodies at 76 characters', () => {
+    const message = buildMimeMessage({ to: ['ann@example.com'], subject: 'Long', body: 'x'.repeat(500) });
+    const lines = message.split('\r\n\r\n')[1].split('\r\n').filter(Boolean);
+
+    assert.ok(lines.length > 1);
+    assert.ok(lines.every(line => line.length <= 76));
+  });
+});
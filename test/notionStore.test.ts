@@ -0,0 +1,264 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { NoteStore } from '../src/services/noteStore.js';
+import type { ActionPoint, Note } from '../src/types.js';
+
+interface MockRichText {
+  type?: string;
+  text: { content: string };
+  plain_text?: string;
+}
+
+interface MockBlockBody {
+  rich_text: MockRichText[];
+  checked?: boolean;
+}
+
+type MockBlockType = 'paragraph' | 'to_do' | 'heading_2';
+
+interface MockBlock extends Partial<Record<MockBlockType, MockBlockBody>> {
+  id: string;
+  type: string;
+}
+
+interface MockProperty {
+  title?: MockRichText[];
+  rich_text?: MockRichText[];
+  select?: { name: string } | null;
+}
+
+interface MockPage {
+  id: string;
+  archived?: boolean;
+  properties: Record<string, MockProperty>;
+}
+
+interface MockCondition {
+  property: string;
+  select?: { equals: string };
+  rich_text?: { equals: string };
+}
+
+// The parts of request bodies the mock looks at
+interface MockRequest {
+  properties?: Record<string, MockProperty>;
+  children?: Array<Omit<MockBlock, 'id'>>;
+  archived?: boolean;
+  filter?: MockCondition & { and?: MockCondition[] };
+}
+
+function plainText(richText: MockRichText[] = []): string {
+  return richText.map(rt => rt.plain_text ?? rt.text.content).join('');
+}
+
+// Just enough of the Notion API for the store: pages in one database and their child blocks
+function startMockNotion() {
+  const pages = new Map<string, MockPage>();
+  const blocks = new Map<string, MockBlock[]>();
+  const requests: string[] = [];
+  let nextId = 0;
+
+  // Notion answers with plain_text filled in next to the text that was sent
+  const withPlainText = (richText: MockRichText[]) => richText.map(rt => ({ ...rt, plain_text: rt.text.content }));
+  const toProperty = (value: MockProperty): MockProperty => ({
+    ...value,
+    ...(value.title ? { title: withPlainText(value.title) } : {}),
+    ...(value.rich_text ? { rich_text: withPlainText(value.rich_text) } : {}),
+  });
+  const toBlock = (block: Omit<MockBlock, 'id'>): MockBlock => {
+    const type = block.type as MockBlockType;
+    const body = block[type];
+    return { id: `block${++nextId}`, type, ...(body ? { [type]: { ...body, rich_text: withPlainText(body.rich_text) } } : {}) };
+  };
+  const matches = (page: MockPage, condition: MockCondition) =>
+    condition.select
+      ? page.properties[condition.property]?.select?.name === condition.select.equals
+      : plainText(page.properties[condition.property]?.rich_text) === condition.rich_text?.equals;
+
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const data: MockRequest = body ? JSON.parse(body) : {};
+      const path = new URL(req.url || '', 'http://localhost').pathname;
+      const send = (value: unknown) => res.end(JSON.stringify(value));
+      requests.push(`${req.method} ${path}`);
+      let match;
+
+      if (req.method === 'POST' && path === '/pages') {
+        const page: MockPage = { id: `page${++nextId}`, properties: {} };
+        for (const [name, value] of Object.entries(data.properties || {})) page.properties[name] = toProperty(value);
+        pages.set(page.id, page);
+        blocks.set(page.id, (data.children || []).map(toBlock));
+        return send(page);
+      }
+      if ((match = path.match(/^\/databases\/[^/]+\/query$/)) && data.filter) {
+        const conditions = data.filter.and || [data.filter];
+        const results = [...pages.values()].filter(
+          page => !page.archived && conditions.every(condition => matches(page, condition))
+        );
+        return send({ results, has_more: false, next_cursor: null });
+      }
+      if ((match = path.match(/^\/blocks\/([^/]+)\/children$/))) {
+        if (req.method === 'GET') return send({ results: blocks.get(match[1]) || [], has_more: false, next_cursor: null });
+        blocks.get(match[1])?.push(...(data.children || []).map(toBlock));
+        return send({});
+      }
+      if ((match = path.match(/^\/blocks\/([^/]+)$/)) && req.method === 'DELETE') {
+        const blockId = match[1];
+        for (const [pageId, list] of blocks) blocks.set(pageId, list.filter(block => block.id !== blockId));
+        return send({});
+      }
+      const page = (match = path.match(/^\/pages\/([^/]+)$/)) && req.method === 'PATCH' ? pages.get(match[1]) : undefined;
+      if (page) {
+        if (data.archived) page.archived = true;
+        for (const [name, value] of Object.entries(data.properties || {})) page.properties[name] = toProperty(value);
+        return send(page);
+      }
+
+      res.statusCode = 404;
+      send({ message: `No mock for ${req.method} ${path}` });
+    });
+  });
+
+  return { server, pages, blocks, requests };
+}
+
+function actionPoint(id: string, description: string, status: ActionPoint['status'] = 'pending'): ActionPoint {
+  return { id, description, priority: 'medium', status, noteId: 'note1' };
+}
+
+function note(actionPoints: ActionPoint[]): Note {
+  return {
+    id: 'note1',
+    title: 'Planning',
+    date: '2026-10-19',
+    project: 'work',
+    content: 'First line\nSecond line',
+    actionPoints,
+    tags: ['planning'],
+    linkedNotes: [],
+    createdAt: '2026-10-19T09:00:00.000Z',
+    updatedAt: '2026-10-19T09:00:00.000Z',
+  };
+}
+
+describe('Notion store', () => {
+  const mock = startMockNotion();
+  const home = mkdtempSync(join(tmpdir(), 'highlight-workflow-test-'));
+  let store: NoteStore;
+
+  const todos = () =>
+    [...mock.blocks.values()][0].filter((block): block is MockBlock & { to_do: MockBlockBody } => !!block.to_do);
+  const todoText = (block: MockBlock) => plainText(block.to_do?.rich_text);
+
+  before(async () => {
+    await new Promise<void>(resolve => mock.server.listen(0, '127.0.0.1', resolve));
+    const port = (mock.server.address() as AddressInfo).port;
+
+    // The config directory is fixed when the config module loads, so HOME is set before importing it
+    process.env.HOME = home;
+    const { getDefaultConfig, saveConfig } = await import('../src/utils/config.js');
+    saveConfig({
+      ...getDefaultConfig(),
+      projects: [{ name: 'work', path: '', storage: 'notion' }],
+      notionApiKey: 'secret',
+      notionDatabaseId: 'db1',
+      notionApiUrl: `http://127.0.0.1:${port}`,
+    });
+
+    const { createNotionStore } = await import('../src/services/stores/notionStore.js');
+    store = createNotionStore({ name: 'work', path: '', storage: 'notion' });
+  });
+
+  after(() => {
+    mock.server.close();
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  it('writes action points as to-dos ending with their ID', async () => {
+    await store.create(
+      note([actionPoint('ap1', 'Send the slides'), actionPoint('ap2', 'Send the slides'), actionPoint('ap3', 'Book room', 'completed')])
+    );
+
+    assert.deepEqual(
+      todos().map(block => [todoText(block), block.to_do.checked]),
+      [
+        ['Send the slides [ap1]', false],
+        ['Send the slides [ap2]', false],
+        ['Book room [ap3]', true],
+      ]
+    );
+  });
+
+  it('maps ticked to-dos back to the action with that ID', async () => {
+    todos()[1].to_do.checked = true;
+    todos()[2].to_do.checked = false;
+
+    const read = await store.get('note1');
+    assert.deepEqual(
+      read?.actionPoints.map(ap => [ap.id, ap.status]),
+      [
+        ['ap1', 'pending'],
+        ['ap2', 'completed'],
+        ['ap3', 'pending'],
+      ]
+    );
+    assert.equal(read?.content, 'First line\nSecond line');
+  });
+
+  it('matches to-dos written before they carried an ID on their text', async () => {
+    const legacy = todos()[0];
+    legacy.to_do.rich_text = [{ type: 'text', text: { content: 'Send the slides' }, plain_text: 'Send the slides' }];
+    legacy.to_do.checked = true;
+
+    const read = await store.get('note1');
+    assert.equal(read?.actionPoints.find(ap => ap.id === 'ap1')?.status, 'completed');
+  });
+
+  it('only rewrites the blocks after the first change', async () => {
+    await store.update(note([actionPoint('ap1', 'Send the slides'), actionPoint('ap2', 'Send the slides')]));
+    mock.requests.length = 0;
+
+    await store.update(
+      note([actionPoint('ap1', 'Send the slides'), actionPoint('ap2', 'Send the slides'), actionPoint('ap4', 'Share notes')])
+    );
+
+    assert.ok(!mock.requests.some(request => request.startsWith('DELETE')));
+    assert.deepEqual(todos().map(todoText), ['Send the slides [ap1]', 'Send the slides [ap2]', 'Share notes [ap4]']);
+  });
+
+  it('lists summaries from page properties alone', async () => {
+    mock.requests.length = 0;
+    const summaries = await store.listSummaries();
+
+    assert.deepEqual(
+      summaries.map(summary => [summary.id, summary.title, summary.actionPoints.length]),
+      [['note1', 'Planning', 3]]
+    );
+    assert.ok(!mock.requests.some(request => request.includes('/blocks/')));
+  });
+
+  it('keeps a tick made in Notion when another action in the note is edited', async () => {
+    const { updateActionPoint } = await import('../src/services/notes.js');
+    todos()[0].to_do.checked = true;
+
+    await updateActionPoint('ap4', { priority: 'high' });
+
+    assert.equal(todos()[0].to_do.checked, true);
+    const [summary] = await store.listSummaries();
+    assert.deepEqual(
+      summary.actionPoints.map(ap => [ap.id, ap.status, ap.priority]),
+      [
+        ['ap1', 'completed', 'medium'],
+        ['ap2', 'pending', 'medium'],
+        ['ap4', 'pending', 'high'],
+      ]
+    );
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractWithPatterns } from '../src/services/extractors/regexExtractor.js';
+
+function owners(content: string, language: string): Array<[string, string | undefined]> {
+  return extractWithPatterns(content, { language }).map(action => [action.description, action.assignee]);
+}
+
+describe('extractWithPatterns', () => {
+  it('gives the speaker every first-person commitment the patterns find', () => {
+    assert.deepEqual(owners("**[00:01:02] Sarah:** I'm going to send the pricing deck to the client.", 'en'), [
+      ['send the pricing deck to the client', 'Sarah'],
+    ]);
+    assert.deepEqual(owners('**[00:01:02] Sarah:** Ik regel de offerte voor de klant.', 'nl'), [
+      ['de offerte voor de klant', 'Sarah'],
+    ]);
+    assert.deepEqual(owners('**[00:01:02] Sarah:** Ich übernehme die Planung des Workshops.', 'de'), [
+      ['die Planung des Workshops', 'Sarah'],
+    ]);
+  });
+
+  it('does not treat note labels as speakers', () => {
+    assert.deepEqual(owners("**Decision:** I'll draft the proposal for the board.", 'en'), [
+      ['draft the proposal for the board', undefined],
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:net';
+import type { AddressInfo, Server } from 'node:net';
+import { sendSmtpMessage } from '../src/services/smtp.js';
+import type { SmtpOptions } from '../src/services/smtp.js';
+
+interface MockSmtp {
+  server: Server;
+  port: number;
+  // Every line the client sent, DATA content included
+  received: string[];
+}
+
+// A plaintext SMTP server that offers AUTH but not STARTTLS, and can refuse one command
+function startMockSmtp(refuse?: { command: string; reply: string }): Promise<MockSmtp> {
+  const received: string[] = [];
+
+  const server = createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 mock.test ESMTP\r\n');
+    // The client hangs up without QUIT when it gives up
+    socket.on('error', () => undefined);
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf-8');
+      let index;
+      while ((index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        received.push(line);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 2.0.0 Ok: queued as ABC123\r\n');
+          }
+          continue;
+        }
+
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (refuse && verb === refuse.command) {
+          socket.write(`${refuse.reply}\r\n`);
+        } else if (verb === 'EHLO') {
+          socket.write('250-mock.test\r\n250-AUTH PLAIN LOGIN\r\n250 8BITMIME\r\n');
+        } else if (verb === 'AUTH') {
+          socket.write('235 2.7.0 Authentication successful\r\n');
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 2.0.0 Bye\r\n');
+        } else {
+          socket.write('250 2.1.0 Ok\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, port: (server.address() as AddressInfo).port, received });
+    });
+  });
+}
+
+const envelope = {
+  from: 'Sam <sam@example.com>',
+  recipients: ['ann@example.com', 'Bob <bob@example.com>'],
+  message: 'Subject: Hi\r\n\r\nFirst line\r\n.hidden dot\r\n',
+};
+
+describe('sendSmtpMessage', () => {
+  let mock: MockSmtp;
+  let options: SmtpOptions;
+
+  before(async () => {
+    mock = await startMockSmtp();
+    options = { host: '127.0.0.1', port: mock.port };
+  });
+
+  after(() => mock.server.close());
+
+  it('walks through the dialogue and returns the acceptance reply', async () => {
+    mock.received.length = 0;
+    const reply = await sendSmtpMessage(
+      { ...options, user: 'sam', password: 'secret', allowInsecureAuth: true },
+      envelope
+    );
+
+    assert.equal(reply, '2.0.0 Ok: queued as ABC123');
+    assert.match(mock.received[0], /^EHLO /);
+    assert.equal(mock.received[1], `AUTH PLAIN ${Buffer.from('\0sam\0secret').toString('base64')}`);
+    assert.deepEqual(mock.received.slice(2, 6), [
+      'MAIL FROM:<sam@example.com>',
+      'RCPT TO:<ann@example.com>',
+      'RCPT TO:<bob@example.com>',
+      'DATA',
+    ]);
+  });
+
+  it('escapes lines that start with a dot', async () => {
+    mock.received.length = 0;
+    await sendSmtpMessage(options, envelope);
+
+    const data = mock.received.slice(mock.received.indexOf('DATA') + 1);
+    assert.deepEqual(data.slice(0, 5), ['Subject: Hi', '', 'First line', '..hidden dot', '.']);
+  });
+
+  it('refuses to log in without TLS', async () => {
+    mock.received.length = 0;
+    await assert.rejects(
+      sendSmtpMessage({ ...options, user: 'sam', password: 'secret' }, envelope),
+      /refusing to send the password unencrypted/
+    );
+    assert.ok(!mock.received.some(line => line.startsWith('AUTH')));
+  });
+
+  it('rejects envelope addresses that could inject commands before connecting', async () => {
+    mock.received.length = 0;
+    const injected = { ...envelope, recipients: ['ann@example.com', 'eve@example.com>\r\nRCPT TO:<mallory@example.com'] };
+
+    await assert.rejects(sendSmtpMessage(options, injected), /Invalid email address/);
+    await assert.rejects(sendSmtpMessage(options, { ...envelope, from: 'sam@example.com\nDATA' }), /Invalid email address/);
+    await assert.rejects(sendSmtpMessage(options, { ...envelope, recipients: ['<ann@example.com>>'] }), /Invalid email address/);
+    assert.deepEqual(mock.received, []);
+  });
+
+  it('refuses to send in the clear when requireTLS is set', async () => {
+    mock.received.length = 0;
+    await assert.rejects(sendSmtpMessage({ ...options, requireTLS: true }, envelope), /does not offer STARTTLS/);
+    assert.ok(!mock.received.some(line => line.startsWith('MAIL')));
+  });
+});
+
+describe('sendSmtpMessage with a refusing server', () => {
+  it('names the failed step without the message content', async () => {
+    const mock = await startMockSmtp({ command: 'RCPT', reply: '550 5.1.1 No such user' });
+    try {
+      await assert.rejects(
+        sendSmtpMessage({ host: '127.0.0.1', port: mock.port }, envelope),
+        { message: 'SMTP RCPT failed: 550 5.1.1 No such user' }
+      );
+    } finally {
+      mock.server.close();
+    }
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatInTimeZone, parseInTimeZone, requireTimeZone, toTimeZone } from '../src/utils/timezone.js';
+
+describe('parseInTimeZone', () => {
+  it('reads wall-clock times with the offset in force on that day', () => {
+    // Amsterdam moves to summer time on 29 March and back on 25 October 2026
+    assert.equal(parseInTimeZone('2026-03-28T12:00', 'Europe/Amsterdam').toISOString(), '2026-03-28T11:00:00.000Z');
+    assert.equal(parseInTimeZone('2026-03-29T12:00', 'Europe/Amsterdam').toISOString(), '2026-03-29T10:00:00.000Z');
+    assert.equal(parseInTimeZone('2026-10-25T12:00', 'Europe/Amsterdam').toISOString(), '2026-10-25T11:00:00.000Z');
+  });
+
+  it('handles the hours right around a change', () => {
+    assert.equal(parseInTimeZone('2026-03-29T01:30', 'Europe/Amsterdam').toISOString(), '2026-03-29T00:30:00.000Z');
+    assert.equal(parseInTimeZone('2026-03-29T03:30', 'Europe/Amsterdam').toISOString(), '2026-03-29T01:30:00.000Z');
+    assert.equal(parseInTimeZone('2026-11-01T00:30', 'America/New_York').toISOString(), '2026-11-01T04:30:00.000Z');
+    assert.equal(parseInTimeZone('2026-11-01T03:30', 'America/New_York').toISOString(), '2026-11-01T08:30:00.000Z');
+  });
+
+  it('keeps an explicit offset and reads dates as midnight', () => {
+    assert.equal(
+      parseInTimeZone('2026-01-15T10:00:00-05:00', 'Europe/Amsterdam').toISOString(),
+      '2026-01-15T15:00:00.000Z'
+    );
+    assert.equal(parseInTimeZone('2026-07-01', 'Asia/Tokyo').toISOString(), '2026-06-30T15:00:00.000Z');
+  });
+
+  it('rejects values that are not ISO dates', () => {
+    assert.throws(() => parseInTimeZone('next tuesday', 'Europe/Amsterdam'), /Invalid date-time/);
+  });
+});
+
+describe('formatInTimeZone', () => {
+  it('writes the offset in force at the instant', () => {
+    assert.equal(formatInTimeZone(new Date('2026-03-29T00:59:59Z'), 'Europe/Amsterdam'), '2026-03-29T01:59:59+01:00');
+    assert.equal(formatInTimeZone(new Date('2026-03-29T01:00:00Z'), 'Europe/Amsterdam'), '2026-03-29T03:00:00+02:00');
+    assert.equal(formatInTimeZone(new Date('2026-10-25T01:00:00Z'), 'Europe/Amsterdam'), '2026-10-25T02:00:00+01:00');
+    assert.equal(formatInTimeZone(new Date('2026-01-15T12:00:00Z'), 'Asia/Kolkata'), '2026-01-15T17:30:00+05:30');
+  });
+});
+
+describe('toTimeZone', () => {
+  it('moves times between zones across a change', () => {
+    assert.equal(toTimeZone('2026-03-10T09:00:00', 'Europe/Amsterdam', 'America/New_York'), '2026-03-10T14:00:00+01:00');
+    assert.equal(toTimeZone('2026-03-30T09:00:00', 'Europe/Amsterdam', 'America/New_York'), '2026-03-30T15:00:00+02:00');
+  });
+
+  it('leaves all-day dates alone', () => {
+    assert.equal(toTimeZone('2026-03-29', 'America/New_York', 'Europe/Amsterdam'), '2026-03-29');
+  });
+});
+
+describe('requireTimeZone', () => {
+  it('rejects unknown zones', () => {
+    assert.throws(() => requireTimeZone('Mars/Olympus'), /Unknown timezone "Mars\/Olympus"/);
+    assert.equal(requireTimeZone('Europe/Amsterdam'), 'Europe/Amsterdam');
+  });
+});